@@ -1,133 +1,511 @@
 
-import React, { useState, useCallback } from 'react';
-import { AssetType, GeneratedAsset } from './types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { AssetFile, AssetType, BrandKit, GeneratedAsset, GenerationJob, GenerationReference, LibraryQuery, Motion, SetOptions } from './types';
 import { GeneratorForm } from './components/GeneratorForm';
-import { AssetCard } from './components/AssetCard';
-import { generateSingleAsset, generatePromptVariations } from './services/geminiService';
+import { AssetGallery } from './components/AssetGallery';
+import { LibraryToolbar } from './components/LibraryToolbar';
+import { VectorExportPanel } from './components/VectorExportPanel';
+import { StickerExportDialog } from './components/StickerExportDialog';
+import { EditPanel } from './components/EditPanel';
+import { MockupDialog } from './components/MockupDialog';
+import { BoardEditor } from './components/BoardEditor';
+import { VariationReview } from './components/VariationReview';
+import { PalettePanel } from './components/PalettePanel';
+import { DescriptionPanel } from './components/DescriptionPanel';
+import { useDialogFocus } from './components/useDialogFocus';
+import {
+  assetFromJobItem,
+  createGenerationJob,
+  fetchGenerationJob,
+  jobError,
+  retryGenerationJob,
+  watchGenerationJob,
+} from './services/jobService';
+import { altTextOf, deleteAssets, matchesQuery, queryAssets, saveAsset, setFavorite, withLibraryAssets } from './services/assetLibrary';
+import { downloadBlob, exportAsset, exportCollection, isMotionAsset, originalFile, RasterFormat } from './services/exportService';
+import { canVectorize } from './services/vectorizer';
+import { exportSpriteSheet } from './services/spriteSheet';
+import { importExportedFiles } from './services/provenance';
+import { ApiError, referenceFromBlob } from './services/geminiService';
+import { listBrandKits } from './services/brandKits';
+
+const MOTION_LABELS: Record<string, string> = {
+  'image/gif': 'Animated GIF',
+  'image/webp': 'Animated WebP',
+};
+
+// Reference strength used by "More like this".
+const SIMILARITY_OPTIONS = [
+  { label: 'Close', value: 0.85 },
+  { label: 'Balanced', value: 0.6 },
+  { label: 'Loose', value: 0.3 },
+];
+
+const ACTIVE_JOB_KEY = 'active_job_id';
+const BATCH_SIZE = 20;
+// Matches MAX_JOB_ITEMS on the server.
+const MAX_BATCH_SIZE = 40;
+
+interface ErrorAction {
+  label: string;
+  run: () => void;
+}
+
+const formatWait = (seconds: number | null) =>
+  !seconds ? 'a minute' : seconds < 90 ? `${seconds} seconds` : `${Math.ceil(seconds / 60)} minutes`;
+
+const DEFAULT_QUERY: LibraryQuery = { search: '', type: 'all', since: 'all', favoritesOnly: false };
+
+const isFiltered = (query: LibraryQuery) =>
+  query.search.trim() !== '' || query.type !== 'all' || query.since !== 'all' || query.favoritesOnly;
 
 const App: React.FC = () => {
   const [assets, setAssets] = useState<GeneratedAsset[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [progress, setProgress] = useState(0);
   const [previewAsset, setPreviewAsset] = useState<GeneratedAsset | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Offered next to the error banner only while `message` is still the error shown.
+  const [errorAction, setErrorAction] = useState<(ErrorAction & { message: string }) | null>(null);
+  const [libraryQuery, setLibraryQuery] = useState<LibraryQuery>(DEFAULT_QUERY);
+  const [libraryCursor, setLibraryCursor] = useState<[number, string] | null>(null);
+  const [isLoadingLibrary, setIsLoadingLibrary] = useState(false);
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isExporting, setIsExporting] = useState(false);
+  const [stickerAssets, setStickerAssets] = useState<GeneratedAsset[] | null>(null);
+  const [mockupAsset, setMockupAsset] = useState<GeneratedAsset | null>(null);
+  const [boardOpen, setBoardOpen] = useState(false);
+  const [review, setReview] = useState<{
+    key: number;
+    prompt: string;
+    type: AssetType;
+    reference?: GenerationReference;
+    brandKit?: BrandKit;
+    set?: SetOptions;
+    motion?: Motion;
+  } | null>(null);
+  const [similarity, setSimilarity] = useState(SIMILARITY_OPTIONS[1].value);
+  const queryRef = useRef(libraryQuery);
+  const requestRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+  const [activeJob, setActiveJob] = useState<GenerationJob | null>(null);
+  const unwatchRef = useRef<(() => void) | null>(null);
+  const receivedRef = useRef<Set<string>>(new Set());
+  // Set on every render so a watch started earlier reports with current state.
+  const jobFailedRef = useRef<(job: GenerationJob) => void>(() => {});
+
+  useDialogFocus(previewRef, !!previewAsset, () => setPreviewAsset(null), !!(stickerAssets || mockupAsset || boardOpen));
+
+  const loadLibraryPage = useCallback(async (query: LibraryQuery, cursor: [number, string] | null) => {
+    const request = ++requestRef.current;
+    setIsLoadingLibrary(true);
+    try {
+      const page = await queryAssets(query, cursor);
+      if (request !== requestRef.current) return;
+      setAssets((prev) => (cursor ? [...prev, ...page.assets] : page.assets));
+      setLibraryCursor(page.cursor);
+    } catch (err) {
+      console.error('Failed to load library', err);
+    } finally {
+      if (request === requestRef.current) setIsLoadingLibrary(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    queryRef.current = libraryQuery;
+    const timer = setTimeout(() => loadLibraryPage(libraryQuery, null), 200);
+    return () => clearTimeout(timer);
+  }, [libraryQuery, loadLibraryPage]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !libraryCursor || isLoadingLibrary) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        loadLibraryPage(queryRef.current, libraryCursor);
+      }
+    }, { rootMargin: '600px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [libraryCursor, isLoadingLibrary, loadLibraryPage]);
+
+  const persistAsset = async (asset: GeneratedAsset) => {
+    try {
+      return await saveAsset(asset);
+    } catch (err) {
+      console.error(`Failed to save ${asset.id} to the library`, err);
+      return asset;
+    }
+  };
+
+  const updateAsset = (updated: GeneratedAsset) => {
+    setAssets((prev) => prev.map((asset) => (asset.id === updated.id ? updated : asset)));
+    setPreviewAsset((current) => (current?.id === updated.id ? updated : current));
+  };
+
+  const handleToggleFavorite = async (asset: GeneratedAsset) => {
+    const favorite = !asset.favorite;
+    updateAsset({ ...asset, favorite });
+    try {
+      await setFavorite(asset.id, favorite);
+    } catch (err) {
+      console.error(err);
+      updateAsset(asset);
+    }
+  };
+
+  const handleToggleSelect = (asset: GeneratedAsset) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(asset.id)) {
+        next.delete(asset.id);
+      } else {
+        next.add(asset.id);
+      }
+      return next;
+    });
+  };
+
+  const handleDelete = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    if (!window.confirm(`Delete ${ids.length} element${ids.length === 1 ? '' : 's'} from your library? This cannot be undone.`)) return;
 
-  const handleGenerate = async (basePrompt: string, type: AssetType) => {
+    try {
+      await deleteAssets(ids);
+      const removed = new Set(ids);
+      setAssets((prev) => prev.filter((asset) => !removed.has(asset.id)));
+      setSelectedIds(new Set());
+      setPreviewAsset((current) => (current && removed.has(current.id) ? null : current));
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Failed to delete elements.');
+    }
+  };
+
+  // `retry` repeats the failed action when the error is worth retrying.
+  const reportGenerationError = (err: any, retry?: () => void) => {
+    console.error(err);
+    const show = (message: string, action?: ErrorAction) => {
+      setError(message);
+      setErrorAction(action ? { ...action, message } : null);
+    };
+    if (!(err instanceof ApiError)) {
+      show(err.message || 'Failed to forge elements. Please try again.');
+      return;
+    }
+
+    const retryAction = retry && { label: 'Try again', run: retry };
+    switch (err.code) {
+      case 'RATE_LIMITED':
+        show(`The image service is rate limiting requests. Try again in ${formatWait(err.retryAfter)}.`, retryAction);
+        break;
+      case 'PROVIDER_NOT_CONFIGURED': {
+        const aistudio = (window as any).aistudio;
+        show(
+          `Image generation is not set up: ${err.message}.`,
+          aistudio?.openSelectKey ? { label: 'Select API key', run: () => aistudio.openSelectKey() } : undefined
+        );
+        break;
+      }
+      case 'MODERATION_BLOCKED':
+        show(`${err.message}. Rephrase the prompt and try again.`, {
+          label: 'Edit prompt',
+          run: () => window.scrollTo({ top: 0, behavior: 'smooth' }),
+        });
+        break;
+      case 'SAFETY_BLOCKED':
+        show('This request was blocked by the safety filters. Rephrase the prompt and try again.', {
+          label: 'Edit prompt',
+          run: () => window.scrollTo({ top: 0, behavior: 'smooth' }),
+        });
+        break;
+      case 'NO_IMAGE':
+      case 'UPSTREAM_ERROR':
+      case 'UPSTREAM_TIMEOUT':
+        show(`${err.message}.`, retryAction);
+        break;
+      default:
+        show(err.message);
+    }
+  };
+
+  const watchJob = useCallback((job: Pick<GenerationJob, 'id' | 'prompt' | 'type' | 'motion' | 'parentId' | 'brandKit' | 'set'>) => {
+    unwatchRef.current?.();
+    localStorage.setItem(ACTIVE_JOB_KEY, job.id);
+    setIsGenerating(true);
+
+    unwatchRef.current = watchGenerationJob(job.id, {
+      onJob: (update) => {
+        setActiveJob(update);
+        const { total, done, failed, blocked = 0 } = update.counts;
+        setProgress(total ? Math.min(100, Math.round(((done + failed + blocked) / total) * 100)) : 0);
+      },
+      onItem: async (item) => {
+        const asset = assetFromJobItem(job, item);
+        if (!asset || receivedRef.current.has(asset.id)) return;
+        receivedRef.current.add(asset.id);
+
+        const saved = await persistAsset(asset);
+        if (!matchesQuery(saved, queryRef.current)) return;
+        setAssets((prev) => [saved, ...prev.filter((existing) => existing.id !== saved.id)]);
+      },
+      onEnd: (update) => {
+        setActiveJob(update);
+        setIsGenerating(false);
+        setProgress(0);
+        localStorage.removeItem(ACTIVE_JOB_KEY);
+        if (update.status === 'failed') jobFailedRef.current(update);
+      },
+      onError: (err) => console.error('Job watch failed', err),
+    });
+  }, []);
+
+  useEffect(() => {
+    const activeJobId = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (activeJobId) {
+      fetchGenerationJob(activeJobId)
+        .then(watchJob)
+        .catch((err) => {
+          console.error('Could not resume job', err);
+          localStorage.removeItem(ACTIVE_JOB_KEY);
+        });
+    }
+    return () => unwatchRef.current?.();
+  }, [watchJob]);
+
+  // Generation starts with a review of the prompt variations; images are only
+  // rendered for the prompts the user approves.
+  const handleGenerate = (
+    basePrompt: string,
+    type: AssetType,
+    reference?: GenerationReference,
+    brandKit?: BrandKit,
+    set?: SetOptions,
+    motion?: Motion
+  ) => {
+    setError(null);
+    setReview({ key: Date.now(), prompt: basePrompt, type, reference, brandKit, set, motion });
+  };
+
+  const startJob = async (
+    prompt: string,
+    type: AssetType,
+    prompts: string[],
+    reference?: GenerationReference,
+    brandKit?: BrandKit,
+    set?: SetOptions,
+    motion?: Motion
+  ) => {
     setIsGenerating(true);
     setProgress(0);
     setError(null);
-    
+    setActiveJob(null);
+
     try {
-      // Step 1: Generate variations
-      const variations = await generatePromptVariations(basePrompt, type, 20);
-      
-      const newAssets: GeneratedAsset[] = [];
-      // Reducing batch size to 1 to be as conservative as possible with Rate Limits
-      const batchSize = 1; 
-      
-      for (let i = 0; i < variations.length; i += batchSize) {
-        const currentBatch = variations.slice(i, i + batchSize);
-        
-        const batchPromises = currentBatch.map(async (prompt): Promise<GeneratedAsset | null> => {
-          try {
-            const url = await generateSingleAsset(prompt, type);
-            return {
-              id: Math.random().toString(36).substr(2, 9),
-              url,
-              type,
-              prompt,
-              timestamp: Date.now(),
-              isVideo: type === AssetType.GIF
-            };
-          } catch (err) {
-            console.error(`Failed variation: ${prompt}`, err);
-            // If we hit a hard 429 even after retries in the service, we might want to stop the whole loop
-            if (err?.message?.includes('429')) {
-              throw err; 
-            }
-            return null;
-          }
-        });
+      const job = await createGenerationJob(prompt, type, prompts, reference, brandKit, set, motion);
+      setActiveJob(job);
+      watchJob(job);
+    } catch (err: any) {
+      setIsGenerating(false);
+      reportGenerationError(err, () => startJob(prompt, type, prompts, reference, brandKit, set, motion));
+    }
+  };
 
-        try {
-          const results = await Promise.all(batchPromises);
-          const successful = results.filter((r): r is GeneratedAsset => r !== null);
-          
-          newAssets.push(...successful);
-          setAssets((prev) => [...successful, ...prev]);
-          setProgress(Math.min(100, Math.round(((i + currentBatch.length) / variations.length) * 100)));
-        } catch (batchErr: any) {
-          if (batchErr?.message?.includes('429')) {
-            throw batchErr; // Stop the loop and show the error to user
-          }
-        }
-        
-        // Add a significant delay between requests to respect rate limits (4 seconds)
-        if (i + batchSize < variations.length) {
-          await new Promise(resolve => setTimeout(resolve, 4000));
-        }
-      }
+  const handleApproveVariations = async (prompts: string[]) => {
+    if (!review) return;
+    const { prompt, type, reference, brandKit, set, motion } = review;
+    setReview(null);
+    await startJob(prompt, type, prompts, reference, brandKit, set, motion);
+  };
+
+  const handleMoreLikeThis = async (asset: GeneratedAsset) => {
+    setPreviewAsset(null);
+    try {
+      const image = await referenceFromBlob(await fetch(asset.url).then((response) => response.blob()));
+      handleGenerate(
+        asset.prompt,
+        asset.type,
+        { images: [image], strength: similarity, parentId: asset.id },
+        listBrandKits().find((kit) => kit.id === asset.brandKitId),
+        undefined,
+        asset.motion
+      );
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Could not use this asset as a reference.');
+    }
+  };
+
+  const handleRegenerate = (asset: GeneratedAsset) => {
+    setPreviewAsset(null);
+    handleGenerate(
+      asset.prompt,
+      asset.type,
+      undefined,
+      listBrandKits().find((kit) => kit.id === asset.brandKitId),
+      undefined,
+      asset.motion
+    );
+  };
+
+  // Files exported from here carry their generation metadata; dropping them
+  // back onto the page restores them to the library.
+  const handleFileDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFiles(true);
+  };
 
-      if (newAssets.length === 0) {
-        throw new Error("Could not forge any elements. Service might be busy. Try again in a few moments.");
+  const handleFileDrop = async (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    setError(null);
+    try {
+      const { assets: imported, skipped } = await importExportedFiles(Array.from(e.dataTransfer.files));
+      const saved: GeneratedAsset[] = [];
+      for (const asset of imported) {
+        const stored = await persistAsset(asset);
+        if (stored.url !== asset.url) URL.revokeObjectURL(asset.url);
+        saved.push(stored);
       }
+      const visible = saved.filter((asset) => matchesQuery(asset, queryRef.current));
+      setAssets((prev) => [...visible, ...prev].sort((a, b) => b.timestamp - a.timestamp));
+      if (saved.length === 1) setPreviewAsset(saved[0]);
+      if (skipped.length) setError(`No generation metadata found in ${skipped.join(', ')}.`);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Import failed.');
+    }
+  };
+
+  const retryJob = async (id: string) => {
+    setError(null);
+    try {
+      const job = await retryGenerationJob(id);
+      setActiveJob(job);
+      watchJob(job);
+    } catch (err: any) {
+      reportGenerationError(err, () => retryJob(id));
+    }
+  };
+
+  jobFailedRef.current = (job) => reportGenerationError(jobError(job), () => retryJob(job.id));
+
+  const handleRetryFailed = () => {
+    if (activeJob) retryJob(activeJob.id);
+  };
+
+  const downloadOriginal = async (asset: GeneratedAsset, file: AssetFile) => {
+    try {
+      const exported = await originalFile(asset, file);
+      downloadBlob(exported.blob, exported.filename);
+      if (exported.sidecar) downloadBlob(exported.sidecar, `${exported.filename}.json`);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Download failed.');
+    }
+  };
+
+  const convertAndDownload = async (asset: GeneratedAsset, format: RasterFormat) => {
+    try {
+      const exported = await exportAsset(asset, format);
+      downloadBlob(exported.blob, exported.filename);
     } catch (err: any) {
       console.error(err);
-      if (err.message?.includes('Requested entity was not found')) {
-        setError('API Authentication Error. Re-selecting your API key might help.');
-        try {
-          await (window as any).aistudio.openSelectKey();
-        } catch {}
-      } else if (err.message?.includes('429') || err?.status === 'RESOURCE_EXHAUSTED') {
-        setError('Rate limit exceeded. The API is temporarily blocking requests. Please wait 1-2 minutes before trying again.');
+      setError(err.message || 'Download failed.');
+    }
+  };
+
+  const handleExport = async (scope: 'selected' | 'all', format: RasterFormat) => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const exportTargets = async (targets: GeneratedAsset[]) => {
+        if (targets.length === 0) return;
+        const zip = await exportCollection(targets, format);
+        downloadBlob(zip, `forge-collection-${new Date().toISOString().slice(0, 10)}-${targets.length}.zip`);
+      };
+      if (scope === 'selected') {
+        await exportTargets(assets.filter((asset) => selectedIds.has(asset.id)));
       } else {
-        setError(err.message || 'Failed to forge elements. Please try again.');
+        const now = Date.now();
+        await withLibraryAssets((asset) => matchesQuery(asset, libraryQuery, now), exportTargets);
       }
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Export failed.');
     } finally {
-      setIsGenerating(false);
-      setProgress(0);
+      setIsExporting(false);
+    }
+  };
+
+  const handleStickerSheet = () => {
+    const stickers = assets.filter((asset) => selectedIds.has(asset.id) && !isMotionAsset(asset));
+    if (stickers.length === 0) {
+      setError('Select at least one still image to lay out as stickers.');
+      return;
+    }
+    setStickerAssets(stickers);
+  };
+
+  const downloadSpriteSheet = async (sprites: GeneratedAsset[], name: string) => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      downloadBlob(await exportSpriteSheet(sprites), `${name}.zip`);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Sprite sheet export failed.');
+    } finally {
+      setIsExporting(false);
     }
   };
 
-  const convertAndDownload = async (asset: GeneratedAsset, format: 'png' | 'jpeg' | 'webp') => {
-    if (asset.isVideo) {
-      const link = document.createElement('a');
-      link.href = asset.url;
-      link.download = `forge-${asset.id}.mp4`;
-      link.click();
+  const handleSpriteSheet = () => {
+    const sprites = assets.filter((asset) => selectedIds.has(asset.id) && !isMotionAsset(asset));
+    if (sprites.length === 0) {
+      setError('Select at least one still image to pack into a sprite sheet.');
       return;
     }
+    downloadSpriteSheet(sprites, `forge-sprites-${new Date().toISOString().slice(0, 10)}-${sprites.length}`);
+  };
 
-    const img = new Image();
-    img.crossOrigin = 'anonymous';
-    img.src = asset.url;
-    
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-
-      if (format === 'jpeg') {
-        ctx.fillStyle = '#FFFFFF';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-      }
-      
-      ctx.drawImage(img, 0, 0);
-      const dataUrl = canvas.toDataURL(`image/${format}`, 0.9);
-      
-      const link = document.createElement('a');
-      link.href = dataUrl;
-      link.download = `forge-${asset.type.toLowerCase().replace(/\s+/g, '-')}-${asset.id}.${format}`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-    };
+  // Exports every asset of the set `asset` belongs to, in generation order.
+  const handleExportSet = async (asset: GeneratedAsset) => {
+    try {
+      await withLibraryAssets(
+        (member) => member.setId === asset.setId,
+        (members) => downloadSpriteSheet(
+          members.sort((a, b) => (a.setIndex ?? 0) - (b.setIndex ?? 0)),
+          `forge-set-${asset.setId!.slice(0, 8)}`
+        )
+      );
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Could not load the icon set.');
+    }
   };
 
   return (
-    <div className="min-h-screen canvas-grid py-12 px-4 md:px-8">
+    <div
+      className="min-h-screen canvas-grid py-12 px-4 md:px-8"
+      onDragOver={handleFileDragOver}
+      onDragLeave={(e) => !e.relatedTarget && setIsDraggingFiles(false)}
+      onDrop={handleFileDrop}
+    >
+      {isDraggingFiles && (
+        <div className="fixed inset-0 z-[70] pointer-events-none flex items-center justify-center bg-indigo-600/10 border-4 border-dashed border-indigo-400">
+          <p className="px-6 py-3 bg-white rounded-2xl shadow-xl text-sm font-black uppercase tracking-widest text-indigo-700">
+            Drop exported files to restore them
+          </p>
+        </div>
+      )}
       <div className="max-w-7xl mx-auto">
         <header className="mb-12 text-center">
           <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-indigo-100 text-indigo-700 text-xs font-bold mb-4 uppercase tracking-widest">
@@ -146,12 +524,31 @@ const App: React.FC = () => {
           </p>
         </header>
 
-        <GeneratorForm onGenerate={handleGenerate} isGenerating={isGenerating} />
+        <GeneratorForm onGenerate={handleGenerate} isGenerating={isGenerating} batchSize={BATCH_SIZE} />
+
+        {review && (
+          <VariationReview
+            key={review.key}
+            prompt={review.prompt}
+            type={review.type}
+            hasReference={!!review.reference}
+            set={review.set}
+            brandKit={review.brandKit}
+            defaultCount={BATCH_SIZE}
+            maxCount={MAX_BATCH_SIZE}
+            onApprove={handleApproveVariations}
+            onCancel={() => setReview(null)}
+          />
+        )}
 
         {isGenerating && (
           <div className="mb-8 max-w-2xl mx-auto">
             <div className="flex justify-between text-sm font-bold text-slate-600 mb-2">
-              <span>Creating your collection... (Batch mode)</span>
+              <span>
+                {activeJob?.status === 'expanding' || !activeJob?.items.length
+                  ? 'Writing prompt variations...'
+                  : `Creating your collection... (${activeJob.counts.done}/${activeJob.counts.total})`}
+              </span>
               <span>{progress}%</span>
             </div>
             <div className="w-full bg-slate-200 rounded-full h-3 overflow-hidden">
@@ -160,7 +557,38 @@ const App: React.FC = () => {
                 style={{ width: `${progress}%` }}
               />
             </div>
-            <p className="text-center text-xs text-slate-400 mt-2 font-medium">Generating 20 unique elements with rate-limit protection. Please stay on this page.</p>
+            <p className="text-center text-xs text-slate-400 mt-2 font-medium">Generating on the server with rate-limit protection. You can close this tab; progress resumes when you come back.</p>
+          </div>
+        )}
+
+        {!isGenerating && activeJob && activeJob.counts.failed > 0 && (
+          <div className="mb-8 max-w-2xl mx-auto p-4 bg-amber-50 border border-amber-200 rounded-xl flex items-center justify-between gap-4">
+            <p className="text-sm font-semibold text-amber-700">
+              {activeJob.counts.failed} of {activeJob.counts.total} elements failed to generate.
+            </p>
+            <button
+              onClick={handleRetryFailed}
+              className="px-4 py-2 bg-white border-2 border-amber-300 rounded-xl text-xs font-black uppercase tracking-widest text-amber-700 hover:bg-amber-100 transition-all active:scale-95"
+            >
+              Retry failed
+            </button>
+          </div>
+        )}
+
+        {!isGenerating && activeJob && activeJob.counts.blocked > 0 && (
+          <div className="mb-8 max-w-2xl mx-auto p-4 bg-slate-50 border border-slate-200 rounded-xl space-y-2">
+            <p className="text-sm font-semibold text-slate-700">
+              {activeJob.counts.blocked} of {activeJob.counts.total} elements were blocked by moderation.
+            </p>
+            <ul className="space-y-1">
+              {activeJob.items
+                .filter((item) => item.status === 'blocked')
+                .map((item) => (
+                  <li key={item.index} className="text-xs text-slate-500">
+                    <span className="font-bold text-slate-600">"{item.prompt}"</span> · {item.error}
+                  </li>
+                ))}
+            </ul>
           </div>
         )}
 
@@ -169,16 +597,62 @@ const App: React.FC = () => {
             <svg className="w-5 h-5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
-            {error}
+            <span className="flex-1">{error}</span>
+            {errorAction?.message === error && (
+              <button
+                onClick={() => {
+                  setError(null);
+                  errorAction.run();
+                }}
+                className="px-4 py-2 bg-white border-2 border-red-200 rounded-xl text-xs font-black uppercase tracking-widest text-red-600 hover:bg-red-100 transition-all active:scale-95 flex-shrink-0"
+              >
+                {errorAction.label}
+              </button>
+            )}
           </div>
         )}
 
-        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4 md:gap-6">
-          {assets.map((asset) => (
-            <AssetCard key={asset.id} asset={asset} onPreview={setPreviewAsset} />
-          ))}
-          
-          {assets.length === 0 && !isGenerating && (
+        <LibraryToolbar
+          query={libraryQuery}
+          onQueryChange={setLibraryQuery}
+          selecting={selecting}
+          selectedCount={selectedIds.size}
+          onToggleSelecting={() => {
+            setSelecting((prev) => !prev);
+            setSelectedIds(new Set());
+          }}
+          onSelectAll={() => setSelectedIds(new Set(assets.map((asset) => asset.id)))}
+          onDeleteSelected={() => handleDelete([...selectedIds])}
+          onExport={handleExport}
+          onStickerSheet={handleStickerSheet}
+          onSpriteSheet={handleSpriteSheet}
+          onOpenBoard={() => setBoardOpen(true)}
+          isExporting={isExporting}
+          totalCount={assets.length}
+        />
+
+        <AssetGallery
+          assets={assets}
+          onPreview={setPreviewAsset}
+          onToggleFavorite={handleToggleFavorite}
+          selecting={selecting}
+          selectedIds={selectedIds}
+          onToggleSelect={handleToggleSelect}
+        >
+          {assets.length === 0 && !isGenerating && !isLoadingLibrary && isFiltered(libraryQuery) && (
+            <div className="col-span-full text-center py-24 bg-white/40 border-2 border-dashed border-slate-200 rounded-[2rem]">
+              <h3 className="text-2xl font-bold text-slate-800 mb-2">No matching elements</h3>
+              <p className="text-slate-500 font-medium">Try a different search or clear the filters.</p>
+              <button
+                onClick={() => setLibraryQuery(DEFAULT_QUERY)}
+                className="mt-6 px-6 py-3 bg-white border-2 border-slate-100 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-600 hover:border-slate-200"
+              >
+                Clear filters
+              </button>
+            </div>
+          )}
+
+          {assets.length === 0 && !isGenerating && !isLoadingLibrary && !isFiltered(libraryQuery) && (
             <div className="col-span-full text-center py-24 bg-white/40 border-2 border-dashed border-slate-200 rounded-[2rem]">
               <div className="w-24 h-24 bg-slate-100 rounded-full flex items-center justify-center mx-auto mb-6 text-slate-300">
                 <svg className="w-12 h-12" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -186,10 +660,15 @@ const App: React.FC = () => {
                 </svg>
               </div>
               <h3 className="text-2xl font-bold text-slate-800 mb-2">Ready to start?</h3>
-              <p className="text-slate-500 font-medium">Describe your dream element and we'll craft 20 variations.</p>
+              <p className="text-slate-500 font-medium">Describe your dream element, review the variations we write, then forge them.</p>
             </div>
           )}
-        </div>
+        </AssetGallery>
+
+        <div ref={sentinelRef} className="h-px" />
+        {isLoadingLibrary && (
+          <p className="text-center text-xs text-slate-400 mt-6 font-bold uppercase tracking-widest">Loading library...</p>
+        )}
       </div>
 
       {previewAsset && (
@@ -198,17 +677,23 @@ const App: React.FC = () => {
           onClick={() => setPreviewAsset(null)}
         >
           <div 
-            className="bg-white rounded-[2.5rem] overflow-hidden shadow-2xl max-w-4xl w-full flex flex-col md:flex-row"
+            ref={previewRef}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="preview-title"
+            tabIndex={-1}
+            className="bg-white rounded-[2.5rem] overflow-hidden shadow-2xl max-w-4xl w-full flex flex-col md:flex-row outline-none"
             onClick={(e) => e.stopPropagation()}
           >
-            <div className="md:w-3/5 aspect-square bg-slate-100 flex items-center justify-center relative p-4">
+            <div className={`md:w-3/5 aspect-square flex items-center justify-center relative p-4 ${previewAsset.hasAlpha ? 'alpha-grid' : 'bg-slate-100'}`}>
               {previewAsset.isVideo ? (
                 <video src={previewAsset.url} className="w-full h-full object-contain rounded-2xl" autoPlay loop muted playsInline />
               ) : (
-                <img src={previewAsset.url} alt={previewAsset.prompt} className="w-full h-full object-contain drop-shadow-2xl" />
+                <img src={previewAsset.url} alt={altTextOf(previewAsset)} className="w-full h-full object-contain drop-shadow-2xl" />
               )}
               <button 
                 onClick={() => setPreviewAsset(null)}
+                aria-label="Close preview"
                 className="absolute top-4 left-4 bg-white/20 hover:bg-white/40 backdrop-blur-md p-2 rounded-full transition-all md:hidden"
               >
                 <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -217,36 +702,100 @@ const App: React.FC = () => {
               </button>
             </div>
             
-            <div className="md:w-2/5 p-8 flex flex-col justify-between">
+            <div className="md:w-2/5 p-8 flex flex-col justify-between md:max-h-[90vh] md:overflow-y-auto">
               <div>
                 <div className="flex items-center gap-3 mb-4">
                   <span className="bg-indigo-600 text-white px-3 py-1 rounded-lg text-xs font-black uppercase tracking-widest">
                     {previewAsset.type}
                   </span>
                 </div>
-                <h2 className="text-2xl font-extrabold text-slate-900 mb-4 leading-tight">
+                <h2 id="preview-title" className="text-2xl font-extrabold text-slate-900 mb-4 leading-tight">
                   {previewAsset.prompt}
                 </h2>
+                {previewAsset.parentId && (
+                  <p className="text-xs font-bold text-slate-400 mb-4">
+                    Based on{' '}
+                    {assets.some((asset) => asset.id === previewAsset.parentId) ? (
+                      <button
+                        onClick={() => setPreviewAsset(assets.find((asset) => asset.id === previewAsset.parentId)!)}
+                        className="text-indigo-600 hover:underline"
+                      >
+                        a previous asset
+                      </button>
+                    ) : (
+                      <span className="font-mono">{previewAsset.parentId}</span>
+                    )}
+                  </p>
+                )}
+                <div className="mb-6 flex items-center gap-2">
+                  <button
+                    onClick={() => handleRegenerate(previewAsset)}
+                    disabled={isGenerating}
+                    title="Generate a new batch from this prompt"
+                    className={`${previewAsset.isVideo ? 'flex-1 ' : ''}py-3 px-4 bg-slate-100 text-slate-700 rounded-2xl font-bold hover:bg-indigo-50 hover:text-indigo-700 transition-all active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed`}
+                  >
+                    Regenerate
+                  </button>
+                  {!previewAsset.isVideo && (
+                    <>
+                      <button
+                        onClick={() => handleMoreLikeThis(previewAsset)}
+                        disabled={isGenerating}
+                        className="flex-1 py-3 bg-slate-900 text-white rounded-2xl font-bold hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        More like this
+                      </button>
+                      <select
+                        value={similarity}
+                        onChange={(e) => setSimilarity(Number(e.target.value))}
+                        title="How closely the new batch follows this asset"
+                        className="py-3 px-3 bg-slate-100 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-600 outline-none"
+                      >
+                        {SIMILARITY_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </>
+                  )}
+                </div>
+                <div className="mb-6">
+                  <DescriptionPanel key={previewAsset.id} asset={previewAsset} onDescribed={updateAsset} onError={setError} />
+                </div>
+                {!isMotionAsset(previewAsset) && (
+                  <div className="mb-6">
+                    <EditPanel key={previewAsset.id} asset={previewAsset} onEdited={updateAsset} onError={setError} />
+                  </div>
+                )}
+                {!isMotionAsset(previewAsset) && (
+                  <div className="mb-6">
+                    <PalettePanel key={previewAsset.id} asset={previewAsset} />
+                  </div>
+                )}
                 <div className="space-y-4">
                   <p className="text-sm font-bold text-slate-400 uppercase tracking-widest">Download As</p>
                   
-                  {previewAsset.isVideo ? (
-                    <button 
-                      onClick={() => convertAndDownload(previewAsset, 'png')}
-                      className="w-full py-4 bg-slate-900 text-white rounded-2xl font-bold flex items-center justify-center gap-3 hover:bg-indigo-700 transition-all active:scale-95"
-                    >
-                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 19l3 3m0 0l3-3m-3 3V10" />
-                      </svg>
-                      Download MP4
-                    </button>
+                  {isMotionAsset(previewAsset) ? (
+                    <div className="grid grid-cols-1 gap-3">
+                      {[{ url: previewAsset.url, mimeType: previewAsset.mimeType! }, ...(previewAsset.alternates || [])].map((file) => (
+                        <button 
+                          key={file.mimeType}
+                          onClick={() => downloadOriginal(previewAsset, file)}
+                          className="w-full py-4 bg-slate-900 text-white rounded-2xl font-bold flex items-center justify-center gap-3 hover:bg-indigo-700 transition-all active:scale-95"
+                        >
+                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 19l3 3m0 0l3-3m-3 3V10" />
+                          </svg>
+                          Download {MOTION_LABELS[file.mimeType] || file.mimeType}
+                        </button>
+                      ))}
+                    </div>
                   ) : (
                     <div className="grid grid-cols-1 gap-3">
                       <button 
                         onClick={() => convertAndDownload(previewAsset, 'png')}
                         className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-bold flex items-center justify-center gap-3 hover:bg-indigo-700 transition-all active:scale-95 shadow-lg shadow-indigo-200"
                       >
-                        <span className="flex-1 text-left px-4">Standard PNG</span>
+                        <span className="flex-1 text-left px-4">{previewAsset.hasAlpha ? 'Transparent PNG' : 'Standard PNG'}</span>
                         <span className="bg-white/20 px-2 py-1 rounded text-[10px]">Best Quality</span>
                       </button>
                       <button 
@@ -260,27 +809,90 @@ const App: React.FC = () => {
                         onClick={() => convertAndDownload(previewAsset, 'webp')}
                         className="w-full py-4 bg-slate-100 text-slate-700 rounded-2xl font-bold flex items-center justify-center gap-3 hover:bg-slate-200 transition-all active:scale-95"
                       >
-                        <span className="flex-1 text-left px-4">Modern WebP</span>
+                        <span className="flex-1 text-left px-4">{previewAsset.hasAlpha ? 'Transparent WebP' : 'Modern WebP'}</span>
                         <span className="bg-slate-200 px-2 py-1 rounded text-[10px]">Next-Gen</span>
                       </button>
+                      {canVectorize(previewAsset) && (
+                        <VectorExportPanel key={previewAsset.id} asset={previewAsset} onError={setError} />
+                      )}
+                      {previewAsset.type === AssetType.STICKER && (
+                        <button
+                          onClick={() => setStickerAssets([previewAsset])}
+                          className="w-full py-4 bg-slate-100 text-slate-700 rounded-2xl font-bold flex items-center justify-center gap-3 hover:bg-slate-200 transition-all active:scale-95"
+                        >
+                          <span className="flex-1 text-left px-4">Die-cut sticker</span>
+                          <span className="bg-slate-200 px-2 py-1 rounded text-[10px]">Print PDF/SVG</span>
+                        </button>
+                      )}
+                      {previewAsset.setId && (
+                        <button
+                          onClick={() => handleExportSet(previewAsset)}
+                          disabled={isExporting}
+                          className="w-full py-4 bg-slate-100 text-slate-700 rounded-2xl font-bold flex items-center justify-center gap-3 hover:bg-slate-200 transition-all active:scale-95 disabled:opacity-40"
+                        >
+                          <span className="flex-1 text-left px-4">{isExporting ? 'Packing...' : 'Whole icon set'}</span>
+                          <span className="bg-slate-200 px-2 py-1 rounded text-[10px]">Sprite sheet + atlas</span>
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setMockupAsset(previewAsset)}
+                        className="w-full py-4 bg-slate-100 text-slate-700 rounded-2xl font-bold flex items-center justify-center gap-3 hover:bg-slate-200 transition-all active:scale-95"
+                      >
+                        <span className="flex-1 text-left px-4">Place on mockup</span>
+                        <span className="bg-slate-200 px-2 py-1 rounded text-[10px]">Composite PNG</span>
+                      </button>
                     </div>
                   )}
                 </div>
               </div>
               
-              <button 
-                onClick={() => setPreviewAsset(null)}
-                className="mt-8 text-slate-400 font-bold hover:text-slate-600 transition-colors flex items-center gap-2"
-              >
-                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 19l-7-7m0 0l7-7m-7 7h18" />
-                </svg>
-                Back to Collection
-              </button>
+              <div className="mt-8 flex items-center justify-between gap-3">
+                <button 
+                  onClick={() => setPreviewAsset(null)}
+                  className="text-slate-400 font-bold hover:text-slate-600 transition-colors flex items-center gap-2"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                  </svg>
+                  Back to Collection
+                </button>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => handleToggleFavorite(previewAsset)}
+                    title={previewAsset.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                    className={`w-10 h-10 rounded-full flex items-center justify-center text-lg transition-all ${
+                      previewAsset.favorite ? 'bg-amber-400 text-white' : 'bg-slate-100 text-slate-400 hover:text-amber-400'
+                    }`}
+                  >
+                    ★
+                  </button>
+                  <button
+                    onClick={() => handleDelete([previewAsset.id])}
+                    title="Delete from library"
+                    className="w-10 h-10 rounded-full flex items-center justify-center bg-slate-100 text-slate-400 hover:bg-red-50 hover:text-red-500 transition-all"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
             </div>
           </div>
         </div>
       )}
+
+      {stickerAssets && (
+        <StickerExportDialog assets={stickerAssets} onClose={() => setStickerAssets(null)} />
+      )}
+      {mockupAsset && (
+        <MockupDialog
+          assets={assets.filter((asset) => !isMotionAsset(asset))}
+          initialAsset={mockupAsset}
+          onClose={() => setMockupAsset(null)}
+        />
+      )}
+      {boardOpen && <BoardEditor assets={assets} onClose={() => setBoardOpen(false)} />}
     </div>
   );
 };
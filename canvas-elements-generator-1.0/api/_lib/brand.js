@@ -0,0 +1,113 @@
+import sharp from "sharp";
+import { sanitizeText } from "./moderation.js";
+
+// Brand kits are stored in the browser and sent with each request. The palette
+// is both described in the prompt and enforced afterwards by recolorToPalette.
+
+export const RECOLOR_MODES = ["off", "remap", "quantize"];
+
+const MAX_PALETTE = 12;
+const MAX_TERMS = 20;
+const MAX_TERM_LENGTH = 60;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+function isTermList(value) {
+  return (
+    value === undefined ||
+    (Array.isArray(value) &&
+      value.length <= MAX_TERMS &&
+      value.every((term) => typeof term === "string" && term.length <= MAX_TERM_LENGTH))
+  );
+}
+
+export function validateBrandKit(kit) {
+  if (kit === undefined || kit === null) return null;
+  if (typeof kit !== "object" || Array.isArray(kit)) return "Brand kit must be an object";
+  if (kit.name !== undefined && (typeof kit.name !== "string" || kit.name.length > MAX_TERM_LENGTH)) {
+    return "Brand kit name is invalid";
+  }
+  if (!Array.isArray(kit.palette) || kit.palette.length === 0 || kit.palette.length > MAX_PALETTE) {
+    return `Brand palette must have between 1 and ${MAX_PALETTE} colors`;
+  }
+  if (!kit.palette.every((color) => typeof color === "string" && HEX_COLOR.test(color))) {
+    return "Brand palette colors must be hex values like #1e293b";
+  }
+  if (!isTermList(kit.keywords) || !isTermList(kit.forbidden)) {
+    return `Brand keywords and forbidden elements are limited to ${MAX_TERMS} short phrases each`;
+  }
+  if (kit.recolor !== undefined && !RECOLOR_MODES.includes(kit.recolor)) {
+    return `Recolor must be one of ${RECOLOR_MODES.join(", ")}`;
+  }
+  return null;
+}
+
+// Call only after validateBrandKit accepted the kit.
+export function normalizeBrandKit(kit) {
+  if (!kit) return null;
+  const terms = (list) => (list || []).map(sanitizeText).filter(Boolean);
+  return {
+    id: typeof kit.id === "string" ? kit.id : null,
+    name: sanitizeText(kit.name || "") || "Brand",
+    palette: kit.palette.map((color) => color.toLowerCase()),
+    keywords: terms(kit.keywords),
+    forbidden: terms(kit.forbidden),
+    recolor: kit.recolor || "off",
+  };
+}
+
+function parseHex(hex) {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function nearest(data, offset, palette) {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let p = 0; p < palette.length; p++) {
+    const dr = data[offset] - palette[p][0];
+    const dg = data[offset + 1] - palette[p][1];
+    const db = data[offset + 2] - palette[p][2];
+    const d = dr * dr + dg * dg + db * db;
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = p;
+    }
+  }
+  return best;
+}
+
+// "quantize" replaces every pixel with its nearest brand color. "remap" moves
+// each group of pixels so its average lands on the nearest brand color while
+// keeping the shading inside the group. Transparent pixels are left alone.
+export async function recolorToPalette(imageBase64, { palette, mode }) {
+  const { data, info } = await sharp(Buffer.from(imageBase64, "base64"))
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const colors = palette.map(parseHex);
+  const total = info.width * info.height;
+  const labels = new Int16Array(total).fill(-1);
+  const sums = colors.map(() => [0, 0, 0, 0]);
+
+  for (let i = 0; i < total; i++) {
+    const offset = i * 4;
+    if (data[offset + 3] === 0) continue;
+    const label = nearest(data, offset, colors);
+    labels[i] = label;
+    for (let c = 0; c < 3; c++) sums[label][c] += data[offset + c];
+    sums[label][3]++;
+  }
+
+  const shifts = sums.map((sum, p) => (sum[3] ? [0, 1, 2].map((c) => colors[p][c] - sum[c] / sum[3]) : [0, 0, 0]));
+  for (let i = 0; i < total; i++) {
+    const label = labels[i];
+    if (label < 0) continue;
+    const offset = i * 4;
+    for (let c = 0; c < 3; c++) {
+      data[offset + c] = mode === "quantize" ? colors[label][c] : Math.round(Math.min(255, Math.max(0, data[offset + c] + shifts[label][c])));
+    }
+  }
+
+  const buffer = await sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } }).png().toBuffer();
+  return { mimeType: "image/png", data: buffer.toString("base64") };
+}
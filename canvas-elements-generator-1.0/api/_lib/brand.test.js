@@ -0,0 +1,65 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import { normalizeBrandKit, recolorToPalette, validateBrandKit } from "./brand.js";
+
+// One pixel per entry of `pixels` ([r, g, b, a]), in a single row.
+async function row(pixels) {
+  const buffer = await sharp(Buffer.from(pixels.flat()), { raw: { width: pixels.length, height: 1, channels: 4 } }).png().toBuffer();
+  return buffer.toString("base64");
+}
+
+async function pixelsOf(image) {
+  const data = await sharp(Buffer.from(image.data, "base64")).raw().toBuffer();
+  return Array.from({ length: data.length / 4 }, (_, i) => Array.from(data.subarray(i * 4, i * 4 + 4)));
+}
+
+describe("validateBrandKit", () => {
+  it("accepts no kit and a well-formed kit", () => {
+    expect(validateBrandKit(null)).toBeNull();
+    expect(validateBrandKit({ name: "Acme", palette: ["#1E293B", "#f59e0b"], keywords: ["flat"], recolor: "remap" })).toBeNull();
+  });
+
+  it("rejects bad palettes, term lists and recolor modes", () => {
+    expect(validateBrandKit("acme")).toBe("Brand kit must be an object");
+    expect(validateBrandKit({ palette: [] })).toBe("Brand palette must have between 1 and 12 colors");
+    expect(validateBrandKit({ palette: Array(13).fill("#000000") })).toMatch(/between 1 and 12/);
+    expect(validateBrandKit({ palette: ["#fff"] })).toBe("Brand palette colors must be hex values like #1e293b");
+    expect(validateBrandKit({ palette: ["#000000"], forbidden: ["x".repeat(61)] })).toMatch(/limited to 20 short phrases/);
+    expect(validateBrandKit({ palette: ["#000000"], keywords: Array(21).fill("flat") })).toMatch(/limited to 20 short phrases/);
+    expect(validateBrandKit({ palette: ["#000000"], recolor: "invert" })).toBe("Recolor must be one of off, remap, quantize");
+  });
+});
+
+describe("normalizeBrandKit", () => {
+  it("lowercases colors, cleans terms and fills in defaults", () => {
+    expect(normalizeBrandKit({ palette: ["#1E293B"], keywords: [" flat  shading ", "<b>"], forbidden: ["\u200b"] })).toEqual({
+      id: null,
+      name: "Brand",
+      palette: ["#1e293b"],
+      keywords: ["flat shading", "b"],
+      forbidden: [],
+      recolor: "off",
+    });
+  });
+});
+
+describe("recolorToPalette", () => {
+  it("quantize snaps every visible pixel to its nearest brand color", async () => {
+    const image = await recolorToPalette(await row([[250, 10, 10, 255], [20, 20, 240, 255], [250, 10, 10, 0]]), {
+      palette: ["#ff0000", "#0000ff"],
+      mode: "quantize",
+    });
+    const [red, blue, hidden] = await pixelsOf(image);
+    expect(red).toEqual([255, 0, 0, 255]);
+    expect(blue).toEqual([0, 0, 255, 255]);
+    expect(hidden[3]).toBe(0);
+  });
+
+  it("remap moves each group onto its brand color and keeps the shading", async () => {
+    const image = await recolorToPalette(await row([[200, 0, 0, 255], [220, 0, 0, 255]]), { palette: ["#f00000"], mode: "remap" });
+    expect(await pixelsOf(image)).toEqual([
+      [230, 0, 0, 255],
+      [250, 0, 0, 255],
+    ]);
+  });
+});
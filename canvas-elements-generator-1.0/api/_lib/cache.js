@@ -0,0 +1,144 @@
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { sanitizeText } from "./moderation.js";
+import { getStorage, keyFromUrl } from "./storage.js";
+
+// Generation cache: a request fingerprint (provider, model, normalized prompt,
+// type and options) maps to a stored result, so repeating a request is
+// answered from storage instead of calling the model again.
+//
+// GENERATION_CACHE=off turns it off; clients opt out per request with
+// `Cache-Control: no-cache` or `cache: false` in the body. Entries expire
+// after CACHE_TTL_MS and the least recently used go beyond CACHE_MAX_ENTRIES.
+// Evicting an entry also deletes its files once no remaining entry points at
+// them. Storage is content-addressed and shared with jobs and edits, so files
+// stored again within FILE_GRACE_MS are kept for whoever stored them.
+
+const TTL_MS = Number(process.env.CACHE_TTL_MS ?? 7 * 24 * 60 * 60 * 1000);
+const MAX_ENTRIES = Math.max(1, Number(process.env.CACHE_MAX_ENTRIES) || 500);
+// Long enough for a job or edit that produced the same bytes to hand them to
+// its client.
+const FILE_GRACE_MS = 60 * 60 * 1000;
+
+export const isCacheEnabled = () => process.env.GENERATION_CACHE !== "off";
+
+export function cacheRequested(req) {
+  return isCacheEnabled() && !/no-cache|no-store/i.test(req.headers?.["cache-control"] || "") && req.body?.cache !== false;
+}
+
+// Case, spacing and a trailing full stop do not change what gets drawn.
+export const normalizePrompt = (prompt) => sanitizeText(prompt).toLowerCase().replace(/[.\s]+$/, "");
+
+const digest = (value) => crypto.createHash("sha256").update(value).digest("hex");
+
+// `options` must only hold what changes the output, already normalized.
+export function cacheKey({ provider, model, prompt, type, options }) {
+  return digest(JSON.stringify({ provider, model, prompt: normalizePrompt(prompt), type, options }));
+}
+
+export const referenceDigest = (reference) => digest(reference.data);
+
+// The index lives in memory and, for the file backend, is written through to
+// one JSON file next to the stored files.
+function createIndex() {
+  if (process.env.CACHE_STORE === "memory") {
+    const entries = new Map();
+    return { load: async () => entries, save: async () => {} };
+  }
+
+  const file = path.join(process.env.STORAGE_DIR || path.join(os.tmpdir(), "canvas-elements-files"), "cache-index.json");
+  let entries = null;
+  let writing = Promise.resolve();
+  return {
+    async load() {
+      if (!entries) {
+        try {
+          entries = new Map(Object.entries(JSON.parse(await fs.readFile(file, "utf8"))));
+        } catch (err) {
+          if (err.code !== "ENOENT") console.error("Generation cache index unreadable, starting empty", err);
+          entries = new Map();
+        }
+      }
+      return entries;
+    },
+    save() {
+      const snapshot = JSON.stringify(Object.fromEntries(entries));
+      writing = writing.then(async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        const temp = `${file}.${process.pid}.tmp`;
+        await fs.writeFile(temp, snapshot);
+        await fs.rename(temp, file);
+      }).catch((err) => console.error("Could not save the generation cache index", err));
+      return writing;
+    },
+  };
+}
+
+let index = null;
+const getIndex = () => (index ||= createIndex());
+
+const resultKeys = (result) => [result.image, ...(result.alternates || []).map((alt) => alt.url)].map(keyFromUrl);
+
+// Removes expired and least recently used entries and returns them.
+function evict(entries, now) {
+  const expired = [...entries].filter(([, entry]) => now - entry.createdAt > TTL_MS).map(([key]) => key);
+  const live = [...entries].filter(([key]) => !expired.includes(key)).sort(([, a], [, b]) => b.lastUsedAt - a.lastUsedAt);
+  return [...expired, ...live.slice(MAX_ENTRIES).map(([key]) => key)].map((key) => {
+    const entry = entries.get(key);
+    entries.delete(key);
+    return entry;
+  });
+}
+
+// Deletes the files of removed entries that no remaining entry shares. Entries
+// answered from within the grace period may still be on their way to a client.
+async function reclaim(entries, removed) {
+  const storedBefore = Date.now() - FILE_GRACE_MS;
+  const inUse = new Set([...entries.values()].flatMap((entry) => resultKeys(entry.result)));
+  const orphaned = new Set(
+    removed
+      .filter((entry) => entry.lastUsedAt < storedBefore)
+      .flatMap((entry) => resultKeys(entry.result))
+      .filter((key) => key && !inUse.has(key))
+  );
+  const storage = getStorage();
+  await Promise.all(
+    [...orphaned].map((key) =>
+      storage.delete(key, { storedBefore }).catch((err) => console.error(`Could not delete cached file ${key}`, err))
+    )
+  );
+}
+
+// Returns the cached result, or null on a miss. Entries whose files are gone
+// (for example a cleared temp dir) count as misses and are dropped.
+export async function readCache(key) {
+  const { load, save } = getIndex();
+  const entries = await load();
+  const entry = entries.get(key);
+  if (!entry) return null;
+
+  const storage = getStorage();
+  const present = await Promise.all(resultKeys(entry.result).map((file) => file && storage.has(file)));
+  if (Date.now() - entry.createdAt > TTL_MS || !present.every(Boolean)) {
+    entries.delete(key);
+    await save();
+    await reclaim(entries, [entry]);
+    return null;
+  }
+  entry.lastUsedAt = Date.now();
+  entry.hits++;
+  await save();
+  return entry.result;
+}
+
+export async function writeCache(key, result) {
+  const { load, save } = getIndex();
+  const entries = await load();
+  const now = Date.now();
+  entries.set(key, { result, createdAt: now, lastUsedAt: now, hits: 0 });
+  const removed = evict(entries, now);
+  await save();
+  await reclaim(entries, removed);
+}
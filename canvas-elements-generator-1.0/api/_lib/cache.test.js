@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+  Object.assign(process.env, { CACHE_STORE: "memory", STORAGE_BACKEND: "memory", CACHE_MAX_ENTRIES: "2" });
+});
+
+const { cacheKey, cacheRequested, normalizePrompt, readCache, writeCache } = await import("./cache.js");
+const { getStorage, keyFromUrl, storeBase64 } = await import("./storage.js");
+
+const png = (text) => Buffer.from(text).toString("base64");
+
+describe("cacheKey", () => {
+  it("ignores case, spacing and a trailing full stop", () => {
+    expect(normalizePrompt("  A Cute   Cat. ")).toBe("a cute cat");
+    const key = (prompt) => cacheKey({ provider: "mock", model: "m", prompt, type: "Sticker", options: {} });
+    expect(key("A cute cat.")).toBe(key("a cute cat"));
+    expect(key("a cute dog")).not.toBe(key("a cute cat"));
+  });
+
+  it("lets clients opt out per request", () => {
+    expect(cacheRequested({ headers: {}, body: {} })).toBe(true);
+    expect(cacheRequested({ headers: { "cache-control": "no-cache" }, body: {} })).toBe(false);
+    expect(cacheRequested({ headers: {}, body: { cache: false } })).toBe(false);
+  });
+});
+
+describe("generation cache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("answers repeats and drops entries whose files are gone", async () => {
+    const stored = await storeBase64(png("hit"), "image/png");
+    await writeCache("hit", { image: stored.url, alternates: [] });
+    expect(await readCache("hit")).toEqual({ image: stored.url, alternates: [] });
+
+    await writeCache("missing", { image: "/api/files?key=" + "0".repeat(64) + ".png", alternates: [] });
+    expect(await readCache("missing")).toBeNull();
+  });
+
+  it("keeps stored files when evicting entries that used them", async () => {
+    // The same bytes back a job result and a cache entry.
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const shared = await storeBase64(png("shared"), "image/png");
+    await writeCache("first", { image: shared.url, alternates: [] });
+    for (const key of ["second", "third"]) {
+      vi.advanceTimersByTime(1000);
+      await writeCache(key, { image: (await storeBase64(png(key), "image/png")).url, alternates: [] });
+    }
+
+    expect(await readCache("first")).toBeNull();
+    expect(await getStorage().has(keyFromUrl(shared.url))).toBe(true);
+  });
+
+  it("deletes the files of evicted entries once nothing else needs them", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    // Newer than the entries the earlier tests left behind.
+    vi.advanceTimersByTime(60 * 1000);
+    const stored = {};
+    for (const key of ["old", "kept", "twin"]) stored[key] = await storeBase64(png(`reclaim-${key}`), "image/png");
+    await writeCache("old", { image: stored.old.url, alternates: [] });
+    vi.advanceTimersByTime(1000);
+    await writeCache("kept", { image: stored.kept.url, alternates: [] });
+
+    // Past the grace period, "old" is evicted with its file; "twin" shares
+    // the file of "kept", which stays.
+    vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+    await writeCache("twin", { image: stored.kept.url, alternates: [] });
+    expect(await getStorage().has(keyFromUrl(stored.old.url))).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    await writeCache("newest", { image: stored.twin.url, alternates: [] });
+    expect(await readCache("kept")).toBeNull();
+    expect(await getStorage().has(keyFromUrl(stored.kept.url))).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import { moderateText, sanitizeText, validatePromptLength } from "./moderation.js";
+import { isAssetType } from "./presets.js";
+import { getProvider } from "./providers/index.js";
+import { splitDataUrl } from "./references.js";
+
+// Alt text and search tags for generated assets. The provider's text model
+// describes the rendered image; when there is none (the mock provider, a
+// missing key, a failed or unusable answer) both are derived from the prompt.
+
+export const MAX_ALT_TEXT_LENGTH = 150;
+export const MAX_TAGS = 8;
+const MAX_TAG_LENGTH = 24;
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+// What the text model accepts inline; animations are described from their still.
+const DESCRIBABLE_TYPES = ["image/png", "image/jpeg", "image/webp"];
+
+const TYPE_NOUNS = {
+  Sticker: "Sticker",
+  "PNG Element": "Illustration",
+  Graphic: "Graphic",
+  "3D Shape": "3D render",
+  Mockup: "Mockup",
+  Photo: "Photo",
+  Stamp: "Stamp",
+  "GIF (Motion)": "Animation",
+};
+
+const STOP_WORDS = new Set([
+  "and", "the", "with", "for", "from", "into", "onto", "over", "under", "that", "this", "its", "their",
+  "very", "some", "style", "looking", "made", "featuring", "showing", "take",
+]);
+
+// Prompt boilerplate that says nothing about what is in the picture.
+const FILLER = /\b(high[- ]quality|best quality|highly detailed|ultra[- ]detailed|masterpiece|trending on artstation|[48]k|hd)\b/gi;
+
+function truncate(text, max) {
+  if (text.length <= max) return text;
+  const cut = text.slice(0, max - 1);
+  const space = cut.lastIndexOf(" ");
+  return `${(space > max / 2 ? cut.slice(0, space) : cut).replace(/[\s,;:.-]+$/, "")}…`;
+}
+
+function subjectOf(prompt) {
+  return sanitizeText(prompt)
+    .replace(FILLER, "")
+    .replace(/\s*,(\s*,)+/g, ",")
+    .replace(/\s{2,}/g, " ")
+    .replace(/^[\s,]+|[\s,.]+$/g, "");
+}
+
+export function normalizeTags(tags) {
+  const unique = new Set();
+  for (const tag of tags) {
+    const clean = String(tag)
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s-]/gu, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+    if (clean && clean.length <= MAX_TAG_LENGTH) unique.add(clean);
+  }
+  return [...unique].slice(0, MAX_TAGS);
+}
+
+// "A cute cat, in soft pastel colors" as a Sticker becomes "Sticker showing a
+// cute cat, in soft pastel colors" tagged sticker, cute, cat, soft, pastel, colors.
+export function heuristicDescription(prompt, type) {
+  const subject = subjectOf(prompt).replace(/^(A|An|The)\b/, (article) => article.toLowerCase());
+  const noun = TYPE_NOUNS[type] || "Image";
+  const words = subject
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}-]+/u)
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+  return {
+    altText: truncate(subject ? `${noun} showing ${subject}` : noun, MAX_ALT_TEXT_LENGTH),
+    tags: normalizeTags([noun, ...words]),
+  };
+}
+
+export function validateDescribeInput({ prompt, type, image }) {
+  if (!prompt || !type) return "Missing prompt or type";
+  if (!isAssetType(type)) return `Unknown asset type: ${type}`;
+  const tooLong = validatePromptLength(prompt);
+  if (tooLong) return tooLong;
+  if (image === undefined) return null;
+
+  const { mimeType, data } = splitDataUrl(image || {});
+  if (typeof data !== "string" || !data) return "Image data is missing";
+  if (!DESCRIBABLE_TYPES.includes(mimeType)) return `Unsupported image type: ${mimeType}`;
+  if ((data.length * 3) / 4 > MAX_IMAGE_BYTES) return "Image is too large";
+  return null;
+}
+
+function describeInstruction(prompt, type) {
+  return [
+    `Describe this ${type} for people using a screen reader.`,
+    `altText: one plain sentence of at most ${MAX_ALT_TEXT_LENGTH} characters saying what is shown. Do not start with "Image of" or "Picture of".`,
+    `tags: up to ${MAX_TAGS} short lowercase search keywords covering the subject, style and main colors.`,
+    `The image was generated from this prompt, which may mention things it does not show: ${prompt}`,
+  ].join("\n");
+}
+
+// `image` is { mimeType, data } in base64. Never throws; failures fall back
+// to the heuristic. `fromModel` tells whether the provider answered, which is
+// what the caller should charge for.
+export async function describeAsset({ prompt, type, image }) {
+  const fallback = { ...heuristicDescription(prompt, type), fromModel: false };
+  if (!image || !DESCRIBABLE_TYPES.includes(image.mimeType)) return fallback;
+
+  try {
+    const provider = getProvider();
+    if (!provider.describeImage) return fallback;
+    const described = await provider.describeImage({ image, prompt, type, instruction: describeInstruction(prompt, type) });
+
+    const alt = moderateText(typeof described?.altText === "string" ? described.altText : "");
+    const tags = normalizeTags(Array.isArray(described?.tags) ? described.tags : []).filter((tag) => !moderateText(tag).blocked);
+    return {
+      altText: alt.text && !alt.blocked ? truncate(alt.text, MAX_ALT_TEXT_LENGTH) : fallback.altText,
+      tags: tags.length ? tags : fallback.tags,
+      fromModel: true,
+    };
+  } catch (err) {
+    console.error("Describing the asset failed, using the prompt instead", err);
+    return fallback;
+  }
+}
@@ -0,0 +1,103 @@
+import sharp from "sharp";
+import { codedError, GenerationError } from "./errors.js";
+import { removeKeyBackground } from "./matting.js";
+import { buildEditPrompt, getPreset, isAssetType } from "./presets.js";
+import { getProvider } from "./providers/index.js";
+import { splitDataUrl } from "./references.js";
+import { storeBase64 } from "./storage.js";
+
+export const MAX_INSTRUCTION_LENGTH = 500;
+
+const MAX_IMAGE_BYTES = 6 * 1024 * 1024;
+const MASK_FEATHER = 2;
+
+export function validateEditInput({ image, mask, instruction, type }) {
+  if (typeof instruction !== "string" || !instruction.trim()) return "Missing edit instruction";
+  if (instruction.length > MAX_INSTRUCTION_LENGTH) return `Instruction must be at most ${MAX_INSTRUCTION_LENGTH} characters`;
+  if (!type || !isAssetType(type)) return `Unknown asset type: ${type}`;
+  if (getPreset(type).output.motion) return "Motion assets cannot be edited";
+
+  for (const [name, value] of [["Image", image], ["Mask", mask]]) {
+    if (value === undefined && name === "Mask") continue;
+    const { data } = splitDataUrl(value || {});
+    if (typeof data !== "string" || !data) return `${name} data is missing`;
+    if ((data.length * 3) / 4 > MAX_IMAGE_BYTES) return `${name} is too large`;
+  }
+  return null;
+}
+
+async function readImage(input, label) {
+  try {
+    return await sharp(Buffer.from(splitDataUrl(input).data, "base64")).png().toBuffer();
+  } catch {
+    throw new GenerationError(`${label} could not be decoded`, 400);
+  }
+}
+
+// Models redraw the whole frame, so the edit is blended back through the
+// (slightly feathered) mask and everything outside it stays pixel-identical.
+async function applyMask(original, edited, maskPng) {
+  const { width, height } = original.info;
+  const [result, mask] = await Promise.all([
+    sharp(edited).resize(width, height, { fit: "fill" }).ensureAlpha().raw().toBuffer(),
+    sharp(maskPng)
+      .resize(width, height, { fit: "fill" })
+      .flatten({ background: "#000000" })
+      .greyscale()
+      .blur(MASK_FEATHER)
+      .raw()
+      .toBuffer(),
+  ]);
+
+  const out = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const m = mask[i] / 255;
+    for (let c = 0; c < 4; c++) {
+      out[i * 4 + c] = Math.round(original.data[i * 4 + c] * (1 - m) + result[i * 4 + c] * m);
+    }
+  }
+  return sharp(out, { raw: { width, height, channels: 4 } }).png().toBuffer();
+}
+
+export async function editAsset({ image, mask, instruction, type }) {
+  const preset = getPreset(type);
+  const provider = getProvider();
+  const keyColor = preset.output.transparent ? preset.output.keyColor : null;
+
+  const imagePng = await readImage(image, "Image");
+  const maskPng = mask ? await readImage(mask, "Mask") : null;
+
+  // Transparent types go back to the model on their key color, so the result
+  // can be matted the same way a fresh generation is.
+  const sourcePng = keyColor ? await sharp(imagePng).flatten({ background: keyColor }).png().toBuffer() : imagePng;
+
+  const edited = await provider.editImage({
+    prompt: buildEditPrompt(instruction.trim(), type, { masked: !!maskPng }),
+    image: { mimeType: "image/png", data: sourcePng.toString("base64") },
+    mask: maskPng ? { mimeType: "image/png", data: maskPng.toString("base64") } : null,
+  });
+
+  if (!edited?.data) {
+    throw codedError("NO_IMAGE", "The model answered without an image. Try rephrasing the instruction");
+  }
+
+  let output = Buffer.from(edited.data, "base64");
+  if (keyColor) {
+    const matted = await removeKeyBackground(edited.data, { keyColor });
+    output = Buffer.from(matted.data, "base64");
+  }
+  if (maskPng) {
+    const original = await sharp(imagePng).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    output = await applyMask(original, output, maskPng);
+  }
+
+  const png = (await sharp(output).png().toBuffer()).toString("base64");
+  const stored = await storeBase64(png, "image/png");
+  return {
+    image: stored.url,
+    mimeType: stored.mimeType,
+    hasAlpha: !!keyColor,
+    provider: provider.name,
+    model: provider.imageModel,
+  };
+}
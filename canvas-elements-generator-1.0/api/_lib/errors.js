@@ -0,0 +1,111 @@
+// Error contract shared by every route: `{ error, code, retryAfter?, rule? }`
+// with a matching HTTP status, plus a Retry-After header when retrying can help.
+// QUOTA_EXCEEDED is sent by quota.js with the same shape.
+
+export const ERROR_CODES = {
+  BAD_INPUT: 400,
+  SAFETY_BLOCKED: 422,
+  MODERATION_BLOCKED: 422,
+  RATE_LIMITED: 429,
+  GENERATION_FAILED: 500,
+  NO_IMAGE: 502,
+  UPSTREAM_ERROR: 502,
+  PROVIDER_NOT_CONFIGURED: 503,
+  UPSTREAM_TIMEOUT: 504,
+};
+
+// Failures worth another attempt after a pause.
+const TRANSIENT_CODES = ["RATE_LIMITED", "UPSTREAM_ERROR", "UPSTREAM_TIMEOUT"];
+
+const SAFETY_REASONS = ["SAFETY", "PROHIBITED_CONTENT", "BLOCKLIST", "SPII", "IMAGE_SAFETY", "IMAGE_PROHIBITED_CONTENT"];
+
+export class GenerationError extends Error {
+  // `code` defaults from the status so existing `new GenerationError(msg, 400)`
+  // calls keep working.
+  constructor(message, statusCode = 500, { code, retryAfter = null, rule = null } = {}) {
+    super(message);
+    this.name = "GenerationError";
+    this.code = code || (statusCode === 400 ? "BAD_INPUT" : "GENERATION_FAILED");
+    this.statusCode = statusCode;
+    // Seconds until retrying makes sense, when the upstream said so.
+    this.retryAfter = retryAfter;
+    // Moderation rule that blocked the request.
+    this.rule = rule;
+  }
+}
+
+export const codedError = (code, message, options = {}) => new GenerationError(message, ERROR_CODES[code], { code, ...options });
+
+export const isTransient = (err) => TRANSIENT_CODES.includes(err?.code);
+
+export const isSafetyReason = (reason) => SAFETY_REASONS.includes(reason);
+
+function upstreamDetails(err) {
+  try {
+    return JSON.parse(err.message)?.error || {};
+  } catch {
+    return {};
+  }
+}
+
+// Gemini reports the wait as a RetryInfo detail such as "37s".
+function parseRetryAfter(err, details) {
+  if (Number.isFinite(err.retryAfter)) return err.retryAfter;
+  const info = (details.details || []).find((detail) => typeof detail?.retryDelay === "string");
+  const seconds = info ? parseFloat(info.retryDelay) : NaN;
+  return Number.isFinite(seconds) ? Math.ceil(seconds) : null;
+}
+
+// Maps whatever a provider SDK threw onto the contract. Messages stay short
+// and never echo upstream payloads, which can include request details.
+export function classifyProviderError(err) {
+  if (err instanceof GenerationError) return err;
+
+  const details = upstreamDetails(err);
+  const status = Number(err?.status) || Number(details.code) || 0;
+  const text = `${details.status || ""} ${details.message || err?.message || ""}`;
+
+  if (err?.name === "AbortError" || err?.name === "TimeoutError" || status === 408 || status === 504) {
+    return codedError("UPSTREAM_TIMEOUT", "The image service took too long to respond");
+  }
+  if (status === 429 || text.includes("RESOURCE_EXHAUSTED")) {
+    return codedError("RATE_LIMITED", "The image service is rate limiting requests", { retryAfter: parseRetryAfter(err, details) });
+  }
+  if (status === 401 || status === 403 || text.includes("API key") || text.includes("PERMISSION_DENIED")) {
+    return codedError("PROVIDER_NOT_CONFIGURED", "The image service rejected this deployment's credentials");
+  }
+  if (status === 404 && text.includes("Requested entity was not found")) {
+    return codedError("PROVIDER_NOT_CONFIGURED", "The configured model is not available to this API key");
+  }
+  if (status === 400 && /safety|blocked/i.test(text)) {
+    return codedError("SAFETY_BLOCKED", "The request was blocked by the image service's safety filters");
+  }
+  if (status === 400) {
+    return codedError("BAD_INPUT", "The image service rejected the request");
+  }
+  if (status >= 500 || err?.code === "ECONNRESET" || err?.code === "ETIMEDOUT" || err?.cause?.code === "ECONNRESET") {
+    return codedError("UPSTREAM_ERROR", "The image service is unavailable");
+  }
+  return new GenerationError("Generation failed");
+}
+
+export function errorBody(err) {
+  return {
+    error: err.message,
+    code: err.code,
+    ...(err.retryAfter ? { retryAfter: err.retryAfter } : {}),
+    ...(err.rule ? { rule: err.rule } : {}),
+  };
+}
+
+// Anything that is not a GenerationError is an internal bug; its message is
+// replaced with `fallback` so stack details never reach the client.
+export function sendError(res, err, fallback) {
+  if (!(err instanceof GenerationError)) {
+    return res.status(500).json({ error: fallback, code: "GENERATION_FAILED" });
+  }
+  if (err.retryAfter) res.setHeader("Retry-After", String(err.retryAfter));
+  return res.status(err.statusCode).json(errorBody(err));
+}
+
+export const sendBadInput = (res, message) => res.status(400).json({ error: message, code: "BAD_INPUT" });
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { classifyProviderError, codedError, errorBody, GenerationError, isTransient, sendError } from "./errors.js";
+
+function response() {
+  return {
+    headers: {},
+    setHeader(name, value) {
+      this.headers[name] = value;
+    },
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    },
+  };
+}
+
+describe("codedError", () => {
+  it("takes its status from the code", () => {
+    const err = codedError("RATE_LIMITED", "Slow down", { retryAfter: 5 });
+    expect(err).toBeInstanceOf(GenerationError);
+    expect(err).toMatchObject({ code: "RATE_LIMITED", statusCode: 429, retryAfter: 5 });
+    expect(isTransient(err)).toBe(true);
+    expect(isTransient(codedError("BAD_INPUT", "No"))).toBe(false);
+  });
+
+  it("defaults the code from the status for older call sites", () => {
+    expect(new GenerationError("Bad", 400).code).toBe("BAD_INPUT");
+    expect(new GenerationError("Broken").code).toBe("GENERATION_FAILED");
+  });
+});
+
+describe("classifyProviderError", () => {
+  const upstream = (status, error) => Object.assign(new Error(JSON.stringify({ error })), { status });
+
+  it("maps upstream failures onto the contract", () => {
+    expect(classifyProviderError(Object.assign(new Error("aborted"), { name: "AbortError" })).code).toBe("UPSTREAM_TIMEOUT");
+    expect(classifyProviderError(upstream(401, { message: "API key not valid" })).code).toBe("PROVIDER_NOT_CONFIGURED");
+    expect(classifyProviderError(upstream(400, { message: "Request blocked by safety" })).code).toBe("SAFETY_BLOCKED");
+    expect(classifyProviderError(upstream(400, { message: "Invalid argument" })).code).toBe("BAD_INPUT");
+    expect(classifyProviderError(upstream(503, { message: "Overloaded" })).code).toBe("UPSTREAM_ERROR");
+    expect(classifyProviderError(Object.assign(new Error("socket hang up"), { code: "ECONNRESET" })).code).toBe("UPSTREAM_ERROR");
+    expect(classifyProviderError(new TypeError("x is undefined")).code).toBe("GENERATION_FAILED");
+  });
+
+  it("reads Gemini's retry delay from rate limit details", () => {
+    const err = classifyProviderError(
+      upstream(429, { status: "RESOURCE_EXHAUSTED", details: [{ "@type": "RetryInfo", retryDelay: "36.2s" }] })
+    );
+    expect(err).toMatchObject({ code: "RATE_LIMITED", retryAfter: 37 });
+  });
+
+  it("never echoes upstream messages", () => {
+    expect(classifyProviderError(upstream(400, { message: "prompt: secret" })).message).not.toContain("secret");
+  });
+
+  it("leaves classified errors alone", () => {
+    const err = codedError("NO_IMAGE", "Nothing");
+    expect(classifyProviderError(err)).toBe(err);
+  });
+});
+
+describe("sendError", () => {
+  it("sends the contract body with Retry-After when there is one", () => {
+    const res = response();
+    sendError(res, codedError("RATE_LIMITED", "Slow down", { retryAfter: 5 }), "Failed");
+    expect(res.statusCode).toBe(429);
+    expect(res.headers["Retry-After"]).toBe("5");
+    expect(res.body).toEqual({ error: "Slow down", code: "RATE_LIMITED", retryAfter: 5 });
+  });
+
+  it("hides internal errors behind the fallback message", () => {
+    const res = response();
+    sendError(res, new Error("stack details"), "Generation failed");
+    expect(res.statusCode).toBe(500);
+    expect(res.body).toEqual({ error: "Generation failed", code: "GENERATION_FAILED" });
+  });
+
+  it("includes the moderation rule", () => {
+    expect(errorBody(codedError("MODERATION_BLOCKED", "No", { rule: "gore" }))).toEqual({ error: "No", code: "MODERATION_BLOCKED", rule: "gore" });
+  });
+});
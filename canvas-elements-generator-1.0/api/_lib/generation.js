@@ -0,0 +1,245 @@
+import sharp from "sharp";
+import { recolorToPalette, validateBrandKit } from "./brand.js";
+import { cacheKey, isCacheEnabled, readCache, referenceDigest, writeCache } from "./cache.js";
+import { describeAsset } from "./describe.js";
+import { codedError, GenerationError } from "./errors.js";
+import { buildImagePrompt, buildVariationPrompt, getPreset, isAssetType, VARIATION_DIVERSITY } from "./presets.js";
+import { encodeAnimation, MOTIONS, renderMotionFrames } from "./motion.js";
+import { removeKeyBackground } from "./matting.js";
+import { assertAllowed, moderateText, sanitizeText, validatePromptLength } from "./moderation.js";
+import { getProvider } from "./providers/index.js";
+import { DEFAULT_STRENGTH, splitDataUrl, validateReferences } from "./references.js";
+import { normalizeToCanvas } from "./sets.js";
+import { storeBase64 } from "./storage.js";
+
+const REFERENCE_SIZE = 1024;
+// Word-overlap ratio at which two variations count as the same prompt.
+const NEAR_DUPLICATE_SIMILARITY = 0.8;
+// Extra variations requested so some can be dropped as near-duplicates.
+const VARIATION_SPARES = 0.25;
+const MAX_EXCLUDED = 80;
+
+export function validateGenerationInput({ prompt, type, motion, references, strength, brandKit }) {
+  if (!prompt || !type) return "Missing prompt or type";
+  if (!isAssetType(type)) return `Unknown asset type: ${type}`;
+  if (motion && !MOTIONS[motion]) return `Unknown motion: ${motion}`;
+  return validatePromptLength(prompt) || validateReferences(references, strength) || validateBrandKit(brandKit);
+}
+
+export async function prepareReferences(references) {
+  if (!references?.length) return [];
+
+  return Promise.all(
+    references.map(async (reference) => {
+      try {
+        const png = await sharp(Buffer.from(splitDataUrl(reference).data, "base64"))
+          .resize(REFERENCE_SIZE, REFERENCE_SIZE, { fit: "inside", withoutEnlargement: true })
+          .png()
+          .toBuffer();
+        return { mimeType: "image/png", data: png.toString("base64") };
+      } catch {
+        throw new GenerationError("Reference image could not be decoded", 400);
+      }
+    })
+  );
+}
+
+// Sanitizes the prompt and checks it and the brand keywords against the
+// moderation rules. Routes call this before spending any quota.
+export function moderateRequest(prompt, brandKit = null) {
+  if (brandKit?.keywords.length) assertAllowed(brandKit.keywords.join(", "));
+  return assertAllowed(prompt);
+}
+
+// Everything besides the prompt and type that changes what gets rendered.
+function cacheOptions({ motion, references = [], strength = null, brandKit = null, set = null }) {
+  return {
+    motion: motion || null,
+    references: references.map(referenceDigest),
+    strength: references.length ? strength ?? DEFAULT_STRENGTH : null,
+    brandKit: brandKit && { palette: brandKit.palette, keywords: brandKit.keywords, forbidden: brandKit.forbidden, recolor: brandKit.recolor },
+    set: set && { style: set.style, size: set.size, padding: set.padding },
+  };
+}
+
+function assetCacheKey(input) {
+  const provider = getProvider();
+  return cacheKey({
+    provider: provider.name,
+    model: provider.imageModel,
+    prompt: input.prompt,
+    type: input.type,
+    options: cacheOptions(input),
+  });
+}
+
+// Same input as generateAsset. Routes call this before spending quota.
+export async function findCachedAsset(input) {
+  const result = await readCache(assetCacheKey(input));
+  return result && { ...result, cached: true };
+}
+
+// `references` must already be normalized with prepareReferences, `brandKit`
+// with normalizeBrandKit and `set` with normalizeSetOptions. Results point at
+// stored files, carry alt text and tags written by the text model from the
+// rendered image (or derived from the prompt when it can't describe it), and
+// `cached` tells whether the model was skipped.
+export async function generateAsset(input, { cache = true } = {}) {
+  const key = cache && isCacheEnabled() ? assetCacheKey(input) : null;
+  if (key) {
+    const hit = await readCache(key);
+    if (hit) return { ...hit, cached: true };
+  }
+
+  const { image, alternates, still, ...rendered } = await renderAsset(input);
+  const [[stored, ...storedAlternates], { fromModel, ...description }] = await Promise.all([
+    Promise.all([image, ...alternates].map((file) => storeBase64(file.data, file.mimeType))),
+    describeAsset({ prompt: input.prompt, type: input.type, image: still || image }),
+  ]);
+  const result = { image: stored.url, mimeType: stored.mimeType, alternates: storedAlternates, ...rendered, ...description };
+  if (key) await writeCache(key, result);
+  return { ...result, cached: false };
+}
+
+async function renderAsset({ prompt, type, motion, references = [], strength = null, brandKit = null, set = null }) {
+  const preset = getPreset(type);
+  const provider = getProvider();
+  const source = { provider: provider.name, model: provider.imageModel };
+
+  const image = await provider.generateImage({
+    prompt: buildImagePrompt(prompt, type, {
+      referenceStrength: references.length ? strength ?? DEFAULT_STRENGTH : null,
+      brandKit,
+      set,
+    }),
+    aspectRatio: preset.aspectRatio,
+    keyColor: preset.output.transparent ? preset.output.keyColor : null,
+    references,
+  });
+
+  if (!image?.data) {
+    throw codedError("NO_IMAGE", "The model answered without an image. Try rephrasing the prompt");
+  }
+
+  let imageBase64 = image.data;
+  let mimeType = image.mimeType;
+
+  if (preset.output.motion) {
+    // Recoloring the keyframe gives every frame the same brand colors.
+    if (brandKit && brandKit.recolor !== "off") {
+      const recolored = await recolorToPalette(imageBase64, { palette: brandKit.palette, mode: brandKit.recolor });
+      imageBase64 = recolored.data;
+      mimeType = recolored.mimeType;
+    }
+    const { frames, frameDelay, size, formats } = preset.output.motion;
+    const rendered = await renderMotionFrames(imageBase64, { motion, frames, size });
+    const [primary, ...alternates] = await Promise.all(
+      formats.map((format) => encodeAnimation(rendered, { format, frameDelay }))
+    );
+
+    return {
+      image: primary,
+      alternates,
+      // The frame the animation was made from, for describing it.
+      still: { mimeType, data: imageBase64 },
+      hasAlpha: false,
+      aspectRatio: preset.aspectRatio,
+      ...source,
+    };
+  }
+
+  if (preset.output.transparent) {
+    const matted = await removeKeyBackground(imageBase64, { keyColor: preset.output.keyColor });
+    imageBase64 = matted.data;
+    mimeType = matted.mimeType;
+  }
+
+  // Runs after matting so the key color never counts towards the palette.
+  if (brandKit && brandKit.recolor !== "off") {
+    const recolored = await recolorToPalette(imageBase64, { palette: brandKit.palette, mode: brandKit.recolor });
+    imageBase64 = recolored.data;
+    mimeType = recolored.mimeType;
+  }
+  if (set) {
+    const normalized = await normalizeToCanvas(imageBase64, set);
+    imageBase64 = normalized.data;
+    mimeType = normalized.mimeType;
+  }
+
+  return {
+    image: { mimeType, data: imageBase64 },
+    alternates: [],
+    hasAlpha: !!preset.output.transparent,
+    aspectRatio: preset.aspectRatio,
+    ...source,
+  };
+}
+
+export function validateVariationInput({ prompt, type, diversity, exclude, brandKit }) {
+  if (!prompt) return "Missing prompt";
+  const tooLong = validatePromptLength(prompt);
+  if (tooLong) return tooLong;
+  if (type && !isAssetType(type)) return `Unknown asset type: ${type}`;
+  if (diversity !== undefined && !VARIATION_DIVERSITY[diversity]) {
+    return `Diversity must be one of ${Object.keys(VARIATION_DIVERSITY).join(", ")}`;
+  }
+  if (exclude !== undefined && (!Array.isArray(exclude) || exclude.length > MAX_EXCLUDED || exclude.some((text) => typeof text !== "string"))) {
+    return `Exclude must be a list of at most ${MAX_EXCLUDED} prompts`;
+  }
+  return validateBrandKit(brandKit);
+}
+
+function wordSet(text) {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, " ")
+      .split(/\s+/)
+      .filter((word) => word.length > 2)
+  );
+}
+
+function similarity(a, b) {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+// Keeps the first of any group of variations that share nearly all their
+// words, and drops anything too close to `existing`.
+export function dropNearDuplicates(variations, existing = []) {
+  const kept = [];
+  const seen = existing.map(wordSet);
+  for (const variation of variations) {
+    const words = wordSet(variation);
+    if (seen.some((other) => similarity(words, other) >= NEAR_DUPLICATE_SIMILARITY)) continue;
+    seen.push(words);
+    kept.push(variation);
+  }
+  return kept;
+}
+
+// Variations are model output that becomes image prompts, so they go through
+// the same rules as user prompts; `blocked` counts the ones dropped.
+export async function generateVariations({ prompt, type, count, diversity = "balanced", exclude = [], brandKit = null }) {
+  const requested = Math.ceil(count * (1 + VARIATION_SPARES));
+  exclude = exclude.map(sanitizeText);
+  const variations = await getProvider().expandVariations({
+    prompt,
+    type,
+    count: requested,
+    diversity,
+    exclude,
+    instruction: buildVariationPrompt(prompt, type, requested, { diversity, exclude, brandKit }),
+  });
+
+  const moderated = (Array.isArray(variations) ? variations : [])
+    .filter((variation) => typeof variation === "string" && variation.trim())
+    .map(moderateText);
+  const allowed = moderated.filter((variation) => !variation.blocked).map((variation) => variation.text);
+  return {
+    variations: dropNearDuplicates(allowed, exclude).slice(0, count),
+    blocked: moderated.length - allowed.length,
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+  Object.assign(process.env, { IMAGE_PROVIDER: "mock", STORAGE_BACKEND: "memory", CACHE_STORE: "memory" });
+});
+
+// The mock provider cannot describe images; tests add describeImage here.
+const upstream = vi.hoisted(() => ({ describeImage: null }));
+vi.mock("./providers/index.js", async (importOriginal) => {
+  const actual = await importOriginal();
+  return { ...actual, getProvider: () => ({ ...actual.getProvider(), describeImage: upstream.describeImage }) };
+});
+
+const { generateAsset } = await import("./generation.js");
+
+describe("generateAsset", () => {
+  it("has the text model describe the rendered image", async () => {
+    upstream.describeImage = vi.fn(async () => ({ altText: "A round purple sticker with a star", tags: ["star", "purple"] }));
+    const result = await generateAsset({ prompt: "a lucky star", type: "Sticker" }, { cache: false });
+
+    expect(result).toMatchObject({ altText: "A round purple sticker with a star", tags: ["star", "purple"] });
+    expect(result).not.toHaveProperty("fromModel");
+    expect(upstream.describeImage.mock.calls[0][0].image).toMatchObject({ mimeType: "image/png" });
+  });
+
+  it("describes animations from their keyframe", async () => {
+    upstream.describeImage = vi.fn(async () => ({ altText: "A star spinning", tags: ["star"] }));
+    const result = await generateAsset({ prompt: "a lucky star", type: "GIF (Motion)" }, { cache: false });
+
+    expect(result.mimeType).toBe("image/gif");
+    expect(upstream.describeImage.mock.calls[0][0].image.mimeType).toBe("image/png");
+  });
+
+  it("falls back to the prompt when no model can describe it", async () => {
+    upstream.describeImage = null;
+    const result = await generateAsset({ prompt: "a lucky star", type: "Sticker" }, { cache: false });
+    expect(result).toMatchObject({ altText: "Sticker showing a lucky star", tags: ["sticker", "lucky", "star"] });
+  });
+});
@@ -0,0 +1,85 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+// Job state adapters. Both expose the same async get/put/update contract so
+// the runner does not care where state lives.
+
+export function createMemoryJobStore() {
+  const jobs = new Map();
+
+  return {
+    async get(id) {
+      const job = jobs.get(id);
+      return job ? structuredClone(job) : null;
+    },
+    async put(job) {
+      jobs.set(job.id, structuredClone(job));
+      return job;
+    },
+    async update(id, mutate) {
+      const job = jobs.get(id);
+      if (!job) return null;
+      const next = mutate(structuredClone(job)) || job;
+      jobs.set(id, structuredClone(next));
+      return next;
+    },
+  };
+}
+
+export function createFileJobStore(dir) {
+  const fileFor = (id) => path.join(dir, `${id.replace(/[^a-zA-Z0-9-]/g, "")}.json`);
+  // Serialize writes per job inside this process so concurrent item updates
+  // do not overwrite each other.
+  const locks = new Map();
+
+  const read = async (id) => {
+    try {
+      return JSON.parse(await fs.readFile(fileFor(id), "utf8"));
+    } catch (err) {
+      if (err.code === "ENOENT") return null;
+      throw err;
+    }
+  };
+
+  const write = async (job) => {
+    await fs.mkdir(dir, { recursive: true });
+    const target = fileFor(job.id);
+    const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(job));
+    await fs.rename(temp, target);
+    return job;
+  };
+
+  const withLock = (id, task) => {
+    const previous = locks.get(id) || Promise.resolve();
+    const current = previous.catch(() => {}).then(task);
+    locks.set(id, current);
+    current.finally(() => {
+      if (locks.get(id) === current) locks.delete(id);
+    }).catch(() => {});
+    return current;
+  };
+
+  return {
+    get: read,
+    put: (job) => withLock(job.id, () => write(job)),
+    update: (id, mutate) =>
+      withLock(id, async () => {
+        const job = await read(id);
+        if (!job) return null;
+        return write(mutate(job) || job);
+      }),
+  };
+}
+
+let store = null;
+
+export function getJobStore() {
+  if (!store) {
+    store = process.env.JOB_STORE === "memory"
+      ? createMemoryJobStore()
+      : createFileJobStore(process.env.JOB_STORE_DIR || path.join(os.tmpdir(), "canvas-elements-jobs"));
+  }
+  return store;
+}
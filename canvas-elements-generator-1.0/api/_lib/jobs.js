@@ -0,0 +1,335 @@
+import crypto from "crypto";
+import { GenerationError } from "./errors.js";
+import { generateAsset, generateVariations } from "./generation.js";
+import { getJobStore } from "./jobStore.js";
+import { refundQuota } from "./quota.js";
+import { readStoredFile } from "./storage.js";
+
+export const MAX_JOB_ITEMS = 40;
+
+const CONCURRENCY = Math.max(1, Number(process.env.JOB_CONCURRENCY) || 1);
+const ITEM_DELAY_MS = Number(process.env.JOB_ITEM_DELAY_MS ?? 4000);
+const RATE_LIMIT_DELAY_MS = Number(process.env.JOB_RATE_LIMIT_DELAY_MS ?? 30000);
+const MAX_ATTEMPTS = 2;
+// An item left "running" longer than this belongs to a runner that died
+// (closed function instance, crashed dev server) and may be claimed again.
+const LEASE_MS = 3 * 60 * 1000;
+
+const runners = new Map();
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Provider errors arrive classified; anything else is an internal failure
+// whose message should not reach the client.
+function asGenerationError(err) {
+  return err instanceof GenerationError ? err : new GenerationError("Generation failed");
+}
+
+// Every change bumps the job's `seq` and stamps it on the items it touched.
+// Event streams resume from it, since several changes can share a millisecond.
+function touch(job, ...items) {
+  const now = Date.now();
+  job.seq = (job.seq || 0) + 1;
+  job.updatedAt = now;
+  for (const item of items) {
+    item.seq = job.seq;
+    item.updatedAt = now;
+  }
+}
+
+function isClaimable(item, now) {
+  return item.status === "pending" || (item.status === "running" && now - item.startedAt > LEASE_MS);
+}
+
+// A set without a reference image takes its first finished item as the style
+// anchor, so nothing else starts while that item renders. Extra runners give
+// up here and the remaining one finishes the set.
+function awaitsAnchor(job) {
+  return !!job.set && job.references.length === 0 && job.items.some((item) => item.status === "running");
+}
+
+function finalize(job) {
+  if (job.status === "failed" || job.items.some((item) => item.status === "pending" || item.status === "running")) {
+    return job;
+  }
+
+  const done = job.items.filter((item) => item.status === "done").length;
+  // When every item failed the same way, the job reports that reason.
+  const codes = new Set(job.items.map((item) => item.errorCode));
+  const shared = codes.size === 1 ? job.items[0] : null;
+  job.status = done > 0 ? "completed" : "failed";
+  job.error = done > 0 ? null : shared?.error || "Could not forge any elements. Service might be busy. Try again in a few moments.";
+  job.errorCode = done > 0 ? null : shared?.errorCode || "GENERATION_FAILED";
+  touch(job);
+  return job;
+}
+
+export function isFinished(job) {
+  return job.status === "completed" || job.status === "failed";
+}
+
+export function summarizeJob(job, { includeResults = true } = {}) {
+  const counts = { total: job.count, done: 0, failed: 0, blocked: 0, pending: 0, running: 0 };
+  for (const item of job.items) counts[item.status]++;
+  if (job.items.length === 0) counts.pending = job.count;
+
+  // The owner and quota reservation carry the client identity and stay
+  // server-side; reference images are large and the client already has them.
+  const { owner, quota, references, ...visible } = job;
+  return {
+    ...visible,
+    counts,
+    items: includeResults ? job.items : job.items.map(({ result, ...item }) => item),
+  };
+}
+
+// Moderation failures are final: the item is reported as blocked with the
+// reason and never retried or charged.
+const BLOCKED_CODES = ["MODERATION_BLOCKED", "SAFETY_BLOCKED"];
+
+function pendingItem(prompt, index) {
+  return {
+    index,
+    prompt,
+    status: "pending",
+    attempts: 0,
+    error: null,
+    errorCode: null,
+    result: null,
+    startedAt: null,
+    seq: 0,
+    updatedAt: Date.now(),
+  };
+}
+
+async function expand(id) {
+  const store = getJobStore();
+  const job = await store.update(id, (job) => {
+    job.status = "expanding";
+    touch(job);
+    return job;
+  });
+
+  try {
+    const { variations } = await generateVariations({
+      prompt: job.prompt,
+      type: job.type,
+      count: job.count,
+      brandKit: job.brandKit,
+    });
+
+    if (variations.length === 0) {
+      throw new GenerationError("No prompt variations returned");
+    }
+
+    await store.update(id, (job) => {
+      job.count = variations.length;
+      job.items = variations.map(pendingItem);
+      job.status = "running";
+      touch(job, ...job.items);
+      return job;
+    });
+    return true;
+  } catch (err) {
+    console.error(`Job ${id}: variation expansion failed`, err);
+    const failure = asGenerationError(err);
+    await store.update(id, (job) => {
+      job.status = "failed";
+      job.error = failure.message;
+      job.errorCode = failure.code;
+      touch(job);
+      return job;
+    });
+    return false;
+  }
+}
+
+async function work(id) {
+  const store = getJobStore();
+
+  for (;;) {
+    let claimed = null;
+    await store.update(id, (job) => {
+      if (awaitsAnchor(job)) return job;
+      const item = job.items.find((candidate) => isClaimable(candidate, Date.now()));
+      if (!item) return job;
+      item.status = "running";
+      item.startedAt = Date.now();
+      item.attempts++;
+      touch(job, item);
+      claimed = {
+        item: { ...item },
+        type: job.type,
+        motion: job.motion,
+        references: job.references || [],
+        strength: job.strength,
+        brandKit: job.brandKit || null,
+        set: job.set || null,
+        cache: job.cache !== false,
+      };
+      return job;
+    });
+    if (!claimed) return;
+
+    const { item, type, motion, references, strength, brandKit, set, cache } = claimed;
+    let retryDelay = ITEM_DELAY_MS;
+
+    try {
+      const result = await generateAsset({ prompt: item.prompt, type, motion, references, strength, brandKit, set }, { cache });
+      const anchor = set && references.length === 0 ? await readStoredFile(result.image) : null;
+      await store.update(id, (job) => {
+        const target = job.items[item.index];
+        Object.assign(target, { status: "done", error: null, errorCode: null, result });
+        if (anchor && job.references.length === 0) {
+          job.references = [anchor];
+          job.set.anchorIndex = item.index;
+        }
+        // Cache hits stay reserved and are refunded when the job settles.
+        if (job.quota && !result.cached) job.quota.reserved = Math.max(0, job.quota.reserved - 1);
+        touch(job, target);
+        return job;
+      });
+    } catch (err) {
+      console.error(`Job ${id}: item ${item.index} failed`, err);
+      const failure = asGenerationError(err);
+      if (failure.code === "RATE_LIMITED") {
+        retryDelay = failure.retryAfter ? failure.retryAfter * 1000 : RATE_LIMIT_DELAY_MS;
+      }
+      await store.update(id, (job) => {
+        const target = job.items[item.index];
+        if (BLOCKED_CODES.includes(failure.code)) {
+          target.status = "blocked";
+        } else {
+          // Retrying bad input gives the same answer.
+          target.status = failure.code !== "BAD_INPUT" && target.attempts < MAX_ATTEMPTS ? "pending" : "failed";
+        }
+        target.error = failure.message;
+        target.errorCode = failure.code;
+        touch(job, target);
+        return job;
+      });
+    }
+
+    const job = await store.get(id);
+    if (!job.items.some((candidate) => candidate.status === "pending")) return;
+    await sleep(retryDelay);
+  }
+}
+
+// Returns whatever quota a finished job reserved but never turned into images.
+async function settleQuota(id) {
+  let refund = null;
+  await getJobStore().update(id, (job) => {
+    if (isFinished(job) && job.quota?.reserved > 0) {
+      refund = { ...job.quota };
+      job.quota.reserved = 0;
+    }
+    return job;
+  });
+  if (refund) await refundQuota(refund, refund.reserved);
+}
+
+async function run(id) {
+  const store = getJobStore();
+  const job = await store.get(id);
+  if (!job || isFinished(job)) return;
+
+  if (job.items.length === 0 && !(await expand(id))) return settleQuota(id);
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, () => work(id)));
+  await store.update(id, finalize);
+  await settleQuota(id);
+}
+
+// Starts the runner for a job unless this process already runs it. Called on
+// creation and whenever a client polls or streams, which is what resumes a job
+// whose previous runner went away.
+export function ensureJobRunning(id) {
+  if (!runners.has(id)) {
+    const runner = run(id)
+      .catch((err) => console.error(`Job ${id} runner crashed`, err))
+      .finally(() => runners.delete(id));
+    runners.set(id, runner);
+  }
+  return runners.get(id);
+}
+
+// Jobs created with reviewed `prompts` skip variation expansion and render
+// exactly those prompts. Each entry is a moderateText result; blocked ones
+// start out blocked and are not part of the quota reservation.
+export async function createJob({ prompt, type, count, prompts, motion, references, strength, brandKit, set, cache = true, parentId, quota }) {
+  const now = Date.now();
+  if (prompts?.length) count = prompts.length;
+  const items = (prompts || []).map(({ text, blocked }, index) =>
+    blocked
+      ? { ...pendingItem(text, index), status: "blocked", error: blocked.reason, errorCode: "MODERATION_BLOCKED" }
+      : pendingItem(text, index)
+  );
+  const reserved = prompts?.length ? items.filter((item) => item.status === "pending").length : count;
+  const job = {
+    id: crypto.randomUUID(),
+    prompt,
+    type,
+    motion: motion || null,
+    references: references || [],
+    strength: strength ?? null,
+    brandKit: brandKit || null,
+    // `anchorIndex` is set once an item of the set becomes its style anchor.
+    set: set ? { ...set, anchorIndex: null } : null,
+    cache,
+    parentId: parentId || null,
+    count: Math.min(MAX_JOB_ITEMS, Math.max(1, Math.floor(count))),
+    status: "queued",
+    error: null,
+    errorCode: null,
+    createdAt: now,
+    seq: 0,
+    updatedAt: now,
+    items,
+    // Client identity that created the job; only it may retry items.
+    owner: quota?.key || null,
+    quota: quota ? { key: quota.key, windowStart: quota.windowStart, reserved } : null,
+  };
+
+  await getJobStore().put(job);
+  ensureJobRunning(job.id);
+  return job;
+}
+
+export async function getJob(id) {
+  return getJobStore().get(id);
+}
+
+export function retryableCount(job, indexes) {
+  if (job.items.length === 0) return isFinished(job) ? job.count : 0;
+  return job.items.filter((item) => item.status === "failed" && (!indexes || indexes.includes(item.index))).length;
+}
+
+export async function retryJobItems(id, indexes, quota) {
+  const job = await getJobStore().update(id, (job) => {
+    if (quota) {
+      job.quota = { key: quota.key, windowStart: quota.windowStart, reserved: (job.quota?.reserved || 0) + retryableCount(job, indexes) };
+    }
+    for (const item of job.items) {
+      if (item.status === "failed" && (!indexes || indexes.includes(item.index))) {
+        Object.assign(item, { status: "pending", attempts: 0, error: null, errorCode: null });
+        touch(job, item);
+      }
+    }
+    if (job.items.length === 0 && isFinished(job)) {
+      job.status = "queued";
+      job.error = null;
+      job.errorCode = null;
+      touch(job);
+    } else if (job.items.some((item) => item.status === "pending")) {
+      job.status = "running";
+      job.error = null;
+      job.errorCode = null;
+      touch(job);
+    }
+    return job;
+  });
+
+  if (job && !isFinished(job)) ensureJobRunning(id);
+  return job;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+  Object.assign(process.env, {
+    IMAGE_PROVIDER: "gemini",
+    GOOGLE_API_KEY: "test-key",
+    PROVIDER_RETRIES: "0",
+    JOB_STORE: "memory",
+    JOB_ITEM_DELAY_MS: "0",
+    QUOTA_STORE: "memory",
+    STORAGE_BACKEND: "memory",
+    CACHE_STORE: "memory",
+  });
+});
+
+// The image model refuses every request the way Gemini reports a blocked image.
+vi.mock("@google/genai", () => ({
+  Type: { ARRAY: "ARRAY", OBJECT: "OBJECT", STRING: "STRING" },
+  GoogleGenAI: class {
+    models = {
+      generateContent: async () => ({ candidates: [{ finishReason: "IMAGE_SAFETY", content: { parts: [] } }] }),
+    };
+  },
+}));
+
+const { createJob, getJob, isFinished } = await import("./jobs.js");
+const { clientIdentity, consumeQuota, getQuota } = await import("./quota.js");
+
+describe("generation jobs", () => {
+  it("reports images the provider's safety filter refused as blocked and uncharged", async () => {
+    const req = { headers: {}, socket: { remoteAddress: "192.0.2.40" } };
+    const { quota } = await consumeQuota(req, 1);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const job = await createJob({ prompt: "a cute cat", type: "Sticker", count: 1, prompts: [{ text: "a cute cat", blocked: null }], quota });
+    await vi.waitFor(async () => expect(isFinished(await getJob(job.id))).toBe(true));
+
+    const finished = await getJob(job.id);
+    expect(finished.items[0]).toMatchObject({ status: "blocked", errorCode: "SAFETY_BLOCKED", attempts: 1 });
+    expect(finished).toMatchObject({ status: "failed", errorCode: "SAFETY_BLOCKED" });
+    expect((await getQuota(clientIdentity(req))).used).toBe(0);
+  });
+});
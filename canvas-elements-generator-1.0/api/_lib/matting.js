@@ -0,0 +1,109 @@
+import sharp from "sharp";
+
+function parseHex(hex) {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function distance(data, offset, key) {
+  const dr = data[offset] - key[0];
+  const dg = data[offset + 1] - key[1];
+  const db = data[offset + 2] - key[2];
+  return Math.sqrt(dr * dr + dg * dg + db * db);
+}
+
+// The model never paints the exact key color, so measure what it actually
+// used along the image border and fall back to the requested key if the
+// border is clearly something else.
+function estimateKey(data, width, height, requested) {
+  const samples = [];
+  const step = Math.max(1, Math.floor(Math.min(width, height) / 64));
+  for (let x = 0; x < width; x += step) {
+    samples.push(x * 4, ((height - 1) * width + x) * 4);
+  }
+  for (let y = 0; y < height; y += step) {
+    samples.push(y * width * 4, (y * width + width - 1) * 4);
+  }
+
+  const near = samples.filter((offset) => distance(data, offset, requested) < 140);
+  if (near.length < samples.length / 4) return requested;
+
+  const channel = (c) => {
+    const values = near.map((offset) => data[offset + c]).sort((a, b) => a - b);
+    return values[Math.floor(values.length / 2)];
+  };
+  return [channel(0), channel(1), channel(2)];
+}
+
+function removeSpecks(alpha, width, height) {
+  const cleaned = new Uint8ClampedArray(alpha);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (alpha[i] === 0) continue;
+      let solid = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if ((dx || dy) && alpha[i + dy * width + dx] > 127) solid++;
+        }
+      }
+      if (solid < 2) cleaned[i] = 0;
+    }
+  }
+  return cleaned;
+}
+
+function featherEdges(alpha, width, height) {
+  const feathered = new Uint8ClampedArray(alpha);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      let sum = 0;
+      let min = 255;
+      let max = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const a = alpha[i + dy * width + dx];
+          sum += a;
+          if (a < min) min = a;
+          if (a > max) max = a;
+        }
+      }
+      if (max - min > 0) feathered[i] = Math.min(alpha[i], Math.round(sum / 9 + 0.5));
+    }
+  }
+  return feathered;
+}
+
+export async function removeKeyBackground(imageBase64, { keyColor, tolerance = 70, softness = 50 }) {
+  const { data, info } = await sharp(Buffer.from(imageBase64, "base64"))
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+  const key = estimateKey(data, width, height, parseHex(keyColor));
+
+  let alpha = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const d = distance(data, i * 4, key);
+    alpha[i] = Math.round(Math.min(1, Math.max(0, (d - tolerance) / softness)) * 255);
+  }
+
+  alpha = featherEdges(removeSpecks(alpha, width, height), width, height);
+
+  for (let i = 0; i < width * height; i++) {
+    const offset = i * 4;
+    const a = alpha[i] / 255;
+    // Un-mix the key color from semi-transparent edge pixels so the
+    // background does not leave a colored fringe.
+    if (a > 0 && a < 1) {
+      for (let c = 0; c < 3; c++) {
+        data[offset + c] = Math.round(Math.min(255, Math.max(0, (data[offset + c] - (1 - a) * key[c]) / a)));
+      }
+    }
+    data[offset + 3] = alpha[i];
+  }
+
+  const buffer = await sharp(data, { raw: { width, height, channels: 4 } }).png().toBuffer();
+  return { mimeType: "image/png", data: buffer.toString("base64") };
+}
@@ -0,0 +1,136 @@
+import { readFileSync } from "fs";
+import { codedError } from "./errors.js";
+
+// Local moderation: every rule runs in this process, nothing is sent to a
+// third-party classifier. MODERATION_RULES points at a JSON file shaped like
+// DEFAULT_RULES; its rules are added to the defaults unless it sets
+// "replaceDefaults": true, and its other settings override them.
+//
+// A rule blocks text when any of its `terms` appears as a whole word or
+// phrase, when one term from every group in `allOf` appears, or when its
+// `pattern` (a case-insensitive regular expression) matches.
+//
+// Generated text (suggested variations, descriptions) goes through the same
+// rules. Generated images are not inspected here: the provider's safety
+// filter is the only check on them, and the provider reports what it blocks
+// as SAFETY_BLOCKED.
+
+export const MAX_PROMPT_LENGTH = 500;
+
+const DEFAULT_RULES = {
+  maxPromptLength: MAX_PROMPT_LENGTH,
+  rules: [
+    {
+      id: "prompt-injection",
+      reason: "The prompt reads like instructions to the model rather than a description of an image",
+      pattern:
+        "\\b(ignore|disregard|forget|override)\\b.{0,20}\\b(previous|prior|above|earlier|preceding|your|system)\\b.{0,20}\\b(instructions?|prompts?|rules|guidelines)\\b|\\b(system prompt|developer mode|jailbreak)\\b",
+    },
+    {
+      id: "minors-sexual",
+      reason: "Sexual content involving minors is not allowed",
+      allOf: [
+        ["child", "children", "kid", "kids", "minor", "minors", "teen", "teens", "teenage", "underage", "schoolgirl", "schoolboy", "toddler", "baby"],
+        ["nude", "naked", "sexy", "sexual", "erotic", "nsfw", "lingerie", "topless", "seductive"],
+      ],
+    },
+    {
+      id: "sexual-explicit",
+      reason: "Sexually explicit content is not allowed",
+      terms: ["porn", "porno", "pornographic", "nsfw", "hentai", "explicit sex", "sex act", "genitals", "xxx"],
+    },
+    {
+      id: "graphic-violence",
+      reason: "Graphic violence and gore are not allowed",
+      terms: ["gore", "gory", "dismembered", "dismemberment", "decapitated", "decapitation", "mutilated", "disemboweled"],
+    },
+    {
+      id: "hate-symbols",
+      reason: "Hate symbols are not allowed",
+      terms: ["swastika", "nazi flag", "ss bolts", "kkk", "burning cross"],
+    },
+  ],
+};
+
+function loadRules() {
+  const file = process.env.MODERATION_RULES;
+  if (!file) return DEFAULT_RULES;
+
+  const custom = JSON.parse(readFileSync(file, "utf8"));
+  const { replaceDefaults, rules = [], ...settings } = custom;
+  return { ...DEFAULT_RULES, ...settings, rules: replaceDefaults ? rules : [...DEFAULT_RULES.rules, ...rules] };
+}
+
+let compiled = null;
+
+function getRules() {
+  if (!compiled) {
+    const config = loadRules();
+    compiled = {
+      ...config,
+      rules: config.rules.map((rule) => ({
+        ...rule,
+        terms: (rule.terms || []).map(normalizeForMatching),
+        allOf: (rule.allOf || []).map((group) => group.map(normalizeForMatching)),
+        pattern: rule.pattern ? new RegExp(rule.pattern, "i") : null,
+      })),
+    };
+  }
+  return compiled;
+}
+
+// Strips what a person would not type into a prompt box: control and
+// zero-width characters, and the angle brackets used to delimit user text in
+// model instructions. Newlines become spaces.
+export function sanitizeText(text) {
+  return String(text)
+    .normalize("NFKC")
+    .replace(/[\u200b-\u200f\u202a-\u202e\u2060-\u206f\ufeff]/g, "")
+    // eslint-disable-next-line no-control-regex -- stripping control characters is the point
+    .replace(/[\u0000-\u001f\u007f]/g, " ")
+    .replace(/[<>]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function normalizeForMatching(text) {
+  return ` ${sanitizeText(text).toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim()} `;
+}
+
+function findViolation(text) {
+  const words = normalizeForMatching(text);
+  const raw = sanitizeText(text);
+  const hits = (term) => words.includes(term);
+  return (
+    getRules().rules.find(
+      (rule) =>
+        rule.terms.some(hits) ||
+        (rule.allOf.length > 0 && rule.allOf.every((group) => group.some(hits))) ||
+        rule.pattern?.test(raw)
+    ) || null
+  );
+}
+
+// Returns { text, blocked } where `text` is the sanitized prompt and
+// `blocked` is { rule, reason } or null.
+export function moderateText(text) {
+  const clean = sanitizeText(text);
+  const rule = findViolation(clean);
+  return { text: clean, blocked: rule ? { rule: rule.id, reason: rule.reason } : null };
+}
+
+export function validatePromptLength(text, label = "Prompt") {
+  const { maxPromptLength } = getRules();
+  return sanitizeText(text).length > maxPromptLength ? `${label} must be at most ${maxPromptLength} characters` : null;
+}
+
+export function blockedError(blocked) {
+  return codedError("MODERATION_BLOCKED", blocked.reason, { rule: blocked.rule });
+}
+
+// Sanitizes `text` and throws MODERATION_BLOCKED when a rule matches.
+export function assertAllowed(text) {
+  const { text: clean, blocked } = moderateText(text);
+  if (blocked) throw blockedError(blocked);
+  return clean;
+}
@@ -0,0 +1,77 @@
+import sharp from "sharp";
+
+// Loop curves applied to a single keyframe. Every curve returns to its
+// starting pose at t = 1 so the animation loops without a visible seam.
+export const MOTIONS = {
+  float: (t) => ({ scale: 1, angle: 0, dy: -0.04 * Math.sin(2 * Math.PI * t) }),
+  pulse: (t) => ({ scale: 1 + 0.06 * Math.sin(2 * Math.PI * t), angle: 0, dy: 0 }),
+  sway: (t) => ({ scale: 1, angle: 6 * Math.sin(2 * Math.PI * t), dy: 0 }),
+  spin: (t) => ({ scale: 0.9, angle: 360 * t, dy: 0 }),
+};
+
+export const DEFAULT_MOTION = "float";
+
+async function sampleBackground(image) {
+  const { data, info } = await sharp(image)
+    .resize(8, 8, { fit: "fill" })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const corners = [0, info.width - 1, (info.height - 1) * info.width, info.height * info.width - 1];
+  const sum = [0, 0, 0];
+  for (const pixel of corners) {
+    for (let c = 0; c < 3; c++) sum[c] += data[pixel * 3 + c];
+  }
+  return { r: Math.round(sum[0] / 4), g: Math.round(sum[1] / 4), b: Math.round(sum[2] / 4), alpha: 1 };
+}
+
+async function renderFrame(keyframe, size, background, { scale, angle, dy }) {
+  const scaled = Math.max(1, Math.round(size * scale));
+  let layer = sharp(keyframe).resize(scaled, scaled, { fit: "contain", background });
+  if (angle % 360 !== 0) {
+    layer = sharp(await layer.png().toBuffer()).rotate(angle, { background });
+  }
+  const { data: layerData, info } = await layer.png().toBuffer({ resolveWithObject: true });
+
+  // Composite on an oversized canvas so rotated or shifted layers never fall
+  // outside it, then crop back to the output size.
+  const pad = Math.max(info.width, info.height);
+  const stage = size + pad * 2;
+  const left = Math.round(pad + (size - info.width) / 2);
+  const top = Math.round(pad + (size - info.height) / 2 + dy * size);
+
+  const staged = await sharp({ create: { width: stage, height: stage, channels: 4, background } })
+    .composite([{ input: layerData, left, top }])
+    .png()
+    .toBuffer();
+
+  return sharp(staged).extract({ left: pad, top: pad, width: size, height: size }).png().toBuffer();
+}
+
+export async function renderMotionFrames(keyframeBase64, { motion = DEFAULT_MOTION, frames = 12, size = 512 } = {}) {
+  const curve = MOTIONS[motion] || MOTIONS[DEFAULT_MOTION];
+  const keyframe = await sharp(Buffer.from(keyframeBase64, "base64"))
+    .resize(size, size, { fit: "cover" })
+    .png()
+    .toBuffer();
+  const background = await sampleBackground(keyframe);
+
+  const rendered = [];
+  for (let i = 0; i < frames; i++) {
+    rendered.push(await renderFrame(keyframe, size, background, curve(i / frames)));
+  }
+  return rendered;
+}
+
+export async function encodeAnimation(frames, { format = "gif", frameDelay = 80 } = {}) {
+  const animation = sharp(frames, { join: { animated: true } });
+  const delay = frames.map(() => frameDelay);
+
+  if (format === "webp") {
+    const buffer = await animation.webp({ loop: 0, delay, quality: 85 }).toBuffer();
+    return { mimeType: "image/webp", data: buffer.toString("base64") };
+  }
+
+  const buffer = await animation.gif({ loop: 0, delay, effort: 7 }).toBuffer();
+  return { mimeType: "image/gif", data: buffer.toString("base64") };
+}
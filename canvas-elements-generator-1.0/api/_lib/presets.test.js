@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { buildEditPrompt, buildImagePrompt, buildVariationPrompt, getPreset, isAssetType, listPresets, STYLE_PRESETS } from "./presets.js";
+
+describe("preset registry", () => {
+  it("knows every asset type and nothing else", () => {
+    expect(isAssetType("Sticker")).toBe(true);
+    expect(isAssetType("GIF (Motion)")).toBe(true);
+    expect(isAssetType("Icon")).toBe(false);
+    expect(isAssetType("toString")).toBe(false);
+    expect(getPreset("constructor")).toBeNull();
+  });
+
+  it("lists one entry per preset", () => {
+    expect(listPresets().map((preset) => preset.type)).toEqual(Object.keys(STYLE_PRESETS));
+  });
+});
+
+describe("buildImagePrompt", () => {
+  it("wraps the prompt in the preset template", () => {
+    const prompt = buildImagePrompt("a fox", "Sticker");
+    expect(prompt.split("\n")[0]).toBe("Sticker: a fox.");
+    expect(prompt).toContain(`Style: ${STYLE_PRESETS.Sticker.template.style}.`);
+    expect(prompt).not.toContain("Reference:");
+  });
+
+  it("adds reference guidance by strength", () => {
+    expect(buildImagePrompt("a fox", "Sticker", { referenceStrength: 0.9 })).toContain("Closely follow");
+    expect(buildImagePrompt("a fox", "Sticker", { referenceStrength: 0.1 })).toContain("loose inspiration");
+  });
+
+  it("adds brand colors and forbidden terms", () => {
+    const brandKit = { palette: ["#112233"], keywords: ["flat"], forbidden: ["gradients"] };
+    const prompt = buildImagePrompt("a fox", "Sticker", { brandKit });
+    expect(prompt).toContain("use only these colors: #112233");
+    expect(prompt).toContain("Brand style: flat.");
+    expect(prompt).toMatch(/Avoid: .*gradients\.$/m);
+  });
+
+  it("treats a reference as the set anchor in set mode", () => {
+    const prompt = buildImagePrompt("a fox", "Sticker", { referenceStrength: 0.6, set: { style: "line icons" } });
+    expect(prompt).not.toContain("Reference:");
+    expect(prompt).toContain("Set style: line icons.");
+    expect(prompt).toContain("Set anchor:");
+  });
+
+  it("leaves unknown types alone", () => {
+    expect(buildImagePrompt("a fox", "Icon")).toBe("a fox");
+  });
+});
+
+describe("buildEditPrompt", () => {
+  it("explains the mask only when there is one", () => {
+    expect(buildEditPrompt("make it blue", "Sticker", { masked: true })).toContain("mask");
+    expect(buildEditPrompt("make it blue", "Sticker")).not.toContain("mask");
+  });
+});
+
+describe("buildVariationPrompt", () => {
+  it("fences the description and lists exclusions", () => {
+    const prompt = buildVariationPrompt("a fox", "Sticker", 5, { exclude: ["a red fox"] });
+    expect(prompt).toContain("<description>a fox</description>");
+    expect(prompt).toContain("- a red fox");
+    expect(prompt).toMatch(/^Generate 5 /);
+  });
+});
@@ -0,0 +1,91 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { codedError, isSafetyReason } from "../errors.js";
+
+function assertNotBlocked(response) {
+  if (response.promptFeedback?.blockReason || isSafetyReason(response.candidates?.[0]?.finishReason)) {
+    throw codedError("SAFETY_BLOCKED", "The request was blocked by the image service's safety filters");
+  }
+}
+
+export function createGeminiProvider({ imageModel, textModel }) {
+  const client = () => {
+    if (!process.env.GOOGLE_API_KEY) {
+      throw codedError("PROVIDER_NOT_CONFIGURED", "GOOGLE_API_KEY is not set on the server");
+    }
+    return new GoogleGenAI({
+      apiKey: process.env.GOOGLE_API_KEY,
+    });
+  };
+
+  const requestImage = async (inputs, config, signal) => {
+    const parts = inputs.map((input) => (input.text ? input : { inlineData: { data: input.data, mimeType: input.mimeType } }));
+    const response = await client().models.generateContent({
+      model: imageModel,
+      contents: [{ parts }],
+      config: { ...config, abortSignal: signal },
+    });
+    assertNotBlocked(response);
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) {
+        return { data: part.inlineData.data, mimeType: part.inlineData.mimeType || "image/png" };
+      }
+    }
+    return null;
+  };
+
+  return {
+    name: "gemini",
+    imageModel,
+    textModel,
+
+    generateImage({ prompt, aspectRatio, references = [], signal }) {
+      return requestImage([...references, { text: prompt }], { imageConfig: { aspectRatio } }, signal);
+    },
+
+    // The mask travels as a second image; the prompt explains what it means.
+    editImage({ prompt, image, mask, signal }) {
+      return requestImage([image, ...(mask ? [mask] : []), { text: prompt }], {}, signal);
+    },
+
+    async expandVariations({ instruction, signal }) {
+      const response = await client().models.generateContent({
+        model: textModel,
+        contents: instruction,
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+          },
+        },
+      });
+      assertNotBlocked(response);
+
+      return JSON.parse(response.text || "[]");
+    },
+
+    async describeImage({ image, instruction, signal }) {
+      const response = await client().models.generateContent({
+        model: textModel,
+        contents: [{ parts: [{ inlineData: { data: image.data, mimeType: image.mimeType } }, { text: instruction }] }],
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              altText: { type: Type.STRING },
+              tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+            },
+            required: ["altText", "tags"],
+          },
+        },
+      });
+      assertNotBlocked(response);
+
+      return JSON.parse(response.text || "{}");
+    },
+  };
+}
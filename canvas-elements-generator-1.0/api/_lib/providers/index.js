@@ -0,0 +1,95 @@
+import { classifyProviderError, codedError, isTransient } from "../errors.js";
+import { createGeminiProvider } from "./gemini.js";
+import { createMockProvider } from "./mock.js";
+
+const RETRIES = Math.max(0, Number(process.env.PROVIDER_RETRIES ?? 2));
+const RETRY_BASE_MS = Number(process.env.PROVIDER_RETRY_BASE_MS ?? 1000);
+const TIMEOUT_MS = Number(process.env.PROVIDER_TIMEOUT_MS ?? 90000);
+// A Retry-After longer than this goes back to the client instead of holding
+// the request open until a serverless timeout kills it.
+const MAX_RETRY_WAIT_MS = Number(process.env.PROVIDER_MAX_RETRY_WAIT_MS ?? 20000);
+const METHODS = ["generateImage", "editImage", "expandVariations", "describeImage"];
+// Describing falls back to the prompt, so it gets one short attempt instead of
+// holding the user up through retries.
+const CALL_LIMITS = {
+  describeImage: { retries: 0, timeoutMs: Number(process.env.DESCRIBE_TIMEOUT_MS ?? 15000) },
+};
+
+// Selected with IMAGE_PROVIDER; models are overridable per deployment.
+const FACTORIES = {
+  gemini: () =>
+    createGeminiProvider({
+      imageModel: process.env.IMAGE_MODEL || "gemini-2.5-flash-image",
+      textModel: process.env.TEXT_MODEL || "gemini-3-flash-preview",
+    }),
+  mock: () =>
+    createMockProvider({
+      latencyMs: Number(process.env.MOCK_LATENCY_MS) || 0,
+      fail: process.env.MOCK_FAIL || null,
+      failTimes: Number(process.env.MOCK_FAIL_TIMES) || Infinity,
+    }),
+};
+
+let provider = null;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Aborts the attempt's request when the timer fires, so a slow call stops
+// (and stops billing) before the next attempt starts.
+function withTimeout(call, ms) {
+  const controller = new AbortController();
+  let timer;
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(codedError("UPSTREAM_TIMEOUT", "The image service took too long to respond"));
+    }, ms);
+  });
+  return Promise.race([call(controller.signal), timeout]).finally(() => clearTimeout(timer));
+}
+
+// Retries transient failures with jittered exponential backoff, waiting at
+// least as long as the upstream's Retry-After. Errors leave here classified.
+async function callWithRetry(method, call) {
+  const { retries = RETRIES, timeoutMs = TIMEOUT_MS } = CALL_LIMITS[method] || {};
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await withTimeout(call, timeoutMs);
+    } catch (raw) {
+      const err = classifyProviderError(raw);
+      if (err !== raw) console.error(`Provider ${method} failed`, raw);
+      if (!isTransient(err) || attempt >= retries) throw err;
+
+      const backoff = RETRY_BASE_MS * 2 ** attempt + Math.random() * RETRY_BASE_MS;
+      const wait = Math.max(backoff, (err.retryAfter || 0) * 1000);
+      if (wait > MAX_RETRY_WAIT_MS) throw err;
+      console.warn(`Provider ${method}: ${err.code}, retrying in ${Math.round(wait)}ms`);
+      await sleep(wait);
+    }
+  }
+}
+
+function withRetries(base) {
+  const wrapped = { ...base };
+  // Optional methods stay undefined so callers can tell they are missing.
+  // Each attempt gets its own `signal`, aborted when it times out.
+  for (const method of METHODS.filter((name) => base[name])) {
+    wrapped[method] = (args) => callWithRetry(method, (signal) => base[method]({ ...args, signal }));
+  }
+  return wrapped;
+}
+
+export function getProvider() {
+  if (!provider) {
+    const name = process.env.IMAGE_PROVIDER || "gemini";
+    const factory = FACTORIES[name];
+    if (!factory) {
+      throw codedError(
+        "PROVIDER_NOT_CONFIGURED",
+        `Unknown IMAGE_PROVIDER "${name}". Expected one of: ${Object.keys(FACTORIES).join(", ")}`
+      );
+    }
+    provider = withRetries(factory());
+  }
+  return provider;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+  Object.assign(process.env, {
+    IMAGE_PROVIDER: "mock",
+    PROVIDER_TIMEOUT_MS: "20",
+    PROVIDER_RETRIES: "1",
+    PROVIDER_RETRY_BASE_MS: "0",
+  });
+});
+
+// Records the signal of each attempt and never answers on its own.
+const signals = vi.hoisted(() => []);
+vi.mock("./mock.js", () => ({
+  createMockProvider: () => ({
+    name: "mock",
+    generateImage: ({ signal }) => {
+      signals.push(signal);
+      return new Promise(() => {});
+    },
+  }),
+}));
+
+const { getProvider } = await import("./index.js");
+
+describe("provider timeouts", () => {
+  it("aborts each timed out attempt before retrying", async () => {
+    await expect(getProvider().generateImage({ prompt: "a cute cat" })).rejects.toMatchObject({ code: "UPSTREAM_TIMEOUT" });
+    expect(signals).toHaveLength(2);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+  });
+});
@@ -0,0 +1,204 @@
+import crypto from "crypto";
+import sharp from "sharp";
+import { codedError } from "../errors.js";
+
+// Offline provider for development, demos and end-to-end runs. Output is a
+// pure function of the request, so the same prompt always renders the same
+// placeholder and expands to the same variations.
+
+const MODIFIERS = [
+  "in soft pastel colors",
+  "as minimalist line art",
+  "with bold geometric shapes",
+  "in a retro 70s palette",
+  "with a playful cartoon look",
+  "in monochrome ink",
+  "with neon accents",
+  "in a hand-drawn sketch style",
+  "with a glossy finish",
+  "in earthy natural tones",
+  "as a cute kawaii character",
+  "with a vintage texture",
+  "in a bold pop-art style",
+  "with a subtle gradient glow",
+  "in a clean corporate style",
+  "as a tiny isometric scene",
+  "with a watercolor wash",
+  "in high-contrast black and gold",
+  "with a paper-cut layered look",
+  "in a futuristic chrome style",
+];
+
+const PALETTES = [
+  ["#6366f1", "#a855f7", "#f59e0b", "#1e293b"],
+  ["#0ea5e9", "#22c55e", "#facc15", "#0f172a"],
+  ["#ef4444", "#f97316", "#fde047", "#431407"],
+  ["#14b8a6", "#3b82f6", "#f472b6", "#172554"],
+  ["#84cc16", "#10b981", "#06b6d4", "#1c1917"],
+];
+
+function seedFrom(text) {
+  return crypto.createHash("sha256").update(text).digest().readUInt32LE(0);
+}
+
+function random(seed) {
+  let state = seed || 1;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function escapeXml(text) {
+  return text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function dimensions(aspectRatio = "1:1") {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  if (!w || !h) return { width: 1024, height: 1024 };
+  return w >= h
+    ? { width: 1024, height: Math.round((1024 * h) / w) }
+    : { width: Math.round((1024 * w) / h), height: 1024 };
+}
+
+function subjectLabel(prompt) {
+  const firstLine = prompt.split("\n")[0].replace(/^[^:]*:\s*/, "").replace(/\.$/, "");
+  const words = firstLine.split(/\s+/).slice(0, 4).join(" ");
+  return words.length > 28 ? `${words.slice(0, 27)}…` : words;
+}
+
+function renderSvg(prompt, aspectRatio, keyColor, tint) {
+  const next = random(seedFrom(`${prompt}|${aspectRatio}|${tint || ""}`));
+  const { width, height } = dimensions(aspectRatio);
+  const base = PALETTES[Math.floor(next() * PALETTES.length)];
+  const palette = tint ? [tint, ...base.slice(1)] : base;
+  const size = Math.min(width, height);
+  const cx = width / 2;
+  const cy = height / 2;
+  const background = keyColor || `hsl(${Math.floor(next() * 360)}, 60%, 94%)`;
+
+  const shapes = [];
+  const body = size * (0.26 + next() * 0.06);
+  shapes.push(`<circle cx="${cx}" cy="${cy}" r="${body}" fill="${palette[0]}" stroke="#ffffff" stroke-width="${size * 0.03}"/>`);
+
+  for (let i = 0; i < 5; i++) {
+    const angle = next() * Math.PI * 2;
+    const distance = body * (0.35 + next() * 0.4);
+    const r = size * (0.03 + next() * 0.06);
+    const color = palette[1 + Math.floor(next() * 2)];
+    shapes.push(`<circle cx="${cx + Math.cos(angle) * distance}" cy="${cy + Math.sin(angle) * distance}" r="${r}" fill="${color}"/>`);
+  }
+
+  const points = Array.from({ length: 10 }, (_, i) => {
+    const radius = i % 2 === 0 ? size * 0.12 : size * 0.05;
+    const angle = (i / 10) * Math.PI * 2 - Math.PI / 2;
+    return `${cx + Math.cos(angle) * radius},${cy - body * 0.1 + Math.sin(angle) * radius}`;
+  });
+  shapes.push(`<polygon points="${points.join(" ")}" fill="${palette[2]}" stroke="${palette[3]}" stroke-width="${size * 0.006}"/>`);
+
+  const label = escapeXml(subjectLabel(prompt));
+  shapes.push(
+    `<text x="${cx}" y="${cy + body * 0.62}" font-family="sans-serif" font-weight="700" font-size="${size * 0.045}" fill="#ffffff" text-anchor="middle">${label}</text>`
+  );
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+<rect width="100%" height="100%" fill="${background}"/>
+${shapes.join("\n")}
+</svg>`;
+}
+
+async function dominantColor(base64) {
+  const { dominant } = await sharp(Buffer.from(base64, "base64")).stats();
+  return `#${[dominant.r, dominant.g, dominant.b].map((value) => value.toString(16).padStart(2, "0")).join("")}`;
+}
+
+// Upstream failures shaped like the Gemini SDK's ApiError, so the error
+// contract and retry policy can be exercised offline.
+function upstreamError(status, statusText, message, details = []) {
+  const err = new Error(JSON.stringify({ error: { code: status, status: statusText, message, details } }));
+  return Object.assign(err, { name: "ApiError", status });
+}
+
+const FAILURES = {
+  rate_limited: () =>
+    upstreamError(429, "RESOURCE_EXHAUSTED", "Quota exceeded", [
+      { "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "1s" },
+    ]),
+  unavailable: () => upstreamError(503, "UNAVAILABLE", "The model is overloaded"),
+  auth: () => upstreamError(403, "PERMISSION_DENIED", "API key not valid"),
+  timeout: () => Object.assign(new Error("This operation was aborted"), { name: "AbortError" }),
+  safety: () => codedError("SAFETY_BLOCKED", "The request was blocked by the image service's safety filters"),
+};
+
+// Simulated latency ends early, like a real request, when `signal` aborts.
+function sleep(ms, signal) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(FAILURES.timeout());
+      },
+      { once: true }
+    );
+  });
+}
+
+export function createMockProvider({ latencyMs = 0, fail = null, failTimes = Infinity } = {}) {
+  if (fail && fail !== "no_image" && !FAILURES[fail]) {
+    throw new Error(`Unknown MOCK_FAIL "${fail}". Expected one of: no_image, ${Object.keys(FAILURES).join(", ")}`);
+  }
+  let failures = 0;
+  // `no_image` answers without an image; every other mode throws.
+  const simulateFailure = () => {
+    if (!fail || failures >= failTimes) return false;
+    failures++;
+    if (fail === "no_image") return true;
+    throw FAILURES[fail]();
+  };
+
+  return {
+    name: "mock",
+    imageModel: "mock-image",
+    textModel: "mock-text",
+
+    async generateImage({ prompt, aspectRatio, keyColor, references = [], signal }) {
+      if (latencyMs) await sleep(latencyMs, signal);
+      if (simulateFailure()) return null;
+      // A reference shows up as the main shape taking its dominant color.
+      const tint = references.length ? await dominantColor(references[0].data) : null;
+      const png = await sharp(Buffer.from(renderSvg(prompt, aspectRatio, keyColor, tint))).png().toBuffer();
+      return { data: png.toString("base64"), mimeType: "image/png" };
+    },
+
+    // Draws a ring whose color comes from the instruction, so edits are
+    // visible and repeatable. Hues stop short of magenta, the usual key color.
+    async editImage({ prompt, image, signal }) {
+      if (latencyMs) await sleep(latencyMs, signal);
+      if (simulateFailure()) return null;
+      const source = sharp(Buffer.from(image.data, "base64"));
+      const { width, height } = await source.metadata();
+      const size = Math.min(width, height);
+      const ring = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><circle cx="${width / 2}" cy="${height / 2}" r="${size * 0.36}" fill="none" stroke="hsl(${seedFrom(prompt) % 240}, 80%, 50%)" stroke-width="${size * 0.04}"/></svg>`;
+      const png = await source.composite([{ input: Buffer.from(ring) }]).png().toBuffer();
+      return { data: png.toString("base64"), mimeType: "image/png" };
+    },
+
+    // Skips excluded prompts, so regenerating one variation yields a new one.
+    async expandVariations({ prompt, count, exclude = [], signal }) {
+      if (latencyMs) await sleep(latencyMs, signal);
+      const offset = seedFrom(prompt) % MODIFIERS.length;
+      const variations = [];
+      for (let i = 0; variations.length < count && i < count + exclude.length; i++) {
+        const modifier = MODIFIERS[(offset + i) % MODIFIERS.length];
+        const round = Math.floor(i / MODIFIERS.length);
+        const variation = round ? `${prompt}, ${modifier} (take ${round + 1})` : `${prompt}, ${modifier}`;
+        if (!exclude.includes(variation)) variations.push(variation);
+      }
+      return variations;
+    },
+  };
+}
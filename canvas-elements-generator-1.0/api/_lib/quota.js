@@ -0,0 +1,186 @@
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+// Counts image generations per client identity in fixed time windows.
+// QUOTA_LIMIT images are allowed per QUOTA_WINDOW_MS.
+const LIMIT = Number(process.env.QUOTA_LIMIT ?? 60);
+const WINDOW_MS = Number(process.env.QUOTA_WINDOW_MS ?? 24 * 60 * 60 * 1000);
+
+export function createMemoryCounterStore() {
+  const counters = new Map();
+
+  return {
+    async get(key, windowStart) {
+      const counter = counters.get(key);
+      return counter && counter.windowStart === windowStart ? counter.used : 0;
+    },
+    async add(key, windowStart, amount) {
+      const counter = counters.get(key);
+      const used = Math.max(0, (counter && counter.windowStart === windowStart ? counter.used : 0) + amount);
+      counters.set(key, { windowStart, used });
+      return used;
+    },
+  };
+}
+
+export function createFileCounterStore(dir) {
+  const fileFor = (key) => path.join(dir, `${crypto.createHash("sha256").update(key).digest("hex")}.json`);
+  let queue = Promise.resolve();
+
+  const read = async (key, windowStart) => {
+    try {
+      const counter = JSON.parse(await fs.readFile(fileFor(key), "utf8"));
+      return counter.windowStart === windowStart ? counter.used : 0;
+    } catch (err) {
+      if (err.code === "ENOENT") return 0;
+      throw err;
+    }
+  };
+
+  return {
+    get: read,
+    add(key, windowStart, amount) {
+      const task = queue.then(async () => {
+        const used = Math.max(0, (await read(key, windowStart)) + amount);
+        await fs.mkdir(dir, { recursive: true });
+        await fs.writeFile(fileFor(key), JSON.stringify({ windowStart, used }));
+        return used;
+      });
+      queue = task.catch(() => {});
+      return task;
+    },
+  };
+}
+
+let store = null;
+
+function getCounterStore() {
+  if (!store) {
+    store = process.env.QUOTA_STORE === "memory"
+      ? createMemoryCounterStore()
+      : createFileCounterStore(process.env.QUOTA_STORE_DIR || path.join(os.tmpdir(), "canvas-elements-quota"));
+  }
+  return store;
+}
+
+function sign(id) {
+  return crypto.createHmac("sha256", process.env.QUOTA_SECRET).update(id).digest("base64url");
+}
+
+// Token identity only applies when QUOTA_IDENTITY=token and QUOTA_SECRET is
+// set. It is meant for deployments where many users share one IP; anyone can
+// request a fresh token, so IP identity remains the stricter default.
+function tokenMode() {
+  return process.env.QUOTA_IDENTITY === "token" && !!process.env.QUOTA_SECRET;
+}
+
+function verifyToken(token) {
+  if (typeof token !== "string") return null;
+  const [id, signature] = token.split(".");
+  if (!id || !signature) return null;
+  const expected = sign(id);
+  if (expected.length !== signature.length) return null;
+  return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature)) ? id : null;
+}
+
+export function needsToken(req) {
+  return tokenMode() && !verifyToken(req.headers["x-client-token"]);
+}
+
+export function issueToken() {
+  const id = crypto.randomUUID();
+  return { token: `${id}.${sign(id)}`, key: `token:${id}` };
+}
+
+// QUOTA_TRUSTED_PROXIES is how many proxies in front of the app append to
+// X-Forwarded-For (1 on Vercel or behind a single load balancer). Only the
+// entries they added are trusted: the client can put anything before them.
+// Without trusted proxies the header is ignored and the socket address counts.
+function trustedProxies() {
+  return Math.max(0, Math.floor(Number(process.env.QUOTA_TRUSTED_PROXIES) || 0));
+}
+
+function clientAddress(req) {
+  const socket = req.socket?.remoteAddress;
+  const proxies = trustedProxies();
+  if (proxies === 0) return socket;
+
+  const hops = String(req.headers["x-forwarded-for"] || "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - proxies] || socket;
+}
+
+export function clientIdentity(req) {
+  if (tokenMode()) {
+    const id = verifyToken(req.headers["x-client-token"]);
+    if (id) return `token:${id}`;
+  }
+
+  return `ip:${clientAddress(req) || "unknown"}`;
+}
+
+function windowFor(now = Date.now()) {
+  return Math.floor(now / WINDOW_MS) * WINDOW_MS;
+}
+
+function toStatus(key, windowStart, used) {
+  return {
+    key,
+    windowStart,
+    limit: LIMIT,
+    used: Math.min(used, LIMIT),
+    remaining: Math.max(0, LIMIT - used),
+    resetAt: windowStart + WINDOW_MS,
+  };
+}
+
+export async function getQuota(key) {
+  const windowStart = windowFor();
+  return toStatus(key, windowStart, await getCounterStore().get(key, windowStart));
+}
+
+// Reserves `amount` generations up front. The reservation is rejected as a
+// whole when it does not fit, so a batch never starts half-funded.
+export async function consumeQuota(req, amount) {
+  const key = clientIdentity(req);
+  const windowStart = windowFor();
+  const counters = getCounterStore();
+
+  const used = await counters.add(key, windowStart, amount);
+  if (used > LIMIT) {
+    const restored = await counters.add(key, windowStart, -amount);
+    return { allowed: false, quota: toStatus(key, windowStart, restored) };
+  }
+  return { allowed: true, quota: toStatus(key, windowStart, used) };
+}
+
+// Gives back reserved generations that never produced an image. Refunds for
+// a window that has already rolled over are dropped.
+export async function refundQuota({ key, windowStart }, amount) {
+  if (amount <= 0 || windowStart !== windowFor()) return;
+  await getCounterStore().add(key, windowStart, -amount);
+}
+
+export function publicQuota({ limit, used, remaining, resetAt }) {
+  return { limit, used, remaining, resetAt };
+}
+
+export function setQuotaHeaders(res, quota) {
+  res.setHeader("X-RateLimit-Limit", String(quota.limit));
+  res.setHeader("X-RateLimit-Remaining", String(quota.remaining));
+  res.setHeader("X-RateLimit-Reset", String(Math.ceil(quota.resetAt / 1000)));
+}
+
+export function sendQuotaExceeded(res, quota, requested) {
+  setQuotaHeaders(res, quota);
+  res.setHeader("Retry-After", String(Math.max(1, Math.ceil((quota.resetAt - Date.now()) / 1000))));
+  return res.status(429).json({
+    error: `Generation quota exceeded: ${requested} requested, ${quota.remaining} of ${quota.limit} left until ${new Date(quota.resetAt).toISOString()}.`,
+    code: "QUOTA_EXCEEDED",
+    quota: publicQuota(quota),
+  });
+}
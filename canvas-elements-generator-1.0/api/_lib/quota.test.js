@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+  Object.assign(process.env, { QUOTA_STORE: "memory", QUOTA_LIMIT: "5" });
+});
+
+const { clientIdentity, consumeQuota, issueToken, needsToken, refundQuota } = await import("./quota.js");
+
+const request = (headers = {}, remoteAddress = "10.0.0.9") => ({ headers, socket: { remoteAddress } });
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("clientIdentity", () => {
+  it("ignores X-Forwarded-For without a trusted proxy", () => {
+    expect(clientIdentity(request({ "x-forwarded-for": "1.1.1.1" }))).toBe("ip:10.0.0.9");
+  });
+
+  it("takes the hop added by the trusted proxy, not what the client sent", () => {
+    vi.stubEnv("QUOTA_TRUSTED_PROXIES", "1");
+    expect(clientIdentity(request({ "x-forwarded-for": "1.1.1.1, 203.0.113.7" }))).toBe("ip:203.0.113.7");
+    expect(clientIdentity(request({ "x-forwarded-for": "203.0.113.7" }))).toBe("ip:203.0.113.7");
+
+    vi.stubEnv("QUOTA_TRUSTED_PROXIES", "2");
+    expect(clientIdentity(request({ "x-forwarded-for": "1.1.1.1, 203.0.113.7, 10.0.0.2" }))).toBe("ip:203.0.113.7");
+  });
+
+  it("falls back to the socket when the proxies added fewer hops", () => {
+    vi.stubEnv("QUOTA_TRUSTED_PROXIES", "2");
+    expect(clientIdentity(request({ "x-forwarded-for": "203.0.113.7" }))).toBe("ip:10.0.0.9");
+    expect(clientIdentity(request())).toBe("ip:10.0.0.9");
+  });
+
+  it("uses signed tokens only in token mode", () => {
+    vi.stubEnv("QUOTA_IDENTITY", "token");
+    vi.stubEnv("QUOTA_SECRET", "test-secret");
+    const { token, key } = issueToken();
+    expect(clientIdentity(request({ "x-client-token": token }))).toBe(key);
+    expect(needsToken(request({ "x-client-token": token }))).toBe(false);
+
+    const forged = `${token.split(".")[0]}.not-the-signature`;
+    expect(needsToken(request({ "x-client-token": forged }))).toBe(true);
+    expect(clientIdentity(request({ "x-client-token": forged }))).toBe("ip:10.0.0.9");
+  });
+});
+
+describe("consumeQuota", () => {
+  it("reserves whole batches and refunds unused generations", async () => {
+    const req = request({}, "198.51.100.1");
+    const first = await consumeQuota(req, 3);
+    expect(first).toMatchObject({ allowed: true, quota: { used: 3, remaining: 2 } });
+
+    const tooMany = await consumeQuota(req, 3);
+    expect(tooMany).toMatchObject({ allowed: false, quota: { used: 3, remaining: 2 } });
+
+    await refundQuota(first.quota, 2);
+    expect(await consumeQuota(req, 4)).toMatchObject({ allowed: true, quota: { used: 5, remaining: 0 } });
+  });
+
+  it("counts spoofed forwarding headers against the real address", async () => {
+    await consumeQuota(request({ "x-forwarded-for": "1.1.1.1" }, "198.51.100.2"), 5);
+    const spoofed = await consumeQuota(request({ "x-forwarded-for": "2.2.2.2" }, "198.51.100.2"), 1);
+    expect(spoofed.allowed).toBe(false);
+  });
+});
@@ -0,0 +1,32 @@
+// Reference images for image-to-image generation. Clients send base64 or data
+// URLs; prepareReferences in generation.js normalizes them once on arrival so
+// jobs store a bounded payload.
+
+export const MAX_REFERENCES = 3;
+export const DEFAULT_STRENGTH = 0.6;
+
+const MAX_REFERENCE_BYTES = 4 * 1024 * 1024;
+const ACCEPTED_TYPES = ["image/png", "image/jpeg", "image/webp", "image/gif"];
+
+export function splitDataUrl(reference) {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(reference.data || "");
+  return match ? { mimeType: match[1], data: match[2] } : { mimeType: reference.mimeType, data: reference.data };
+}
+
+export function validateReferences(references, strength) {
+  if (references === undefined || references === null) return null;
+  if (!Array.isArray(references)) return "References must be an array";
+  if (references.length > MAX_REFERENCES) return `At most ${MAX_REFERENCES} reference images are allowed`;
+
+  for (const reference of references) {
+    const { mimeType, data } = splitDataUrl(reference || {});
+    if (typeof data !== "string" || !data) return "Reference image data is missing";
+    if (!ACCEPTED_TYPES.includes(mimeType)) return `Unsupported reference image type: ${mimeType}`;
+    if ((data.length * 3) / 4 > MAX_REFERENCE_BYTES) return "Reference image is too large";
+  }
+
+  if (strength !== undefined && (typeof strength !== "number" || strength < 0 || strength > 1)) {
+    return "Strength must be a number between 0 and 1";
+  }
+  return null;
+}
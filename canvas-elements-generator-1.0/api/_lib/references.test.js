@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { MAX_REFERENCES, splitDataUrl, validateReferences } from "./references.js";
+
+describe("splitDataUrl", () => {
+  it("reads data URLs and passes plain base64 through", () => {
+    expect(splitDataUrl({ data: "data:image/webp;base64,AAAA" })).toEqual({ mimeType: "image/webp", data: "AAAA" });
+    expect(splitDataUrl({ mimeType: "image/png", data: "AAAA" })).toEqual({ mimeType: "image/png", data: "AAAA" });
+  });
+});
+
+describe("validateReferences", () => {
+  const png = { mimeType: "image/png", data: "AAAA" };
+
+  it("accepts no references and up to the limit", () => {
+    expect(validateReferences(undefined)).toBeNull();
+    expect(validateReferences(Array(MAX_REFERENCES).fill(png), 0.5)).toBeNull();
+  });
+
+  it("rejects malformed references", () => {
+    expect(validateReferences(png)).toBe("References must be an array");
+    expect(validateReferences(Array(MAX_REFERENCES + 1).fill(png))).toMatch(/At most/);
+    expect(validateReferences([{ mimeType: "image/png" }])).toBe("Reference image data is missing");
+    expect(validateReferences([null])).toBe("Reference image data is missing");
+    expect(validateReferences([{ data: "data:image/svg+xml;base64,AAAA" }])).toBe("Unsupported reference image type: image/svg+xml");
+    expect(validateReferences([{ mimeType: "image/png", data: "A".repeat(6 * 1024 * 1024) }])).toBe("Reference image is too large");
+  });
+
+  it("keeps strength between 0 and 1", () => {
+    expect(validateReferences([png], 1.5)).toBe("Strength must be a number between 0 and 1");
+    expect(validateReferences([png], "0.5")).toBe("Strength must be a number between 0 and 1");
+  });
+});
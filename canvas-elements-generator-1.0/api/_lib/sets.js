@@ -0,0 +1,82 @@
+import sharp from "sharp";
+import { sanitizeText } from "./moderation.js";
+import { getPreset } from "./presets.js";
+
+// Set mode renders a batch as one family of icons or sprites. Every item shares
+// a style anchor (the `style` descriptor and a reference image) and is
+// normalized onto the same square canvas with the same padding.
+
+export const SET_SIZES = [64, 128, 256, 512];
+export const DEFAULT_SET_SIZE = 256;
+
+const MAX_STYLE_LENGTH = 200;
+// Alpha at or below this counts as background when measuring the subject.
+const ALPHA_THRESHOLD = 8;
+
+export function validateSetOptions(set, type) {
+  if (set === undefined || set === null) return null;
+  if (typeof set !== "object" || Array.isArray(set)) return "Set options must be an object";
+  const output = getPreset(type)?.output;
+  if (!output?.transparent || output.motion) return "Set mode needs a transparent still type such as Sticker or PNG Element";
+  if (set.style !== undefined && (typeof set.style !== "string" || set.style.length > MAX_STYLE_LENGTH)) {
+    return `Set style must be at most ${MAX_STYLE_LENGTH} characters`;
+  }
+  if (set.size !== undefined && !SET_SIZES.includes(set.size)) {
+    return `Set size must be one of ${SET_SIZES.join(", ")}`;
+  }
+  const size = set.size ?? DEFAULT_SET_SIZE;
+  if (set.padding !== undefined && (!Number.isInteger(set.padding) || set.padding < 0 || set.padding > size / 4)) {
+    return `Set padding must be a whole number of pixels up to ${size / 4}`;
+  }
+  return null;
+}
+
+// Call only after validateSetOptions accepted the options.
+export function normalizeSetOptions(set) {
+  if (!set) return null;
+  const size = set.size ?? DEFAULT_SET_SIZE;
+  return {
+    style: sanitizeText(set.style || ""),
+    size,
+    padding: set.padding ?? Math.round(size / 16),
+  };
+}
+
+function subjectBounds(data, width, height) {
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] <= ALPHA_THRESHOLD) continue;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < top) top = y;
+      if (y > bottom) bottom = y;
+    }
+  }
+  return right < 0 ? null : { left, top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+// Crops to the visible subject and centers it on a `size` square, scaled so
+// its longer side fills the space inside `padding`.
+export async function normalizeToCanvas(imageBase64, { size, padding }) {
+  const { data, info } = await sharp(Buffer.from(imageBase64, "base64"))
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const bounds = subjectBounds(data, info.width, info.height) || { left: 0, top: 0, width: info.width, height: info.height };
+  const inner = size - padding * 2;
+
+  const subject = await sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } })
+    .extract(bounds)
+    .resize(inner, inner, { fit: "contain", background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .png()
+    .toBuffer();
+  const buffer = await sharp(subject)
+    .extend({ top: padding, bottom: padding, left: padding, right: padding, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .png()
+    .toBuffer();
+  return { mimeType: "image/png", data: buffer.toString("base64") };
+}
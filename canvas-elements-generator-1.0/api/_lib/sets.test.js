@@ -0,0 +1,61 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import { normalizeSetOptions, normalizeToCanvas, validateSetOptions } from "./sets.js";
+
+// A 100x60 transparent image with an opaque 20x10 block at (30, 20).
+async function offCenterSubject() {
+  const block = await sharp({ create: { width: 20, height: 10, channels: 4, background: "#ff0000" } }).png().toBuffer();
+  const buffer = await sharp({ create: { width: 100, height: 60, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+    .composite([{ input: block, left: 30, top: 20 }])
+    .png()
+    .toBuffer();
+  return buffer.toString("base64");
+}
+
+describe("validateSetOptions", () => {
+  it("accepts no set and well-formed options", () => {
+    expect(validateSetOptions(undefined, "Sticker")).toBeNull();
+    expect(validateSetOptions({ style: "flat line icons", size: 128, padding: 32 }, "Sticker")).toBeNull();
+  });
+
+  it("rejects types that are not transparent stills", () => {
+    expect(validateSetOptions({}, "Photo")).toMatch(/transparent still type/);
+    expect(validateSetOptions({}, "GIF (Motion)")).toMatch(/transparent still type/);
+  });
+
+  it("rejects bad sizes, padding and styles", () => {
+    expect(validateSetOptions([], "Sticker")).toBe("Set options must be an object");
+    expect(validateSetOptions({ size: 100 }, "Sticker")).toBe("Set size must be one of 64, 128, 256, 512");
+    expect(validateSetOptions({ size: 64, padding: 17 }, "Sticker")).toBe("Set padding must be a whole number of pixels up to 16");
+    expect(validateSetOptions({ padding: 1.5 }, "Sticker")).toMatch(/whole number/);
+    expect(validateSetOptions({ style: "x".repeat(201) }, "Sticker")).toMatch(/at most 200/);
+  });
+});
+
+describe("normalizeSetOptions", () => {
+  it("fills in the default size and padding", () => {
+    expect(normalizeSetOptions(null)).toBeNull();
+    expect(normalizeSetOptions({})).toEqual({ style: "", size: 256, padding: 16 });
+    expect(normalizeSetOptions({ style: "  flat   icons ", size: 64 })).toEqual({ style: "flat icons", size: 64, padding: 4 });
+  });
+});
+
+describe("normalizeToCanvas", () => {
+  it("centers the cropped subject inside the padding", async () => {
+    const image = await normalizeToCanvas(await offCenterSubject(), { size: 64, padding: 8 });
+    expect(image.mimeType).toBe("image/png");
+
+    const { data, info } = await sharp(Buffer.from(image.data, "base64")).raw().toBuffer({ resolveWithObject: true });
+    expect([info.width, info.height]).toEqual([64, 64]);
+    const alphaAt = (x, y) => data[(y * info.width + x) * 4 + 3];
+    // The 2:1 subject fills the 48px inner width and is centered vertically.
+    expect(alphaAt(8, 32)).toBe(255);
+    expect(alphaAt(55, 32)).toBe(255);
+    expect(alphaAt(7, 32)).toBe(0);
+    expect(alphaAt(56, 32)).toBe(0);
+    expect(alphaAt(32, 20)).toBe(255);
+    expect(alphaAt(32, 19)).toBe(0);
+    expect(alphaAt(32, 43)).toBe(255);
+    expect(alphaAt(32, 44)).toBe(0);
+  });
+});
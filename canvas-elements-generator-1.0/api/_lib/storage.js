@@ -0,0 +1,139 @@
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+// Generated files are stored under the SHA-256 of their bytes and served by
+// /api/files, so responses and job state carry short URLs instead of base64.
+// Identical outputs share one file and a URL never changes what it points to.
+// Both adapters expose the same async put/get/has/delete contract. Storing
+// bytes that are already there refreshes the file's stored time, and
+// `delete(key, { storedBefore })` leaves files stored since then alone, so a
+// caller reclaiming its own files cannot pull one out from under a job or edit
+// that just produced the same content.
+
+const EXTENSIONS = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "video/mp4": "mp4",
+};
+
+export const MIME_TYPES = Object.fromEntries(Object.entries(EXTENSIONS).map(([mimeType, ext]) => [ext, mimeType]));
+
+const KEY_PATTERN = /^[a-f0-9]{64}\.(png|jpg|webp|gif|mp4)$/;
+
+export const isFileKey = (key) => typeof key === "string" && KEY_PATTERN.test(key);
+
+export const fileUrl = (key) => `/api/files?key=${key}`;
+
+export function keyFromUrl(url) {
+  const match = /[?&]key=([^&]+)/.exec(url || "");
+  return match && isFileKey(match[1]) ? match[1] : null;
+}
+
+function contentKey(buffer, mimeType) {
+  const ext = EXTENSIONS[mimeType];
+  if (!ext) throw new Error(`Cannot store files of type ${mimeType}`);
+  return `${crypto.createHash("sha256").update(buffer).digest("hex")}.${ext}`;
+}
+
+export function createMemoryStorage() {
+  const files = new Map();
+
+  return {
+    async put(buffer, mimeType) {
+      const key = contentKey(buffer, mimeType);
+      files.set(key, { buffer: Buffer.from(buffer), storedAt: Date.now() });
+      return key;
+    },
+    async get(key) {
+      return files.get(key)?.buffer || null;
+    },
+    async has(key) {
+      return files.has(key);
+    },
+    async delete(key, { storedBefore = Infinity } = {}) {
+      const file = files.get(key);
+      if (!file || file.storedAt >= storedBefore) return false;
+      return files.delete(key);
+    },
+  };
+}
+
+export function createFileStorage(dir) {
+  // Two-character fan-out keeps directories small.
+  const fileFor = (key) => path.join(dir, key.slice(0, 2), key);
+
+  return {
+    async put(buffer, mimeType) {
+      const key = contentKey(buffer, mimeType);
+      const target = fileFor(key);
+      try {
+        const now = new Date();
+        await fs.utimes(target, now, now);
+        return key;
+      } catch {
+        // Not stored yet.
+      }
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(temp, buffer);
+      await fs.rename(temp, target);
+      return key;
+    },
+    async get(key) {
+      try {
+        return await fs.readFile(fileFor(key));
+      } catch (err) {
+        if (err.code === "ENOENT") return null;
+        throw err;
+      }
+    },
+    async has(key) {
+      try {
+        await fs.access(fileFor(key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    async delete(key, { storedBefore = Infinity } = {}) {
+      try {
+        const target = fileFor(key);
+        if ((await fs.stat(target)).mtimeMs >= storedBefore) return false;
+        await fs.unlink(target);
+        return true;
+      } catch (err) {
+        if (err.code === "ENOENT") return false;
+        throw err;
+      }
+    },
+  };
+}
+
+let storage = null;
+
+export function getStorage() {
+  if (!storage) {
+    storage = process.env.STORAGE_BACKEND === "memory"
+      ? createMemoryStorage()
+      : createFileStorage(process.env.STORAGE_DIR || path.join(os.tmpdir(), "canvas-elements-files"));
+  }
+  return storage;
+}
+
+// Stores a base64 payload and returns { mimeType, url }.
+export async function storeBase64(data, mimeType) {
+  const key = await getStorage().put(Buffer.from(data, "base64"), mimeType);
+  return { mimeType, url: fileUrl(key) };
+}
+
+// Reads a file back from its /api/files URL as { mimeType, data } in base64.
+export async function readStoredFile(url) {
+  const key = keyFromUrl(url);
+  const buffer = key ? await getStorage().get(key) : null;
+  if (!buffer) return null;
+  return { mimeType: MIME_TYPES[key.split(".")[1]], data: buffer.toString("base64") };
+}
@@ -0,0 +1,25 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { createFileStorage, createMemoryStorage } from "./storage.js";
+
+const dir = await fs.mkdtemp(path.join(os.tmpdir(), "storage-test-"));
+
+afterAll(() => fs.rm(dir, { recursive: true, force: true }));
+
+describe.each([
+  ["memory", createMemoryStorage()],
+  ["file", createFileStorage(dir)],
+])("%s storage", (_, storage) => {
+  it("deletes only files not stored again since the cutoff", async () => {
+    const key = await storage.put(Buffer.from("bytes"), "image/png");
+    const cutoff = Date.now() + 1000;
+    expect(await storage.delete(key, { storedBefore: Date.now() - 60 * 1000 })).toBe(false);
+    expect(await storage.get(key)).toEqual(Buffer.from("bytes"));
+
+    expect(await storage.delete(key, { storedBefore: cutoff })).toBe(true);
+    expect(await storage.has(key)).toBe(false);
+    expect(await storage.delete(key)).toBe(false);
+  });
+});
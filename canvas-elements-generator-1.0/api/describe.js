@@ -0,0 +1,46 @@
+export const config = {
+  runtime: "nodejs",
+};
+
+import { describeAsset, validateDescribeInput } from "./_lib/describe.js";
+import { sendBadInput, sendError } from "./_lib/errors.js";
+import { assertAllowed } from "./_lib/moderation.js";
+import { consumeQuota, refundQuota, sendQuotaExceeded, setQuotaHeaders } from "./_lib/quota.js";
+import { splitDataUrl } from "./_lib/references.js";
+
+// Alt text and tags suggested by the text model, on request from the
+// description panel. The image is optional. A call that reaches the model
+// counts against the quota like a generation; when the description falls
+// back to the prompt the charge is refunded.
+export default async function handler(req, res) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const { prompt, type, image } = req.body || {};
+
+    const invalid = validateDescribeInput({ prompt, type, image });
+    if (invalid) {
+      return sendBadInput(res, invalid);
+    }
+    const cleanPrompt = assertAllowed(prompt);
+
+    const { allowed, quota } = await consumeQuota(req, 1);
+    if (!allowed) {
+      return sendQuotaExceeded(res, quota, 1);
+    }
+    setQuotaHeaders(res, quota);
+
+    const { fromModel, ...description } = await describeAsset({
+      prompt: cleanPrompt,
+      type,
+      image: image ? splitDataUrl(image) : null,
+    });
+    if (!fromModel) await refundQuota(quota, 1);
+    res.status(200).json(description);
+  } catch (err) {
+    console.error(err);
+    sendError(res, err, "Describing the asset failed");
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+  Object.assign(process.env, { QUOTA_STORE: "memory" });
+});
+
+// The provider each test describes with; null leaves describeImage out.
+const upstream = vi.hoisted(() => ({ describeImage: null }));
+vi.mock("./_lib/providers/index.js", () => ({
+  getProvider: () => ({ name: "test", describeImage: upstream.describeImage }),
+}));
+
+const { default: handler } = await import("./describe.js");
+const { clientIdentity, getQuota } = await import("./_lib/quota.js");
+
+const PIXEL = { mimeType: "image/png", data: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=" };
+
+const request = (body, remoteAddress) => ({ method: "POST", body, headers: {}, socket: { remoteAddress } });
+
+function response() {
+  return {
+    statusCode: 200,
+    headers: {},
+    body: null,
+    setHeader(name, value) {
+      this.headers[name] = value;
+    },
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    },
+  };
+}
+
+async function describeFrom(address, body) {
+  const res = response();
+  await handler(request({ prompt: "a cute cat", type: "Sticker", ...body }, address), res);
+  const { used } = await getQuota(clientIdentity(request({}, address)));
+  return { res, used };
+}
+
+describe("POST /api/describe", () => {
+  it("charges a description the model wrote", async () => {
+    upstream.describeImage = async () => ({ altText: "A grey cat curled up asleep", tags: ["cat", "grey"] });
+    const { res, used } = await describeFrom("192.0.2.1", { image: PIXEL });
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ altText: "A grey cat curled up asleep", tags: ["cat", "grey"] });
+    expect(used).toBe(1);
+  });
+
+  it("refunds a description that fell back to the prompt", async () => {
+    upstream.describeImage = null;
+    const withoutModel = await describeFrom("192.0.2.2", { image: PIXEL });
+    expect(withoutModel.res.body).toEqual({ altText: "Sticker showing a cute cat", tags: ["sticker", "cute", "cat"] });
+    expect(withoutModel.used).toBe(0);
+
+    upstream.describeImage = async () => {
+      throw new Error("upstream down");
+    };
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect((await describeFrom("192.0.2.3", { image: PIXEL })).used).toBe(0);
+    expect((await describeFrom("192.0.2.3", {})).used).toBe(0);
+  });
+});
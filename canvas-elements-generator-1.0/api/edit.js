@@ -0,0 +1,43 @@
+export const config = {
+  runtime: "nodejs",
+};
+
+import { editAsset, validateEditInput } from "./_lib/editing.js";
+import { sendBadInput, sendError } from "./_lib/errors.js";
+import { assertAllowed } from "./_lib/moderation.js";
+import { consumeQuota, refundQuota, sendQuotaExceeded, setQuotaHeaders } from "./_lib/quota.js";
+
+export default async function handler(req, res) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const { image, mask, instruction, type } = req.body || {};
+
+    const invalid = validateEditInput({ image, mask, instruction, type });
+    if (invalid) {
+      return sendBadInput(res, invalid);
+    }
+    const cleanInstruction = assertAllowed(instruction);
+
+    const { allowed, quota } = await consumeQuota(req, 1);
+    if (!allowed) {
+      return sendQuotaExceeded(res, quota, 1);
+    }
+    setQuotaHeaders(res, quota);
+
+    let result;
+    try {
+      result = await editAsset({ image, mask, instruction: cleanInstruction, type });
+    } catch (err) {
+      await refundQuota(quota, 1);
+      throw err;
+    }
+
+    res.status(200).json(result);
+  } catch (err) {
+    console.error(err);
+    sendError(res, err, "Edit failed");
+  }
+}
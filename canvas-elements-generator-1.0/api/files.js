@@ -0,0 +1,42 @@
+export const config = {
+  runtime: "nodejs",
+};
+
+import { getStorage, isFileKey, MIME_TYPES } from "./_lib/storage.js";
+
+// Serves stored generation output by content hash. A key always names the
+// same bytes, so responses can be cached forever.
+export default async function handler(req, res) {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const key = String(req.query.key || "");
+    if (!isFileKey(key)) {
+      return res.status(404).json({ error: "File not found" });
+    }
+
+    const etag = `"${key.split(".")[0]}"`;
+    res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+    res.setHeader("ETag", etag);
+    if (req.headers["if-none-match"] === etag) {
+      res.statusCode = 304;
+      return res.end();
+    }
+
+    const buffer = await getStorage().get(key);
+    if (!buffer) {
+      res.setHeader("Cache-Control", "no-store");
+      return res.status(404).json({ error: "File not found" });
+    }
+
+    res.statusCode = 200;
+    res.setHeader("Content-Type", MIME_TYPES[key.split(".")[1]]);
+    res.setHeader("Content-Length", String(buffer.length));
+    res.end(req.method === "HEAD" ? undefined : buffer);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Could not read file" });
+  }
+}
@@ -2,7 +2,11 @@ export const config = {
   runtime: "nodejs",
 };
 
-import { GoogleGenAI } from "@google/genai";
+import { normalizeBrandKit } from "./_lib/brand.js";
+import { cacheRequested } from "./_lib/cache.js";
+import { sendBadInput, sendError } from "./_lib/errors.js";
+import { findCachedAsset, generateAsset, moderateRequest, prepareReferences, validateGenerationInput } from "./_lib/generation.js";
+import { consumeQuota, refundQuota, sendQuotaExceeded, setQuotaHeaders } from "./_lib/quota.js";
 
 export default async function handler(req, res) {
   if (req.method !== "POST") {
@@ -10,39 +14,41 @@ export default async function handler(req, res) {
   }
 
   try {
-    const { prompt, type } = req.body || {};
+    const { prompt, type, motion, references, strength, brandKit } = req.body || {};
 
-    if (!prompt || !type) {
-      return res.status(400).json({ error: "Missing prompt or type" });
+    const invalid = validateGenerationInput({ prompt, type, motion, references, strength, brandKit });
+    if (invalid) {
+      return sendBadInput(res, invalid);
     }
-
-    const ai = new GoogleGenAI({
-      apiKey: process.env.GOOGLE_API_KEY,
-    });
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-image",
-      contents: [{ parts: [{ text: prompt }] }],
-    });
-
-    let imageBase64 = "";
-
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        imageBase64 = part.inlineData.data;
-        break;
-      }
+    const kit = normalizeBrandKit(brandKit);
+    const cleanPrompt = moderateRequest(prompt, kit);
+    const prepared = await prepareReferences(references);
+    const input = { prompt: cleanPrompt, type, motion, references: prepared, strength, brandKit: kit };
+
+    // Cache hits never reach the model, so they are not counted.
+    const useCache = cacheRequested(req);
+    const cached = useCache ? await findCachedAsset(input) : null;
+    if (cached) {
+      return res.status(200).json(cached);
     }
 
-    if (!imageBase64) {
-      return res.status(500).json({ error: "No image generated" });
+    const { allowed, quota } = await consumeQuota(req, 1);
+    if (!allowed) {
+      return sendQuotaExceeded(res, quota, 1);
+    }
+    setQuotaHeaders(res, quota);
+
+    let result;
+    try {
+      result = await generateAsset(input, { cache: useCache });
+    } catch (err) {
+      await refundQuota(quota, 1);
+      throw err;
     }
 
-    res.status(200).json({
-      image: `data:image/png;base64,${imageBase64}`,
-    });
+    res.status(200).json(result);
   } catch (err) {
     console.error(err);
-    res.status(500).json({ error: "Generation failed" });
+    sendError(res, err, "Generation failed");
   }
 }
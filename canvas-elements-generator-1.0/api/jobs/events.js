@@ -0,0 +1,77 @@
+export const config = {
+  runtime: "nodejs",
+};
+
+import { ensureJobRunning, getJob, isFinished, summarizeJob } from "../_lib/jobs.js";
+
+const POLL_MS = 1000;
+// Serverless functions have a duration cap, so the stream closes on its own
+// and EventSource reconnects with the Last-Event-ID it last saw. Event ids are
+// the job's change sequence number.
+const STREAM_MS = 50 * 1000;
+
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const id = String(req.query.id || "");
+  const initial = await getJob(id);
+  if (!initial) {
+    return res.status(404).json({ error: "Job not found" });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+  });
+
+  // A new stream sends every item; a reconnect only what changed since.
+  const resumed = Number.parseInt(req.headers["last-event-id"], 10);
+  let since = Number.isNaN(resumed) ? -1 : resumed;
+  let closed = false;
+  const startedAt = Date.now();
+
+  const send = (event, data, eventId) => {
+    if (eventId !== undefined) res.write(`id: ${eventId}\n`);
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const close = () => {
+    closed = true;
+    res.end();
+  };
+  req.on("close", () => {
+    closed = true;
+  });
+
+  while (!closed) {
+    try {
+      const job = await getJob(id);
+      if (!isFinished(job)) ensureJobRunning(id);
+
+      const seq = job.seq || 0;
+      if (seq > since) {
+        for (const item of job.items) {
+          if ((item.seq || 0) > since) send("item", item);
+        }
+        send("job", summarizeJob(job, { includeResults: false }), seq);
+        since = seq;
+      }
+
+      if (isFinished(job)) {
+        send("end", { status: job.status });
+        return close();
+      }
+    } catch (err) {
+      console.error(`Job ${id}: event stream failed`, err);
+      send("failure", { error: "Job stream failed" });
+      return close();
+    }
+
+    if (Date.now() - startedAt > STREAM_MS) return close();
+    res.write(": keep-alive\n\n");
+    await new Promise((resolve) => setTimeout(resolve, POLL_MS));
+  }
+}
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+  Object.assign(process.env, {
+    IMAGE_PROVIDER: "mock",
+    JOB_STORE: "memory",
+    JOB_ITEM_DELAY_MS: "0",
+    QUOTA_STORE: "memory",
+    STORAGE_BACKEND: "memory",
+    CACHE_STORE: "memory",
+  });
+});
+
+const { default: handler } = await import("./events.js");
+const { createJob, getJob, isFinished } = await import("../_lib/jobs.js");
+
+// Collects the stream as [{ id, event, data }].
+async function stream(id, lastEventId) {
+  let body = "";
+  const req = { method: "GET", query: { id }, headers: lastEventId === undefined ? {} : { "last-event-id": String(lastEventId) }, on() {} };
+  const res = { writeHead() {}, write: (chunk) => (body += chunk), end() {} };
+  await handler(req, res);
+  return body
+    .split("\n\n")
+    .filter((block) => block.includes("event: "))
+    .map((block) => {
+      const field = (name) => block.match(new RegExp(`^${name}: (.*)$`, "m"))?.[1];
+      return { id: field("id"), event: field("event"), data: JSON.parse(field("data")) };
+    });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("GET /api/jobs/events", () => {
+  it("resumes after the last change even when changes share a millisecond", async () => {
+    vi.spyOn(Date, "now").mockReturnValue(Date.UTC(2026, 0, 1));
+    const prompts = ["a cute cat", "a cute dog"].map((text) => ({ text, blocked: null }));
+    const { id } = await createJob({ prompt: "cute pets", type: "Sticker", count: 2, prompts });
+    await vi.waitFor(async () => expect(isFinished(await getJob(id))).toBe(true));
+
+    const job = await getJob(id);
+    expect(new Set(job.items.map((item) => item.updatedAt)).size).toBe(1);
+
+    const fresh = await stream(id);
+    expect(fresh.filter((event) => event.event === "item").map((event) => event.data.index)).toEqual([0, 1]);
+    expect(fresh.find((event) => event.event === "job").id).toBe(String(job.seq));
+
+    const resumed = await stream(id, job.items[0].seq);
+    expect(resumed.filter((event) => event.event === "item").map((event) => event.data.index)).toEqual([1]);
+    expect(resumed.at(-1)).toMatchObject({ event: "end", data: { status: "completed" } });
+  });
+});
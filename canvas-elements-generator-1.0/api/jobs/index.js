@@ -0,0 +1,87 @@
+export const config = {
+  runtime: "nodejs",
+};
+
+import { normalizeBrandKit } from "../_lib/brand.js";
+import { cacheRequested } from "../_lib/cache.js";
+import { sendBadInput, sendError } from "../_lib/errors.js";
+import { moderateRequest, prepareReferences, validateGenerationInput } from "../_lib/generation.js";
+import { createJob, ensureJobRunning, getJob, isFinished, MAX_JOB_ITEMS, summarizeJob } from "../_lib/jobs.js";
+import { assertAllowed, blockedError, moderateText, validatePromptLength } from "../_lib/moderation.js";
+import { consumeQuota, sendQuotaExceeded, setQuotaHeaders } from "../_lib/quota.js";
+import { normalizeSetOptions, validateSetOptions } from "../_lib/sets.js";
+
+export default async function handler(req, res) {
+  try {
+    if (req.method === "POST") {
+      const { prompt, type, motion, references, strength, parentId, prompts, brandKit, set, count: requested } = req.body || {};
+      const count = Array.isArray(prompts) ? prompts.length : requested ?? 20;
+
+      const invalid = validateGenerationInput({ prompt, type, motion, references, strength, brandKit }) || validateSetOptions(set, type);
+      if (invalid) {
+        return sendBadInput(res, invalid);
+      }
+
+      if (prompts !== undefined && (!Array.isArray(prompts) || !prompts.every((text) => typeof text === "string" && text.trim()))) {
+        return sendBadInput(res, "Prompts must be a list of non-empty strings");
+      }
+
+      if (!Number.isInteger(count) || count < 1 || count > MAX_JOB_ITEMS) {
+        return sendBadInput(res, `Count must be between 1 and ${MAX_JOB_ITEMS}`);
+      }
+      const tooLong = prompts?.map((text) => validatePromptLength(text, "Each prompt")).find(Boolean);
+      if (tooLong) {
+        return sendBadInput(res, tooLong);
+      }
+
+      // Blocked prompts stay in the batch as blocked items; only the rest is charged.
+      const kit = normalizeBrandKit(brandKit);
+      const cleanPrompt = moderateRequest(prompt, kit);
+      const setOptions = normalizeSetOptions(set);
+      if (setOptions?.style) assertAllowed(setOptions.style);
+      const moderated = prompts?.map(moderateText);
+      const charged = moderated ? moderated.filter((entry) => !entry.blocked).length : count;
+      if (charged === 0) {
+        throw blockedError(moderated[0].blocked);
+      }
+      const prepared = await prepareReferences(references);
+
+      const { allowed, quota } = await consumeQuota(req, charged);
+      if (!allowed) {
+        return sendQuotaExceeded(res, quota, charged);
+      }
+      setQuotaHeaders(res, quota);
+
+      const job = await createJob({
+        prompt: cleanPrompt,
+        type,
+        motion,
+        count,
+        prompts: moderated,
+        references: prepared,
+        strength,
+        brandKit: kit,
+        set: setOptions,
+        cache: cacheRequested(req),
+        parentId: typeof parentId === "string" ? parentId : null,
+        quota,
+      });
+      return res.status(202).json({ job: summarizeJob(job) });
+    }
+
+    if (req.method === "GET") {
+      const job = await getJob(String(req.query.id || ""));
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      if (!isFinished(job)) ensureJobRunning(job.id);
+      return res.status(200).json({ job: summarizeJob(job) });
+    }
+
+    res.status(405).json({ error: "Method not allowed" });
+  } catch (err) {
+    console.error(err);
+    sendError(res, err, "Job request failed");
+  }
+}
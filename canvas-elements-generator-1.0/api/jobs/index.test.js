@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+  Object.assign(process.env, {
+    IMAGE_PROVIDER: "mock",
+    JOB_STORE: "memory",
+    JOB_ITEM_DELAY_MS: "0",
+    QUOTA_STORE: "memory",
+    STORAGE_BACKEND: "memory",
+    CACHE_STORE: "memory",
+  });
+});
+
+const { default: handler } = await import("./index.js");
+
+function response() {
+  return {
+    statusCode: 200,
+    headers: {},
+    body: null,
+    setHeader(name, value) {
+      this.headers[name] = value;
+    },
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    },
+  };
+}
+
+describe("POST /api/jobs", () => {
+  it("answers a request without a body with the bad input contract", async () => {
+    const res = response();
+    await handler({ method: "POST", headers: {}, socket: { remoteAddress: "192.0.2.10" } }, res);
+    expect(res.statusCode).toBe(400);
+    expect(res.body.code).toBe("BAD_INPUT");
+  });
+});
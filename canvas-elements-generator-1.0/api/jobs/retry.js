@@ -0,0 +1,51 @@
+export const config = {
+  runtime: "nodejs",
+};
+
+import { sendBadInput, sendError } from "../_lib/errors.js";
+import { getJob, retryableCount, retryJobItems, summarizeJob } from "../_lib/jobs.js";
+import { clientIdentity, consumeQuota, sendQuotaExceeded, setQuotaHeaders } from "../_lib/quota.js";
+
+export default async function handler(req, res) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const { id, items } = req.body || {};
+
+    if (!id) {
+      return sendBadInput(res, "Missing job id");
+    }
+
+    if (items !== undefined && (!Array.isArray(items) || !items.every(Number.isInteger))) {
+      return sendBadInput(res, "Items must be a list of item indexes");
+    }
+
+    const existing = await getJob(id);
+    if (!existing) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    if (existing.owner !== clientIdentity(req)) {
+      return res.status(403).json({ error: "Only the client that started this job can retry it" });
+    }
+
+    const count = retryableCount(existing, items);
+    if (count === 0) {
+      return res.status(200).json({ job: summarizeJob(existing, { includeResults: false }) });
+    }
+
+    const { allowed, quota } = await consumeQuota(req, count);
+    if (!allowed) {
+      return sendQuotaExceeded(res, quota, count);
+    }
+    setQuotaHeaders(res, quota);
+
+    const job = await retryJobItems(id, items, quota);
+
+    res.status(200).json({ job: summarizeJob(job, { includeResults: false }) });
+  } catch (err) {
+    console.error(err);
+    sendError(res, err, "Retry failed");
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+  Object.assign(process.env, {
+    IMAGE_PROVIDER: "mock",
+    JOB_STORE: "memory",
+    JOB_ITEM_DELAY_MS: "0",
+    QUOTA_STORE: "memory",
+    STORAGE_BACKEND: "memory",
+    CACHE_STORE: "memory",
+  });
+});
+
+const { default: handler } = await import("./retry.js");
+const { createJob, getJob, isFinished } = await import("../_lib/jobs.js");
+const { consumeQuota } = await import("../_lib/quota.js");
+
+const request = (body, remoteAddress) => ({ method: "POST", body, headers: {}, socket: { remoteAddress } });
+
+function response() {
+  return {
+    statusCode: 200,
+    headers: {},
+    body: null,
+    setHeader(name, value) {
+      this.headers[name] = value;
+    },
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    },
+  };
+}
+
+describe("POST /api/jobs/retry", () => {
+  it("only lets the client that started a job retry it", async () => {
+    const owner = "192.0.2.10";
+    const { quota } = await consumeQuota(request({}, owner), 1);
+    const job = await createJob({ prompt: "a cute cat", type: "Sticker", count: 1, prompts: [{ text: "a cute cat", blocked: null }], quota });
+    await vi.waitFor(async () => expect(isFinished(await getJob(job.id))).toBe(true));
+
+    const stranger = response();
+    await handler(request({ id: job.id }, "192.0.2.99"), stranger);
+    expect(stranger.statusCode).toBe(403);
+
+    const own = response();
+    await handler(request({ id: job.id }, owner), own);
+    expect(own.statusCode).toBe(200);
+    expect(own.body.job).not.toHaveProperty("owner");
+  });
+});
@@ -0,0 +1,14 @@
+export const config = {
+  runtime: "nodejs",
+};
+
+import { listPresets } from "./_lib/presets.js";
+
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  res.setHeader("Cache-Control", "public, max-age=3600");
+  res.status(200).json({ presets: listPresets() });
+}
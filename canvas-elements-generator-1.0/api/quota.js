@@ -0,0 +1,23 @@
+export const config = {
+  runtime: "nodejs",
+};
+
+import { clientIdentity, getQuota, issueToken, needsToken, publicQuota, setQuotaHeaders } from "./_lib/quota.js";
+
+export default async function handler(req, res) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const issued = needsToken(req) ? issueToken() : null;
+    const quota = await getQuota(issued ? issued.key : clientIdentity(req));
+
+    setQuotaHeaders(res, quota);
+    res.setHeader("Cache-Control", "no-store");
+    res.status(200).json({ quota: publicQuota(quota), token: issued?.token || null });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "Quota lookup failed" });
+  }
+}
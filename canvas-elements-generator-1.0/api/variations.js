@@ -2,7 +2,10 @@ export const config = {
   runtime: "nodejs",
 };
 
-import { GoogleGenAI, Type } from "@google/genai";
+import { normalizeBrandKit } from "./_lib/brand.js";
+import { sendBadInput, sendError } from "./_lib/errors.js";
+import { generateVariations, moderateRequest, validateVariationInput } from "./_lib/generation.js";
+import { MAX_JOB_ITEMS } from "./_lib/jobs.js";
 
 export default async function handler(req, res) {
   if (req.method !== "POST") {
@@ -10,33 +13,30 @@ export default async function handler(req, res) {
   }
 
   try {
-    const { prompt, count = 10 } = req.body || {};
+    const { prompt, type, count = 10, diversity, exclude, brandKit } = req.body || {};
 
-    if (!prompt) {
-      return res.status(400).json({ error: "Missing prompt" });
+    const invalid = validateVariationInput({ prompt, type, diversity, exclude, brandKit });
+    if (invalid) {
+      return sendBadInput(res, invalid);
     }
 
-    const ai = new GoogleGenAI({
-      apiKey: process.env.GOOGLE_API_KEY,
-    });
+    if (!Number.isInteger(count) || count < 1 || count > MAX_JOB_ITEMS) {
+      return sendBadInput(res, `Count must be between 1 and ${MAX_JOB_ITEMS}`);
+    }
 
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: `Generate ${count} short visual prompt variations based on: "${prompt}"`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: { type: Type.STRING },
-        },
-      },
+    const kit = normalizeBrandKit(brandKit);
+    const { variations, blocked } = await generateVariations({
+      prompt: moderateRequest(prompt, kit),
+      type,
+      count,
+      diversity,
+      exclude,
+      brandKit: kit,
     });
 
-    const variations = JSON.parse(response.text || "[]");
-
-    res.status(200).json({ variations });
+    res.status(200).json({ variations, blocked });
   } catch (err) {
     console.error(err);
-    res.status(500).json({ error: "Variation generation failed" });
+    sendError(res, err, "Variation generation failed");
   }
 }
@@ -1,59 +1,117 @@
-
 import React from 'react';
 import { GeneratedAsset } from '../types';
+import { altTextOf } from '../services/assetLibrary';
 
 interface AssetCardProps {
   asset: GeneratedAsset;
   onPreview: (asset: GeneratedAsset) => void;
+  onToggleFavorite: (asset: GeneratedAsset) => void;
+  selecting?: boolean;
+  selected?: boolean;
+  onToggleSelect?: (asset: GeneratedAsset) => void;
+  // Roving tab stop: only the gallery's current card is reachable with Tab.
+  tabIndex?: number;
+  onFocus?: () => void;
 }
 
-export const AssetCard: React.FC<AssetCardProps> = ({ asset, onPreview }) => {
+export const AssetCard: React.FC<AssetCardProps> = ({
+  asset,
+  onPreview,
+  onToggleFavorite,
+  selecting = false,
+  selected = false,
+  onToggleSelect,
+  tabIndex = 0,
+  onFocus,
+}) => {
   return (
-    <div 
-      onClick={() => onPreview(asset)}
-      className="group relative bg-white rounded-2xl overflow-hidden border border-slate-200 shadow-sm hover:shadow-xl hover:-translate-y-1 transition-all duration-300 cursor-zoom-in"
+    <div
+      className={`group relative bg-white rounded-2xl overflow-hidden border shadow-sm hover:shadow-xl hover:-translate-y-1 focus-within:shadow-xl transition-all duration-300 [content-visibility:auto] ${
+        selected ? 'border-indigo-600 ring-4 ring-indigo-500/20' : 'border-slate-200'
+      }`}
     >
-      <div className="aspect-square w-full bg-slate-50 flex items-center justify-center overflow-hidden">
-        {asset.isVideo ? (
-          <video 
-            src={asset.url} 
-            className="w-full h-full object-cover" 
-            autoPlay 
-            loop 
-            muted 
-            playsInline
-          />
-        ) : (
-          <img 
-            src={asset.url} 
-            alt={asset.prompt} 
-            loading="lazy"
-            className="w-full h-full object-contain p-3 group-hover:scale-110 transition-transform duration-700 ease-out"
-          />
-        )}
+      {selecting && (
+        <div className={`absolute top-3 left-3 z-10 pointer-events-none w-6 h-6 rounded-lg border-2 flex items-center justify-center ${
+          selected ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white/90 border-slate-300'
+        }`}>
+          {selected && (
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7" />
+            </svg>
+          )}
+        </div>
+      )}
+      <button
+        type="button"
+        data-asset-card
+        tabIndex={tabIndex}
+        onFocus={onFocus}
+        onClick={() => (selecting ? onToggleSelect?.(asset) : onPreview(asset))}
+        aria-pressed={selecting ? selected : undefined}
+        aria-label={altTextOf(asset)}
+        className={`block w-full text-left outline-none focus-visible:ring-4 focus-visible:ring-inset focus-visible:ring-indigo-500/50 rounded-2xl ${
+          selecting ? 'cursor-pointer' : 'cursor-zoom-in'
+        }`}
+      >
+        <div className={`aspect-square w-full flex items-center justify-center overflow-hidden ${asset.hasAlpha ? 'alpha-grid' : 'bg-slate-50'}`}>
+          {asset.isVideo ? (
+            <video 
+              src={asset.url} 
+              className="w-full h-full object-cover" 
+              autoPlay 
+              loop 
+              muted 
+              playsInline
+            />
+          ) : (
+            <img 
+              src={asset.url} 
+              alt={altTextOf(asset)}
+              loading="lazy"
+              className="w-full h-full object-contain p-3 group-hover:scale-110 transition-transform duration-700 ease-out"
+            />
+          )}
         
-        {/* Quick action overlay */}
-        <div className="absolute inset-0 bg-indigo-900/10 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-          <div className="bg-white/90 backdrop-blur px-4 py-2 rounded-full shadow-lg transform scale-90 group-hover:scale-100 transition-transform font-bold text-indigo-600 text-xs">
-            Open Details
+          {/* Quick action overlay */}
+          <div className="absolute inset-0 bg-indigo-900/10 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity flex items-center justify-center">
+            <div className="bg-white/90 backdrop-blur px-4 py-2 rounded-full shadow-lg transform scale-90 group-hover:scale-100 transition-transform font-bold text-indigo-600 text-xs">
+              Open Details
+            </div>
           </div>
         </div>
-      </div>
-      <div className="p-4 bg-white">
-        <div className="flex items-center justify-between gap-2 mb-2">
-          <span className="text-[9px] font-black uppercase tracking-widest text-indigo-600 bg-indigo-50 px-2 py-1 rounded-md">
-            {asset.type}
-          </span>
-          <div className="flex gap-1">
-             <div className="w-1 h-1 rounded-full bg-slate-300"></div>
-             <div className="w-1 h-1 rounded-full bg-slate-300"></div>
-             <div className="w-1 h-1 rounded-full bg-slate-300"></div>
+        <div className="p-4 bg-white">
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <span className="text-[9px] font-black uppercase tracking-widest text-indigo-600 bg-indigo-50 px-2 py-1 rounded-md">
+              {asset.type}
+            </span>
+            <div className="flex gap-1">
+               <div className="w-1 h-1 rounded-full bg-slate-300"></div>
+               <div className="w-1 h-1 rounded-full bg-slate-300"></div>
+               <div className="w-1 h-1 rounded-full bg-slate-300"></div>
+            </div>
           </div>
+          <p className="text-xs text-slate-600 font-bold line-clamp-2 leading-relaxed">
+            {asset.prompt}
+          </p>
         </div>
-        <p className="text-xs text-slate-600 font-bold line-clamp-2 leading-relaxed">
-          {asset.prompt}
-        </p>
-      </div>
+      </button>
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          onToggleFavorite(asset);
+        }}
+        tabIndex={tabIndex}
+        title={asset.favorite ? 'Remove from favorites' : 'Add to favorites'}
+        aria-pressed={!!asset.favorite}
+        className={`absolute top-3 right-3 z-10 w-8 h-8 rounded-full flex items-center justify-center text-lg transition-all ${
+          asset.favorite
+            ? 'bg-amber-400 text-white shadow-md'
+            : 'bg-white/90 text-slate-300 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 hover:text-amber-400'
+        }`}
+      >
+        ★
+      </button>
     </div>
   );
 };
@@ -0,0 +1,82 @@
+import React, { useRef, useState } from 'react';
+import { GeneratedAsset } from '../types';
+import { AssetCard } from './AssetCard';
+
+interface AssetGalleryProps {
+  assets: GeneratedAsset[];
+  onPreview: (asset: GeneratedAsset) => void;
+  onToggleFavorite: (asset: GeneratedAsset) => void;
+  selecting: boolean;
+  selectedIds: Set<string>;
+  onToggleSelect: (asset: GeneratedAsset) => void;
+  // Empty states, rendered inside the grid.
+  children?: React.ReactNode;
+}
+
+// Arrow keys move between cards, Home and End jump to the ends, and Enter
+// opens (or selects) the focused card. The gallery is a single Tab stop.
+export const AssetGallery: React.FC<AssetGalleryProps> = ({
+  assets,
+  onPreview,
+  onToggleFavorite,
+  selecting,
+  selectedIds,
+  onToggleSelect,
+  children,
+}) => {
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const tabStop = assets.some((asset) => asset.id === activeId) ? activeId : assets[0]?.id;
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const grid = gridRef.current;
+    if (!grid) return;
+    const cards: HTMLElement[] = Array.from(grid.querySelectorAll<HTMLElement>('[data-asset-card]'));
+    const index = cards.indexOf(document.activeElement as HTMLElement);
+    if (index < 0) return;
+
+    // Cards sharing the first card's top edge make up a row.
+    const top = cards[0].getBoundingClientRect().top;
+    const columns = Math.max(1, cards.filter((card) => Math.abs(card.getBoundingClientRect().top - top) < 1).length);
+    const targets: Record<string, number> = {
+      ArrowLeft: index - 1,
+      ArrowRight: index + 1,
+      ArrowUp: index - columns,
+      ArrowDown: index + columns,
+      Home: 0,
+      End: cards.length - 1,
+    };
+    const target = targets[e.key];
+    if (target === undefined) return;
+    e.preventDefault();
+    const card = cards[Math.max(0, Math.min(cards.length - 1, target))];
+    card.focus();
+    card.scrollIntoView({ block: 'nearest' });
+  };
+
+  return (
+    <div
+      ref={gridRef}
+      role="list"
+      aria-label="Generated elements"
+      onKeyDown={handleKeyDown}
+      className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4 md:gap-6"
+    >
+      {assets.map((asset) => (
+        <div key={asset.id} role="listitem">
+          <AssetCard
+            asset={asset}
+            onPreview={onPreview}
+            onToggleFavorite={onToggleFavorite}
+            selecting={selecting}
+            selected={selectedIds.has(asset.id)}
+            onToggleSelect={onToggleSelect}
+            tabIndex={asset.id === tabStop ? 0 : -1}
+            onFocus={() => setActiveId(asset.id)}
+          />
+        </div>
+      ))}
+      {children}
+    </div>
+  );
+};
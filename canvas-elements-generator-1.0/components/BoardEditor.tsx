@@ -0,0 +1,644 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { BoardItem, BoardPreset, BoardScene, BoardTextItem, GeneratedAsset } from '../types';
+import { altTextOf, getAssetBlobs } from '../services/assetLibrary';
+import { downloadBlob, loadImage } from '../services/exportService';
+import {
+  alignItem,
+  BOARD_FONT,
+  BOARD_PRESETS,
+  BoardAlignment,
+  createBoard,
+  deleteBoard,
+  exportBoardJson,
+  exportBoardPdf,
+  exportBoardPng,
+  listBoards,
+  parseBoardScene,
+  saveBoard,
+  TEXT_LINE_HEIGHT,
+  textHeight,
+} from '../services/boards';
+
+interface BoardEditorProps {
+  assets: GeneratedAsset[];
+  onClose: () => void;
+}
+
+interface Gesture {
+  mode: 'move' | 'scale' | 'rotate';
+  startX: number;
+  startY: number;
+  item: BoardItem;
+}
+
+const ALIGNMENTS: { value: BoardAlignment; label: string }[] = [
+  { value: 'left', label: 'Left' },
+  { value: 'center', label: 'Center' },
+  { value: 'right', label: 'Right' },
+  { value: 'top', label: 'Top' },
+  { value: 'middle', label: 'Middle' },
+  { value: 'bottom', label: 'Bottom' },
+];
+
+const FONT_WEIGHTS = [
+  { value: 400, label: 'Regular' },
+  { value: 700, label: 'Bold' },
+  { value: 800, label: 'Heavy' },
+];
+
+const ASSET_DRAG_TYPE = 'application/x-asset-id';
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable);
+
+const buttonClass =
+  'px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-white border-2 border-slate-100 text-slate-600 hover:border-slate-200 disabled:opacity-40 disabled:cursor-not-allowed';
+
+export const BoardEditor: React.FC<BoardEditorProps> = ({ assets, onClose }) => {
+  const [boards, setBoards] = useState<BoardScene[]>(listBoards);
+  const [scene, setScene] = useState<BoardScene>(() => boards[0] || createBoard('slide'));
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [images, setImages] = useState<Map<string, string>>(new Map());
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const artboardRef = useRef<HTMLDivElement>(null);
+  const gestureRef = useRef<Gesture | null>(null);
+  const requestedRef = useRef<Set<string>>(new Set());
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const scale = viewport.width
+    ? Math.min((viewport.width - 64) / scene.width, (viewport.height - 64) / scene.height)
+    : 0;
+  const selected = scene.items.find((item) => item.id === selectedId) || null;
+
+  const commit = useCallback((update: (scene: BoardScene) => BoardScene) => {
+    setScene((prev) => ({ ...update(prev), updatedAt: Date.now() }));
+  }, []);
+
+  const updateItem = useCallback(
+    (id: string, patch: Partial<BoardItem>) =>
+      commit((prev) => ({
+        ...prev,
+        items: prev.items.map((item) => (item.id === id ? ({ ...item, ...patch } as BoardItem) : item)),
+      })),
+    [commit]
+  );
+
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setViewport({ width: entry.contentRect.width, height: entry.contentRect.height })
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setBoards(saveBoard(scene)), 300);
+    return () => clearTimeout(timer);
+  }, [scene]);
+
+  // Boards read images straight from the library so they keep their own
+  // object URLs, independent of the gallery's.
+  const ensureImages = useCallback(async (ids: string[]) => {
+    const missing = ids.filter((id) => !requestedRef.current.has(id));
+    if (missing.length === 0) return;
+    missing.forEach((id) => requestedRef.current.add(id));
+    const blobs = await getAssetBlobs(missing);
+    setImages((prev) => {
+      const next = new Map(prev);
+      blobs.forEach((blob, id) => next.set(id, URL.createObjectURL(blob)));
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    ensureImages(scene.items.flatMap((item) => (item.kind === 'asset' ? [item.assetId] : []))).catch((err) =>
+      console.error('Failed to load board images', err)
+    );
+  }, [scene.items, ensureImages]);
+
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+  useEffect(() => () => imagesRef.current.forEach((url) => URL.revokeObjectURL(url)), []);
+
+  const addAsset = async (asset: GeneratedAsset, x = scene.width / 2, y = scene.height / 2) => {
+    try {
+      const img = await loadImage(asset.url);
+      const longest = Math.min(scene.width, scene.height) * 0.35;
+      const ratio = longest / Math.max(img.naturalWidth, img.naturalHeight);
+      const item: BoardItem = {
+        kind: 'asset',
+        id: crypto.randomUUID(),
+        assetId: asset.id,
+        x,
+        y,
+        width: img.naturalWidth * ratio,
+        height: img.naturalHeight * ratio,
+        rotation: 0,
+      };
+      commit((prev) => ({ ...prev, items: [...prev.items, item] }));
+      setSelectedId(item.id);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Could not add the asset.');
+    }
+  };
+
+  const addText = () => {
+    const base = {
+      text: 'Your text',
+      fontSize: Math.round(scene.height / 12),
+      fontWeight: 800,
+      width: scene.width * 0.6,
+    };
+    const item: BoardTextItem = {
+      ...base,
+      kind: 'text',
+      id: crypto.randomUUID(),
+      x: scene.width / 2,
+      y: scene.height / 2,
+      height: textHeight(base),
+      rotation: 0,
+      color: '#0F172A',
+      align: 'center',
+    };
+    commit((prev) => ({ ...prev, items: [...prev.items, item] }));
+    setSelectedId(item.id);
+  };
+
+  const updateText = (item: BoardTextItem, patch: Partial<BoardTextItem>) => {
+    const next = { ...item, ...patch };
+    updateItem(item.id, { ...patch, height: textHeight(next) });
+  };
+
+  const removeSelected = useCallback(() => {
+    if (!selectedId) return;
+    commit((prev) => ({ ...prev, items: prev.items.filter((item) => item.id !== selectedId) }));
+    setSelectedId(null);
+  }, [selectedId, commit]);
+
+  const duplicateSelected = () => {
+    if (!selected) return;
+    const copy = { ...selected, id: crypto.randomUUID(), x: selected.x + 40, y: selected.y + 40 };
+    commit((prev) => ({ ...prev, items: [...prev.items, copy] }));
+    setSelectedId(copy.id);
+  };
+
+  const moveLayer = (direction: 'front' | 'forward' | 'backward' | 'back') => {
+    if (!selected) return;
+    commit((prev) => {
+      const items = prev.items.filter((item) => item.id !== selected.id);
+      const index = prev.items.findIndex((item) => item.id === selected.id);
+      const target = {
+        front: items.length,
+        forward: Math.min(items.length, index + 1),
+        backward: Math.max(0, index - 1),
+        back: 0,
+      }[direction];
+      items.splice(target, 0, selected);
+      return { ...prev, items };
+    });
+  };
+
+  const align = (alignment: BoardAlignment) => {
+    if (!selected) return;
+    commit((prev) => ({
+      ...prev,
+      items: prev.items.map((item) => (item.id === selected.id ? alignItem(item, alignment, prev) : item)),
+    }));
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (isTyping(e.target)) return;
+      if (e.key === 'Escape') {
+        if (selectedId) setSelectedId(null);
+        else onClose();
+        return;
+      }
+      if (!selectedId) return;
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        removeSelected();
+        return;
+      }
+      const step = e.shiftKey ? 10 : 1;
+      const offsets: Record<string, [number, number]> = {
+        ArrowLeft: [-step, 0],
+        ArrowRight: [step, 0],
+        ArrowUp: [0, -step],
+        ArrowDown: [0, step],
+      };
+      const offset = offsets[e.key];
+      if (!offset) return;
+      e.preventDefault();
+      commit((prev) => ({
+        ...prev,
+        items: prev.items.map((item) =>
+          item.id === selectedId ? { ...item, x: item.x + offset[0], y: item.y + offset[1] } : item
+        ),
+      }));
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [selectedId, removeSelected, commit, onClose]);
+
+  useEffect(() => {
+    const toBoard = (clientX: number, clientY: number): [number, number] => {
+      const rect = artboardRef.current!.getBoundingClientRect();
+      return [(clientX - rect.left) / scale, (clientY - rect.top) / scale];
+    };
+
+    const handleMove = (e: PointerEvent) => {
+      const gesture = gestureRef.current;
+      if (!gesture || !scale) return;
+      const { item } = gesture;
+
+      if (gesture.mode === 'move') {
+        updateItem(item.id, {
+          x: item.x + (e.clientX - gesture.startX) / scale,
+          y: item.y + (e.clientY - gesture.startY) / scale,
+        });
+      } else if (gesture.mode === 'scale') {
+        const [px, py] = toBoard(e.clientX, e.clientY);
+        const [sx, sy] = toBoard(gesture.startX, gesture.startY);
+        const factor = Math.max(0.05, Math.hypot(px - item.x, py - item.y) / Math.max(1, Math.hypot(sx - item.x, sy - item.y)));
+        updateItem(item.id, {
+          width: item.width * factor,
+          height: item.height * factor,
+          ...(item.kind === 'text' ? { fontSize: Math.max(4, item.fontSize * factor) } : {}),
+        });
+      } else {
+        const [px, py] = toBoard(e.clientX, e.clientY);
+        let angle = (Math.atan2(py - item.y, px - item.x) * 180) / Math.PI + 90;
+        if (e.shiftKey) angle = Math.round(angle / 15) * 15;
+        updateItem(item.id, { rotation: ((angle % 360) + 360) % 360 });
+      }
+    };
+    const handleUp = () => {
+      gestureRef.current = null;
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [scale, updateItem]);
+
+  const startGesture = (e: React.PointerEvent, item: BoardItem, mode: Gesture['mode']) => {
+    e.stopPropagation();
+    e.preventDefault();
+    setSelectedId(item.id);
+    gestureRef.current = { mode, startX: e.clientX, startY: e.clientY, item };
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const asset = assets.find((candidate) => candidate.id === e.dataTransfer.getData(ASSET_DRAG_TYPE));
+    if (!asset || !artboardRef.current) return;
+    const rect = artboardRef.current.getBoundingClientRect();
+    addAsset(asset, (e.clientX - rect.left) / scale, (e.clientY - rect.top) / scale);
+  };
+
+  const switchBoard = (id: string) => {
+    const board = boards.find((candidate) => candidate.id === id);
+    if (!board) return;
+    setBoards(saveBoard(scene));
+    setScene(board);
+    setSelectedId(null);
+  };
+
+  const newBoard = () => {
+    setBoards(saveBoard(scene));
+    setScene(createBoard(scene.preset));
+    setSelectedId(null);
+  };
+
+  const removeBoard = () => {
+    if (!window.confirm(`Delete the board "${scene.name}"? This cannot be undone.`)) return;
+    const remaining = deleteBoard(scene.id);
+    setBoards(remaining);
+    setScene(remaining[0] || createBoard(scene.preset));
+    setSelectedId(null);
+  };
+
+  const changePreset = (preset: BoardPreset) => {
+    const { width, height } = BOARD_PRESETS[preset];
+    commit((prev) => ({ ...prev, preset, width, height }));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseBoardScene(JSON.parse(await file.text()));
+      const board = boards.some((candidate) => candidate.id === imported.id)
+        ? { ...imported, id: crypto.randomUUID() }
+        : imported;
+      setBoards(saveBoard(scene));
+      setScene(board);
+      setSelectedId(null);
+    } catch (err: any) {
+      setError(err.message || 'Could not import the board.');
+    }
+  };
+
+  const handleExport = async (format: 'png' | 'pdf' | 'json') => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const { blob, filename } =
+        format === 'json'
+          ? exportBoardJson(scene)
+          : await (format === 'png' ? exportBoardPng : exportBoardPdf)(scene, images);
+      downloadBlob(blob, filename);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Board export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const placeable = assets.filter((asset) => !asset.isVideo);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-100 flex flex-col">
+      <div className="flex flex-wrap items-center gap-2 px-4 py-3 bg-white border-b border-slate-200">
+        <input
+          type="text"
+          value={scene.name}
+          onChange={(e) => commit((prev) => ({ ...prev, name: e.target.value }))}
+          className="px-3 py-2 bg-slate-50 border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-700 outline-none focus:border-indigo-500"
+        />
+        <select
+          value={scene.id}
+          onChange={(e) => switchBoard(e.target.value)}
+          title="Saved boards"
+          className="px-3 py-2 bg-white border-2 border-slate-100 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 outline-none"
+        >
+          {!boards.some((board) => board.id === scene.id) && <option value={scene.id}>{scene.name}</option>}
+          {boards.map((board) => (
+            <option key={board.id} value={board.id}>{board.id === scene.id ? scene.name : board.name}</option>
+          ))}
+        </select>
+        <select
+          value={scene.preset}
+          onChange={(e) => changePreset(e.target.value as BoardPreset)}
+          title="Artboard size"
+          className="px-3 py-2 bg-white border-2 border-slate-100 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-600 outline-none"
+        >
+          {(Object.keys(BOARD_PRESETS) as BoardPreset[]).map((preset) => (
+            <option key={preset} value={preset}>{BOARD_PRESETS[preset].label}</option>
+          ))}
+        </select>
+        <button onClick={newBoard} className={buttonClass}>New board</button>
+        <button onClick={removeBoard} className={buttonClass}>Delete board</button>
+        <div className="flex-1" />
+        <button onClick={() => importRef.current?.click()} className={buttonClass}>Import JSON</button>
+        <input ref={importRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        <button onClick={() => handleExport('json')} className={buttonClass}>Save JSON</button>
+        <button onClick={() => handleExport('png')} disabled={isExporting} className={buttonClass}>PNG</button>
+        <button onClick={() => handleExport('pdf')} disabled={isExporting} className={buttonClass}>PDF</button>
+        <button
+          onClick={onClose}
+          className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-900 text-white hover:bg-indigo-700"
+        >
+          Close
+        </button>
+      </div>
+
+      {error && (
+        <div className="px-4 py-2 bg-red-50 border-b border-red-200 text-sm font-bold text-red-600 flex justify-between">
+          {error}
+          <button onClick={() => setError(null)} className="text-red-400 hover:text-red-600">Dismiss</button>
+        </div>
+      )}
+
+      <div className="flex-1 flex min-h-0">
+        <aside className="w-56 bg-white border-r border-slate-200 p-3 overflow-y-auto">
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Drag onto the board</p>
+          <div className="grid grid-cols-2 gap-2">
+            {placeable.map((asset) => (
+              <button
+                key={asset.id}
+                type="button"
+                draggable
+                onDragStart={(e) => e.dataTransfer.setData(ASSET_DRAG_TYPE, asset.id)}
+                onClick={() => addAsset(asset)}
+                title={asset.prompt}
+                className={`aspect-square rounded-lg overflow-hidden border-2 border-transparent hover:border-indigo-400 ${
+                  asset.hasAlpha ? 'alpha-grid' : 'bg-slate-100'
+                }`}
+              >
+                <img src={asset.url} alt={altTextOf(asset)} className="w-full h-full object-contain pointer-events-none" />
+              </button>
+            ))}
+          </div>
+          {placeable.length === 0 && (
+            <p className="text-xs text-slate-400 font-medium">Generate some elements to place them here.</p>
+          )}
+        </aside>
+
+        <div
+          ref={viewportRef}
+          className="flex-1 canvas-grid flex items-center justify-center overflow-hidden"
+          onPointerDown={() => setSelectedId(null)}
+        >
+          {scale > 0 && (
+            <div
+              ref={artboardRef}
+              className="relative shadow-2xl flex-shrink-0"
+              style={{ width: scene.width * scale, height: scene.height * scale, background: scene.background }}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={handleDrop}
+            >
+              {scene.items.map((item) => {
+                const isSelected = item.id === selectedId;
+                return (
+                  <div
+                    key={item.id}
+                    onPointerDown={(e) => startGesture(e, item, 'move')}
+                    className={`absolute cursor-move select-none ${isSelected ? 'outline outline-2 outline-indigo-500' : ''}`}
+                    style={{
+                      left: (item.x - item.width / 2) * scale,
+                      top: (item.y - item.height / 2) * scale,
+                      width: item.width * scale,
+                      height: item.height * scale,
+                      transform: `rotate(${item.rotation}deg)`,
+                    }}
+                  >
+                    {item.kind === 'asset' ? (
+                      images.get(item.assetId) ? (
+                        <img src={images.get(item.assetId)} alt="" draggable={false} className="w-full h-full pointer-events-none" />
+                      ) : (
+                        <div className="w-full h-full border-2 border-dashed border-slate-300 flex items-center justify-center text-[10px] font-bold text-slate-400">
+                          Missing asset
+                        </div>
+                      )
+                    ) : (
+                      <div
+                        style={{
+                          fontFamily: BOARD_FONT,
+                          fontSize: item.fontSize * scale,
+                          fontWeight: item.fontWeight,
+                          lineHeight: TEXT_LINE_HEIGHT,
+                          color: item.color,
+                          textAlign: item.align,
+                          whiteSpace: 'pre-wrap',
+                          overflowWrap: 'break-word',
+                        }}
+                      >
+                        {item.text}
+                      </div>
+                    )}
+                    {isSelected && (
+                      <>
+                        <div className="absolute left-1/2 -top-6 h-6 w-px bg-indigo-500" />
+                        <div
+                          onPointerDown={(e) => startGesture(e, item, 'rotate')}
+                          title="Rotate (Shift snaps to 15°)"
+                          className="absolute left-1/2 -top-8 -ml-2 w-4 h-4 rounded-full bg-white border-2 border-indigo-500 cursor-grab"
+                        />
+                        <div
+                          onPointerDown={(e) => startGesture(e, item, 'scale')}
+                          title="Scale"
+                          className="absolute -right-2 -bottom-2 w-4 h-4 bg-white border-2 border-indigo-500 cursor-nwse-resize"
+                        />
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <aside className="w-64 bg-white border-l border-slate-200 p-4 overflow-y-auto space-y-5">
+          <div className="space-y-2">
+            <button onClick={addText} className={`${buttonClass} w-full`}>+ Add text</button>
+            <label className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest text-slate-500">
+              Background
+              <input
+                type="color"
+                value={scene.background}
+                onChange={(e) => commit((prev) => ({ ...prev, background: e.target.value.toUpperCase() }))}
+                className="w-10 h-8 rounded cursor-pointer"
+              />
+            </label>
+          </div>
+
+          {selected ? (
+            <>
+              <div>
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Layer</p>
+                <div className="grid grid-cols-2 gap-1">
+                  <button onClick={() => moveLayer('front')} className={buttonClass}>To front</button>
+                  <button onClick={() => moveLayer('back')} className={buttonClass}>To back</button>
+                  <button onClick={() => moveLayer('forward')} className={buttonClass}>Forward</button>
+                  <button onClick={() => moveLayer('backward')} className={buttonClass}>Backward</button>
+                </div>
+              </div>
+
+              <div>
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Align to board</p>
+                <div className="grid grid-cols-3 gap-1">
+                  {ALIGNMENTS.map((alignment) => (
+                    <button key={alignment.value} onClick={() => align(alignment.value)} className={buttonClass}>
+                      {alignment.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <label className="block">
+                <span className="flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-500">
+                  Rotation
+                  <span className="text-slate-400">{Math.round(selected.rotation)}°</span>
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={359}
+                  value={Math.round(selected.rotation)}
+                  onChange={(e) => updateItem(selected.id, { rotation: Number(e.target.value) })}
+                  className="w-full accent-indigo-600"
+                />
+              </label>
+
+              {selected.kind === 'text' && (
+                <div className="space-y-3">
+                  <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Text</p>
+                  <textarea
+                    value={selected.text}
+                    onChange={(e) => updateText(selected, { text: e.target.value })}
+                    rows={3}
+                    className="w-full px-3 py-2 bg-slate-50 border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-700 outline-none focus:border-indigo-500"
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="number"
+                      min={4}
+                      value={Math.round(selected.fontSize)}
+                      onChange={(e) => updateText(selected, { fontSize: Math.max(4, Number(e.target.value) || 4) })}
+                      title="Font size"
+                      className="px-3 py-2 bg-white border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-600 outline-none"
+                    />
+                    <select
+                      value={selected.fontWeight}
+                      onChange={(e) => updateText(selected, { fontWeight: Number(e.target.value) })}
+                      className="px-2 py-2 bg-white border-2 border-slate-100 rounded-xl text-xs font-bold text-slate-600 outline-none"
+                    >
+                      {FONT_WEIGHTS.map((weight) => (
+                        <option key={weight.value} value={weight.value}>{weight.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {(['left', 'center', 'right'] as const).map((textAlign) => (
+                      <button
+                        key={textAlign}
+                        onClick={() => updateText(selected, { align: textAlign })}
+                        className={`flex-1 ${buttonClass} ${selected.align === textAlign ? '!border-indigo-600 !text-indigo-700' : ''}`}
+                      >
+                        {textAlign}
+                      </button>
+                    ))}
+                    <input
+                      type="color"
+                      value={selected.color}
+                      onChange={(e) => updateText(selected, { color: e.target.value.toUpperCase() })}
+                      title="Text color"
+                      className="w-10 h-8 rounded cursor-pointer"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-1">
+                <button onClick={duplicateSelected} className={buttonClass}>Duplicate</button>
+                <button
+                  onClick={removeSelected}
+                  className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-red-50 border-2 border-red-200 text-red-600 hover:bg-red-100"
+                >
+                  Delete
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-slate-400 font-medium">
+              Select an item to move, scale, rotate, layer or align it. Arrow keys nudge; Delete removes.
+            </p>
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { BrandKit, RecolorMode } from '../types';
+import { createBrandKit, deleteBrandKit, listBrandKits, saveBrandKit, splitTerms } from '../services/brandKits';
+
+interface BrandKitManagerProps {
+  initialKitId: string | null;
+  onChange: (kits: BrandKit[]) => void;
+  onSelect: (id: string | null) => void;
+  onClose: () => void;
+}
+
+// Matches the server's palette limit.
+const MAX_PALETTE = 12;
+
+const RECOLOR_OPTIONS: { value: RecolorMode; label: string; hint: string }[] = [
+  { value: 'off', label: 'Prompt only', hint: 'Describe the palette in the prompt and keep the output as rendered' },
+  { value: 'remap', label: 'Remap', hint: 'Shift each color group onto its nearest brand color, keeping shading' },
+  { value: 'quantize', label: 'Quantize', hint: 'Replace every pixel with its nearest brand color for flat artwork' },
+];
+
+interface Draft {
+  kit: BrandKit;
+  keywords: string;
+  forbidden: string;
+}
+
+const toDraft = (kit: BrandKit): Draft => ({ kit, keywords: kit.keywords.join(', '), forbidden: kit.forbidden.join(', ') });
+
+export const BrandKitManager: React.FC<BrandKitManagerProps> = ({ initialKitId, onChange, onSelect, onClose }) => {
+  const [kits, setKits] = useState<BrandKit[]>(listBrandKits);
+  const [draft, setDraft] = useState<Draft | null>(() => {
+    const kit = kits.find((candidate) => candidate.id === initialKitId) || kits[0];
+    return kit ? toDraft(kit) : null;
+  });
+
+  const update = (patch: Partial<BrandKit>) => setDraft((prev) => prev && { ...prev, kit: { ...prev.kit, ...patch } });
+
+  const setColor = (index: number, color: string) =>
+    draft && update({ palette: draft.kit.palette.map((existing, i) => (i === index ? color : existing)) });
+
+  const commit = (next: BrandKit[]) => {
+    setKits(next);
+    onChange(next);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const kit = {
+      ...draft.kit,
+      name: draft.kit.name.trim() || 'Untitled kit',
+      keywords: splitTerms(draft.keywords),
+      forbidden: splitTerms(draft.forbidden),
+      updatedAt: Date.now(),
+    };
+    commit(saveBrandKit(kit));
+    setDraft(toDraft(kit));
+    onSelect(kit.id);
+  };
+
+  const handleNew = () => setDraft(toDraft(createBrandKit()));
+
+  const handleDelete = () => {
+    if (!draft || !confirm(`Delete "${draft.kit.name}"?`)) return;
+    const next = deleteBrandKit(draft.kit.id);
+    commit(next);
+    setDraft(next[0] ? toDraft(next[0]) : null);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-xl"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-[2.5rem] overflow-hidden shadow-2xl max-w-4xl w-full flex flex-col md:flex-row max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="md:w-1/3 bg-slate-50 p-6 flex flex-col gap-2 overflow-y-auto">
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-1">Brand kits</p>
+          {kits.map((kit) => (
+            <button
+              key={kit.id}
+              type="button"
+              onClick={() => setDraft(toDraft(kit))}
+              className={`text-left rounded-2xl border-2 px-4 py-3 ${
+                draft?.kit.id === kit.id ? 'border-indigo-600 bg-white' : 'border-transparent hover:border-slate-200'
+              }`}
+            >
+              <span className="block text-sm font-bold text-slate-700 truncate">{kit.name}</span>
+              <span className="flex gap-1 mt-2">
+                {kit.palette.map((color, i) => (
+                  <span key={i} className="w-4 h-4 rounded-full border border-slate-200" style={{ backgroundColor: color }} />
+                ))}
+              </span>
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={handleNew}
+            className="mt-2 px-4 py-3 rounded-2xl text-xs font-black uppercase tracking-widest border-2 border-dashed border-slate-200 text-slate-500 hover:border-indigo-300 hover:text-indigo-600"
+          >
+            + New kit
+          </button>
+        </div>
+
+        <div className="md:w-2/3 p-8 flex flex-col gap-5 overflow-y-auto">
+          {draft ? (
+            <>
+              <label className="block">
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Name</span>
+                <input
+                  type="text"
+                  value={draft.kit.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  maxLength={60}
+                  className="block w-full mt-1 px-4 py-3 bg-slate-50 border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-700 outline-none focus:border-indigo-500"
+                />
+              </label>
+
+              <div>
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Palette</p>
+                <div className="flex flex-wrap items-center gap-2">
+                  {draft.kit.palette.map((color, i) => (
+                    <div key={i} className="flex items-center gap-1 bg-slate-50 border border-slate-100 rounded-xl p-1 pr-2">
+                      <input
+                        type="color"
+                        value={color}
+                        onChange={(e) => setColor(i, e.target.value)}
+                        className="w-8 h-8 rounded-lg cursor-pointer"
+                      />
+                      <span className="text-xs font-mono text-slate-500">{color}</span>
+                      <button
+                        type="button"
+                        onClick={() => update({ palette: draft.kit.palette.filter((_, j) => j !== i) })}
+                        disabled={draft.kit.palette.length === 1}
+                        title="Remove color"
+                        className="text-slate-400 hover:text-red-500 font-bold disabled:opacity-30"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => update({ palette: [...draft.kit.palette, '#ffffff'] })}
+                    disabled={draft.kit.palette.length >= MAX_PALETTE}
+                    className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border-2 border-dashed border-slate-200 text-slate-500 hover:border-indigo-300 disabled:opacity-40"
+                  >
+                    + Color
+                  </button>
+                </div>
+              </div>
+
+              <label className="block">
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Style keywords</span>
+                <textarea
+                  value={draft.keywords}
+                  onChange={(e) => setDraft({ ...draft, keywords: e.target.value })}
+                  rows={2}
+                  placeholder="flat vector, rounded corners, friendly"
+                  className="block w-full mt-1 px-4 py-3 bg-slate-50 border-2 border-slate-100 rounded-xl text-sm font-medium text-slate-700 outline-none focus:border-indigo-500 resize-none"
+                />
+              </label>
+
+              <label className="block">
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Forbidden elements</span>
+                <textarea
+                  value={draft.forbidden}
+                  onChange={(e) => setDraft({ ...draft, forbidden: e.target.value })}
+                  rows={2}
+                  placeholder="gradients, photorealism, competitor logos"
+                  className="block w-full mt-1 px-4 py-3 bg-slate-50 border-2 border-slate-100 rounded-xl text-sm font-medium text-slate-700 outline-none focus:border-indigo-500 resize-none"
+                />
+              </label>
+
+              <div>
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">After generation</p>
+                <div className="flex flex-wrap gap-1">
+                  {RECOLOR_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => update({ recolor: option.value })}
+                      title={option.hint}
+                      className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border-2 ${
+                        draft.kit.recolor === option.value
+                          ? 'bg-indigo-50 border-indigo-600 text-indigo-700'
+                          : 'bg-white border-slate-100 text-slate-500 hover:border-slate-200'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-400 font-medium mt-2">
+                  {RECOLOR_OPTIONS.find((option) => option.value === draft.kit.recolor)?.hint}. Motion assets are never recolored.
+                </p>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-slate-500 font-medium">
+              Create a kit to lock generations to your brand colors, style and rules.
+            </p>
+          )}
+
+          <div className="mt-auto flex gap-3">
+            {draft && (
+              <>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 transition-all active:scale-95"
+                >
+                  Save and use
+                </button>
+                {kits.some((kit) => kit.id === draft.kit.id) && (
+                  <button
+                    type="button"
+                    onClick={handleDelete}
+                    className="px-6 py-4 bg-red-50 text-red-600 rounded-2xl font-bold hover:bg-red-100"
+                  >
+                    Delete
+                  </button>
+                )}
+              </>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-6 py-4 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { GeneratedAsset } from '../types';
+import { describeAsset } from '../services/geminiService';
+import { setAssetDescription } from '../services/assetLibrary';
+
+interface DescriptionPanelProps {
+  asset: GeneratedAsset;
+  onDescribed: (asset: GeneratedAsset) => void;
+  onError: (message: string) => void;
+}
+
+const parseTags = (text: string) =>
+  [...new Set(text.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+
+export const DescriptionPanel: React.FC<DescriptionPanelProps> = ({ asset, onDescribed, onError }) => {
+  const [altText, setAltText] = useState(asset.altText || '');
+  const [tags, setTags] = useState((asset.tags || []).join(', '));
+  const [isDescribing, setIsDescribing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const dirty = altText.trim() !== (asset.altText || '') || parseTags(tags).join(',') !== (asset.tags || []).join(',');
+
+  const save = async (description: { altText: string; tags: string[] }) => {
+    const updated = await setAssetDescription(asset.id, description);
+    setAltText(updated.altText || '');
+    setTags((updated.tags || []).join(', '));
+    onDescribed(updated);
+  };
+
+  // Asks the text model to look at the image; each suggestion counts against
+  // the quota, so it only runs when asked for.
+  const suggest = async () => {
+    setIsDescribing(true);
+    try {
+      await save(await describeAsset(asset));
+    } catch (err: any) {
+      console.error(err);
+      onError(err.message || 'Could not describe this asset.');
+    } finally {
+      setIsDescribing(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await save({ altText: altText.trim(), tags: parseTags(tags) });
+    } catch (err: any) {
+      console.error(err);
+      onError(err.message || 'Could not save the description.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="bg-slate-50 border border-slate-100 rounded-2xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <label htmlFor={`alt-${asset.id}`} className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+          Alt text
+        </label>
+        <button
+          type="button"
+          onClick={suggest}
+          disabled={isDescribing}
+          className="text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:underline disabled:opacity-40"
+        >
+          {isDescribing ? 'Describing...' : 'Suggest'}
+        </button>
+      </div>
+      <textarea
+        id={`alt-${asset.id}`}
+        value={altText}
+        onChange={(e) => setAltText(e.target.value)}
+        rows={2}
+        placeholder={isDescribing ? 'Describing...' : 'What the image shows, for screen readers'}
+        className="w-full px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm text-slate-700 outline-none focus:border-indigo-400 resize-none"
+      />
+      <label htmlFor={`tags-${asset.id}`} className="block text-[10px] font-black uppercase tracking-widest text-slate-500">
+        Tags
+      </label>
+      <input
+        id={`tags-${asset.id}`}
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        placeholder="cat, umbrella, pastel"
+        className="w-full px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm text-slate-700 outline-none focus:border-indigo-400"
+      />
+      {dirty && (
+        <button
+          type="submit"
+          disabled={isSaving || !altText.trim()}
+          className="w-full py-2 bg-slate-900 text-white rounded-xl text-xs font-black uppercase tracking-widest hover:bg-indigo-700 disabled:opacity-40"
+        >
+          {isSaving ? 'Saving...' : 'Save description'}
+        </button>
+      )}
+    </form>
+  );
+};
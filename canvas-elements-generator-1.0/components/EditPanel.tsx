@@ -0,0 +1,260 @@
+import React, { useRef, useState } from 'react';
+import { GeneratedAsset } from '../types';
+import { editAssetImage } from '../services/geminiService';
+import { addAssetVersion, altTextOf, setActiveVersion } from '../services/assetLibrary';
+
+interface EditPanelProps {
+  asset: GeneratedAsset;
+  onEdited: (asset: GeneratedAsset) => void;
+  onError: (message: string) => void;
+}
+
+const EXAMPLES = ['make it blue', 'remove the text', 'add a drop shadow'];
+
+function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode mask'))), 'image/png');
+  });
+}
+
+export const EditPanel: React.FC<EditPanelProps> = ({ asset, onEdited, onError }) => {
+  const [open, setOpen] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const [painting, setPainting] = useState(false);
+  const [brushSize, setBrushSize] = useState(24);
+  const [hasMask, setHasMask] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<[number, number] | null>(null);
+
+  const versions = asset.versions || [];
+  const active = asset.activeVersion || 0;
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  // The overlay canvas has the image's natural size, so pointer positions are
+  // scaled from the displayed size.
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return [((e.clientX - rect.left) * canvas.width) / rect.width, ((e.clientY - rect.top) * canvas.height) / rect.height];
+  };
+
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const point = toCanvasPoint(e);
+    const from = lastPoint.current || point;
+    ctx.strokeStyle = '#ef4444';
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = (brushSize * canvas.width) / canvas.getBoundingClientRect().width;
+    ctx.beginPath();
+    ctx.moveTo(from[0], from[1]);
+    ctx.lineTo(point[0], point[1]);
+    ctx.stroke();
+    lastPoint.current = point;
+    setHasMask(true);
+  };
+
+  // White marks the editable region; everything black is kept as is.
+  const buildMask = async () => {
+    const overlay = canvasRef.current;
+    if (!overlay || !hasMask) return null;
+    const mask = document.createElement('canvas');
+    mask.width = overlay.width;
+    mask.height = overlay.height;
+    const ctx = mask.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(overlay, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    return canvasToPng(mask);
+  };
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instruction.trim() || isEditing) return;
+    setIsEditing(true);
+    try {
+      const edited = await editAssetImage(asset, instruction.trim(), await buildMask());
+      onEdited(await addAssetVersion(asset.id, edited, instruction.trim()));
+      setInstruction('');
+      clearMask();
+      setPainting(false);
+    } catch (err: any) {
+      console.error(err);
+      onError(err.message || 'Edit failed.');
+    } finally {
+      setIsEditing(false);
+    }
+  };
+
+  const switchVersion = async (index: number) => {
+    try {
+      onEdited(await setActiveVersion(asset.id, index));
+    } catch (err: any) {
+      console.error(err);
+      onError(err.message || 'Could not switch versions.');
+    }
+  };
+
+  const history = versions.length > 1 && (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+          Version {active + 1} of {versions.length}
+        </p>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            onClick={() => switchVersion(active - 1)}
+            disabled={active === 0}
+            className="px-3 py-1 rounded-lg bg-slate-100 text-xs font-bold text-slate-600 hover:bg-slate-200 disabled:opacity-40"
+          >
+            Undo
+          </button>
+          <button
+            type="button"
+            onClick={() => switchVersion(active + 1)}
+            disabled={active === versions.length - 1}
+            className="px-3 py-1 rounded-lg bg-slate-100 text-xs font-bold text-slate-600 hover:bg-slate-200 disabled:opacity-40"
+          >
+            Redo
+          </button>
+        </div>
+      </div>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {versions.map((version, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => switchVersion(index)}
+            title={version.instruction || 'Original'}
+            className={`flex-shrink-0 w-12 h-12 rounded-lg overflow-hidden border-2 ${
+              index === active ? 'border-indigo-600' : 'border-transparent hover:border-slate-300'
+            } ${version.hasAlpha ? 'alpha-grid' : 'bg-slate-100'}`}
+          >
+            <img src={version.url} alt={version.instruction || 'Original version'} className="w-full h-full object-contain" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  if (!open) {
+    return (
+      <div className="space-y-3">
+        <button
+          onClick={() => setOpen(true)}
+          className="w-full py-3 bg-slate-100 text-slate-700 rounded-2xl font-bold hover:bg-slate-200 transition-all active:scale-95"
+        >
+          Edit with instructions
+        </button>
+        {history}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApply} className="bg-slate-50 border border-slate-100 rounded-2xl p-4 space-y-3">
+      <div className={`relative rounded-xl overflow-hidden flex justify-center ${asset.hasAlpha ? 'alpha-grid' : 'bg-white'}`}>
+        <div className="relative">
+          <img
+            src={asset.url}
+            alt={altTextOf(asset)}
+            className="block max-h-56 w-auto"
+            onLoad={(e) => {
+              const canvas = canvasRef.current;
+              if (!canvas) return;
+              canvas.width = e.currentTarget.naturalWidth;
+              canvas.height = e.currentTarget.naturalHeight;
+              setHasMask(false);
+            }}
+          />
+          <canvas
+            ref={canvasRef}
+            className={`absolute inset-0 w-full h-full opacity-50 touch-none ${painting ? 'cursor-crosshair' : 'pointer-events-none'}`}
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              lastPoint.current = null;
+              paint(e);
+            }}
+            onPointerMove={(e) => e.buttons === 1 && paint(e)}
+            onPointerUp={() => (lastPoint.current = null)}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setPainting(!painting)}
+          className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border-2 ${
+            painting ? 'bg-red-50 border-red-400 text-red-600' : 'bg-white border-slate-100 text-slate-500'
+          }`}
+        >
+          {painting ? 'Painting mask' : 'Paint mask'}
+        </button>
+        <input
+          type="range"
+          min={4}
+          max={80}
+          value={brushSize}
+          onChange={(e) => setBrushSize(Number(e.target.value))}
+          title="Brush size"
+          className="flex-1 accent-red-500"
+        />
+        <button
+          type="button"
+          onClick={clearMask}
+          disabled={!hasMask}
+          className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-white border-2 border-slate-100 text-slate-500 disabled:opacity-40"
+        >
+          Clear
+        </button>
+      </div>
+      <p className="text-[11px] text-slate-400 font-medium">
+        {hasMask ? 'Only the painted area will change.' : 'No mask: the whole image may change.'}
+      </p>
+
+      <input
+        type="text"
+        value={instruction}
+        onChange={(e) => setInstruction(e.target.value)}
+        placeholder={`e.g. "${EXAMPLES.join('", "')}"`}
+        maxLength={500}
+        disabled={isEditing}
+        className="w-full px-4 py-3 bg-white border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none text-sm font-bold text-slate-700 placeholder-slate-400"
+      />
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isEditing || !instruction.trim()}
+          className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-40"
+        >
+          {isEditing ? 'Applying edit...' : 'Apply edit'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="px-4 py-3 bg-white border border-slate-200 text-slate-500 rounded-xl font-bold hover:bg-slate-100"
+        >
+          Close
+        </button>
+      </div>
+
+      {history}
+    </form>
+  );
+};
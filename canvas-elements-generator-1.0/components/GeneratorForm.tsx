@@ -1,53 +1,119 @@
 
-import React, { useState, useEffect } from 'react';
-import { AssetType } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { AssetType, BrandKit, GenerationReference, Motion, QuotaStatus, ReferenceImage, SetOptions, StylePreset } from '../types';
+import {
+  fetchQuota,
+  fetchStylePresets,
+  isGenerationCacheEnabled,
+  referenceFromBlob,
+  setGenerationCacheEnabled,
+} from '../services/geminiService';
+import { getActiveBrandKitId, listBrandKits, setActiveBrandKitId } from '../services/brandKits';
+import { BrandKitManager } from './BrandKitManager';
 
 interface GeneratorFormProps {
-  onGenerate: (prompt: string, type: AssetType) => void;
+  onGenerate: (
+    prompt: string,
+    type: AssetType,
+    reference?: GenerationReference,
+    brandKit?: BrandKit,
+    set?: SetOptions,
+    motion?: Motion
+  ) => void;
   isGenerating: boolean;
+  batchSize: number;
 }
 
-export const GeneratorForm: React.FC<GeneratorFormProps> = ({ onGenerate, isGenerating }) => {
+// Matches SET_SIZES in api/_lib/sets.js.
+const SET_SIZES = [64, 128, 256, 512];
+
+const MOTION_OPTIONS: { value: Motion; label: string; hint: string }[] = [
+  { value: 'float', label: 'Float', hint: 'Bobs gently up and down' },
+  { value: 'pulse', label: 'Pulse', hint: 'Grows and shrinks like a heartbeat' },
+  { value: 'sway', label: 'Sway', hint: 'Rocks from side to side' },
+  { value: 'spin', label: 'Spin', hint: 'Turns a full circle' },
+];
+
+const formatReset = (resetAt: number) =>
+  new Date(resetAt).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+export const GeneratorForm: React.FC<GeneratorFormProps> = ({ onGenerate, isGenerating, batchSize }) => {
   const [prompt, setPrompt] = useState('');
   const [selectedType, setSelectedType] = useState<AssetType>(AssetType.STICKER);
+  const [presets, setPresets] = useState<StylePreset[]>([]);
   
-  // ✅ Added state for click limit
-  const [clicks, setClicks] = useState(0);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const [reference, setReference] = useState<{ image: ReferenceImage; previewUrl: string } | null>(null);
+  const [strength, setStrength] = useState(0.6);
+  const [brandKits, setBrandKits] = useState<BrandKit[]>(listBrandKits);
+  const [brandKitId, setBrandKitId] = useState<string | null>(getActiveBrandKitId);
+  const [managingKits, setManagingKits] = useState(false);
+  const [reuseCached, setReuseCached] = useState(isGenerationCacheEnabled);
+  const [setMode, setSetMode] = useState(false);
+  const [setOptions, setSetOptions] = useState<SetOptions>({ style: '', size: 256, padding: 16 });
+  const [motion, setMotion] = useState<Motion>('float');
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // ✅ Reset clicks daily
+  // Refresh the server-side quota on load and after every batch finishes.
   useEffect(() => {
-    const today = new Date().toDateString();
-    const lastDate = localStorage.getItem("last_date");
-
-    if (lastDate !== today) {
-      localStorage.setItem("daily_clicks", "0");
-      localStorage.setItem("last_date", today);
-      setClicks(0);
-    } else {
-      setClicks(parseInt(localStorage.getItem("daily_clicks") || "0"));
-    }
+    if (isGenerating) return;
+    fetchQuota()
+      .then(setQuota)
+      .catch((err) => console.error(err));
+  }, [isGenerating]);
+
+  useEffect(() => {
+    fetchStylePresets()
+      .then(setPresets)
+      .catch((err) => console.error(err));
   }, []);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!prompt.trim() || isGenerating) return;
 
-    // ✅ Check 3-click/day limit
-    if (clicks >= 3) {
-      alert("You have reached your 3 free generations for today. Come back tomorrow!");
+    // The exact batch size is chosen during variation review; the server
+    // rejects a batch larger than what is left.
+    if (quota && quota.remaining === 0) {
+      alert(`No images are left until ${formatReset(quota.resetAt)}.`);
       return;
     }
 
-    // Call existing generate function
-    onGenerate(prompt, selectedType);
+    onGenerate(
+      prompt,
+      selectedType,
+      reference ? { images: [reference.image], strength } : undefined,
+      activeKit,
+      setMode && supportsSets ? { ...setOptions, style: setOptions.style.trim() } : undefined,
+      activePreset?.output.motion ? motion : undefined
+    );
+  };
 
-    // Update click counter
-    const newClicks = clicks + 1;
-    localStorage.setItem("daily_clicks", newClicks.toString());
-    setClicks(newClicks);
+  const selectBrandKit = (id: string | null) => {
+    setBrandKitId(id);
+    setActiveBrandKitId(id);
+  };
+
+  const handleReferenceFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const image = await referenceFromBlob(file);
+      setReference({ image, previewUrl: `data:${image.mimeType};base64,${image.data}` });
+    } catch (err) {
+      console.error(err);
+      alert('That file could not be read as an image.');
+    }
   };
 
   const types = Object.values(AssetType);
+  const activePreset = presets.find((preset) => preset.type === selectedType);
+  const activeKit = brandKits.find((kit) => kit.id === brandKitId);
+  // Sets are normalized by their alpha channel, so only transparent stills qualify.
+  const supportsSets = !!activePreset?.output.transparent && !activePreset.output.motion;
+  const updateSet = (patch: Partial<SetOptions>) => setSetOptions((prev) => ({ ...prev, ...patch }));
 
   return (
     <div className="bg-white/80 backdrop-blur-md rounded-[2.5rem] shadow-2xl shadow-indigo-100 border border-slate-200 p-6 md:p-8 mb-12 sticky top-4 z-40 max-w-4xl mx-auto">
@@ -96,6 +162,7 @@ export const GeneratorForm: React.FC<GeneratorFormProps> = ({ onGenerate, isGene
                 key={type}
                 type="button"
                 onClick={() => setSelectedType(type)}
+                title={presets.find((preset) => preset.type === type)?.summary}
                 className={`px-5 py-3 rounded-2xl text-xs font-black uppercase tracking-widest transition-all border-2 ${
                   selectedType === type
                     ? 'bg-indigo-50 border-indigo-600 text-indigo-700 shadow-sm'
@@ -107,10 +174,224 @@ export const GeneratorForm: React.FC<GeneratorFormProps> = ({ onGenerate, isGene
             ))}
           </div>
 
-          {/* ✅ Click counter display */}
-          <p className="text-sm text-slate-500 mt-2">Clicks used today: {clicks}/3</p>
+          {activePreset && (
+            <div className="bg-slate-50 border border-slate-100 rounded-2xl px-5 py-4 text-left">
+              <div className="flex items-center justify-between gap-3 mb-1">
+                <p className="text-sm font-bold text-slate-700">{activePreset.summary}</p>
+                <span className="text-[10px] font-black uppercase tracking-widest text-indigo-600 bg-indigo-50 px-2 py-1 rounded-md flex-shrink-0">
+                  {activePreset.aspectRatio}
+                </span>
+              </div>
+              <p className="text-xs text-slate-500 font-medium">
+                {activePreset.template.background} · {activePreset.template.lighting}
+              </p>
+              <p className="text-xs text-slate-400 font-medium mt-1">
+                Avoids: {activePreset.template.negative.join(', ')}
+              </p>
+              {activePreset.output.motion && (
+                <p className="text-xs text-indigo-500 font-bold mt-1">
+                  Loops {activePreset.output.motion.frames} frames · exports {activePreset.output.motion.formats.join(' / ').toUpperCase()}
+                </p>
+              )}
+            </div>
+          )}
+
+          {activePreset?.output.motion && (
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Motion</span>
+              {MOTION_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setMotion(option.value)}
+                  disabled={isGenerating}
+                  title={option.hint}
+                  aria-pressed={motion === option.value}
+                  className={`px-4 py-2 rounded-2xl text-xs font-black uppercase tracking-widest border-2 transition-all ${
+                    motion === option.value
+                      ? 'bg-indigo-50 border-indigo-600 text-indigo-700'
+                      : 'bg-white border-slate-100 text-slate-500 hover:border-slate-200'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-4">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/png,image/jpeg,image/webp"
+              onChange={handleReferenceFile}
+              className="hidden"
+            />
+            {reference ? (
+              <>
+                <div className="flex items-center gap-3 bg-slate-50 border border-slate-100 rounded-2xl p-2 pr-3">
+                  <img src={reference.previewUrl} alt="Reference" className="w-12 h-12 object-cover rounded-xl" />
+                  <span className="text-xs font-black uppercase tracking-widest text-slate-500">Reference</span>
+                  <button
+                    type="button"
+                    onClick={() => setReference(null)}
+                    title="Remove reference"
+                    className="text-slate-400 hover:text-red-500 font-bold"
+                  >
+                    ×
+                  </button>
+                </div>
+                <label className="flex-1 min-w-[12rem]">
+                  <span className="flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-500">
+                    Loose inspiration
+                    <span>Follow closely</span>
+                  </span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={strength}
+                    onChange={(e) => setStrength(Number(e.target.value))}
+                    className="w-full accent-indigo-600"
+                    disabled={isGenerating}
+                  />
+                </label>
+              </>
+            ) : (
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isGenerating}
+                className="px-4 py-2 rounded-2xl text-xs font-black uppercase tracking-widest border-2 border-dashed border-slate-200 text-slate-500 hover:border-indigo-300 hover:text-indigo-600 transition-all"
+              >
+                + Reference image
+              </button>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={activeKit?.id || ''}
+              onChange={(e) => selectBrandKit(e.target.value || null)}
+              disabled={isGenerating}
+              className="px-4 py-2 bg-white border-2 border-slate-100 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-600 outline-none focus:border-indigo-500"
+            >
+              <option value="">No brand kit</option>
+              {brandKits.map((kit) => (
+                <option key={kit.id} value={kit.id}>{kit.name}</option>
+              ))}
+            </select>
+            {activeKit && (
+              <span className="flex gap-1" title={activeKit.keywords.join(', ')}>
+                {activeKit.palette.map((color, i) => (
+                  <span key={i} className="w-5 h-5 rounded-full border border-slate-200" style={{ backgroundColor: color }} />
+                ))}
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={() => setManagingKits(true)}
+              className="px-4 py-2 rounded-2xl text-xs font-black uppercase tracking-widest border-2 bg-white border-slate-100 text-slate-500 hover:border-slate-200"
+            >
+              {brandKits.length ? 'Manage kits' : '+ Brand kit'}
+            </button>
+          </div>
+
+          {supportsSets && (
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                type="button"
+                onClick={() => setSetMode((prev) => !prev)}
+                disabled={isGenerating}
+                title="Render the batch as one matching icon set on a shared canvas"
+                className={`px-4 py-2 rounded-2xl text-xs font-black uppercase tracking-widest border-2 transition-all ${
+                  setMode
+                    ? 'bg-indigo-50 border-indigo-600 text-indigo-700'
+                    : 'bg-white border-slate-100 text-slate-500 hover:border-slate-200'
+                }`}
+              >
+                Icon set
+              </button>
+              {setMode && (
+                <>
+                  <input
+                    type="text"
+                    value={setOptions.style}
+                    onChange={(e) => updateSet({ style: e.target.value })}
+                    maxLength={200}
+                    placeholder={reference ? 'Shared style (optional, the reference anchors the set)' : 'Shared style, e.g. 2px outline, flat fills'}
+                    disabled={isGenerating}
+                    className="flex-1 min-w-[12rem] px-4 py-2 bg-white border-2 border-slate-100 rounded-2xl text-sm font-medium text-slate-700 outline-none focus:border-indigo-500"
+                  />
+                  <select
+                    value={setOptions.size}
+                    onChange={(e) => {
+                      const size = Number(e.target.value);
+                      updateSet({ size, padding: Math.min(setOptions.padding, size / 4) });
+                    }}
+                    disabled={isGenerating}
+                    title="Canvas size"
+                    className="px-4 py-2 bg-white border-2 border-slate-100 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-600 outline-none focus:border-indigo-500"
+                  >
+                    {SET_SIZES.map((size) => (
+                      <option key={size} value={size}>{size}px</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500">
+                    Padding
+                    <input
+                      type="number"
+                      min={0}
+                      max={setOptions.size / 4}
+                      value={setOptions.padding}
+                      onChange={(e) =>
+                        updateSet({ padding: Math.min(setOptions.size / 4, Math.max(0, Math.round(Number(e.target.value) || 0))) })
+                      }
+                      disabled={isGenerating}
+                      className="w-16 px-2 py-2 bg-white border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-600 outline-none focus:border-indigo-500"
+                    />
+                  </label>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            {quota && (
+              <p className={`text-sm ${quota.remaining < batchSize ? 'text-red-500 font-bold' : 'text-slate-500'}`}>
+                Images left: {quota.remaining}/{quota.limit} · resets {formatReset(quota.resetAt)}
+              </p>
+            )}
+            <label
+              className="flex items-center gap-2 text-xs font-bold text-slate-500"
+              title="Identical requests come back from the server's cache without using quota"
+            >
+              <input
+                type="checkbox"
+                checked={reuseCached}
+                onChange={(e) => {
+                  setReuseCached(e.target.checked);
+                  setGenerationCacheEnabled(e.target.checked);
+                }}
+                className="accent-indigo-600"
+              />
+              Reuse cached results
+            </label>
+          </div>
         </div>
       </form>
+      {/* Portalled because the form's backdrop blur would contain a fixed overlay. */}
+      {managingKits &&
+        createPortal(
+          <BrandKitManager
+            initialKitId={activeKit?.id || null}
+            onChange={setBrandKits}
+            onSelect={selectBrandKit}
+            onClose={() => setManagingKits(false)}
+          />,
+          document.body
+        )}
     </div>
   );
 };
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { AssetType, LibraryQuery } from '../types';
+import { RasterFormat } from '../services/exportService';
+
+interface LibraryToolbarProps {
+  query: LibraryQuery;
+  onQueryChange: (query: LibraryQuery) => void;
+  selecting: boolean;
+  selectedCount: number;
+  onToggleSelecting: () => void;
+  onSelectAll: () => void;
+  onDeleteSelected: () => void;
+  onExport: (scope: 'selected' | 'all', format: RasterFormat) => void;
+  onStickerSheet: () => void;
+  onSpriteSheet: () => void;
+  onOpenBoard: () => void;
+  isExporting: boolean;
+  totalCount: number;
+}
+
+const EXPORT_FORMATS: { value: RasterFormat; label: string }[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'jpeg', label: 'JPG' },
+  { value: 'webp', label: 'WebP' },
+];
+
+const DATE_OPTIONS: { value: LibraryQuery['since']; label: string }[] = [
+  { value: 'all', label: 'Any time' },
+  { value: 'day', label: 'Last 24 hours' },
+  { value: 'week', label: 'Last 7 days' },
+  { value: 'month', label: 'Last 30 days' },
+];
+
+export const LibraryToolbar: React.FC<LibraryToolbarProps> = ({
+  query,
+  onQueryChange,
+  selecting,
+  selectedCount,
+  onToggleSelecting,
+  onSelectAll,
+  onDeleteSelected,
+  onExport,
+  onStickerSheet,
+  onSpriteSheet,
+  onOpenBoard,
+  isExporting,
+  totalCount,
+}) => {
+  const [exportFormat, setExportFormat] = useState<RasterFormat>('png');
+  const update = (patch: Partial<LibraryQuery>) => onQueryChange({ ...query, ...patch });
+
+  return (
+    <div className="mb-6 flex flex-col md:flex-row md:items-center gap-3">
+      <input
+        type="search"
+        value={query.search}
+        onChange={(e) => update({ search: e.target.value })}
+        placeholder="Search your library by prompt"
+        className="flex-1 px-5 py-3 bg-white border-2 border-slate-100 rounded-2xl focus:border-indigo-500 outline-none text-sm font-bold text-slate-700 placeholder-slate-400"
+      />
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={query.type}
+          onChange={(e) => update({ type: e.target.value as LibraryQuery['type'] })}
+          className="px-4 py-3 bg-white border-2 border-slate-100 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-600 outline-none focus:border-indigo-500"
+        >
+          <option value="all">All types</option>
+          {Object.values(AssetType).map((type) => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        <select
+          value={query.since}
+          onChange={(e) => update({ since: e.target.value as LibraryQuery['since'] })}
+          className="px-4 py-3 bg-white border-2 border-slate-100 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-600 outline-none focus:border-indigo-500"
+        >
+          {DATE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => update({ favoritesOnly: !query.favoritesOnly })}
+          className={`px-4 py-3 rounded-2xl text-xs font-black uppercase tracking-widest border-2 transition-all ${
+            query.favoritesOnly
+              ? 'bg-amber-50 border-amber-400 text-amber-700'
+              : 'bg-white border-slate-100 text-slate-500 hover:border-slate-200'
+          }`}
+        >
+          ★ Favorites
+        </button>
+        <button
+          type="button"
+          onClick={onToggleSelecting}
+          className={`px-4 py-3 rounded-2xl text-xs font-black uppercase tracking-widest border-2 transition-all ${
+            selecting
+              ? 'bg-indigo-50 border-indigo-600 text-indigo-700'
+              : 'bg-white border-slate-100 text-slate-500 hover:border-slate-200'
+          }`}
+        >
+          {selecting ? 'Done' : 'Select'}
+        </button>
+        {selecting && (
+          <>
+            <button
+              type="button"
+              onClick={onSelectAll}
+              className="px-4 py-3 rounded-2xl text-xs font-black uppercase tracking-widest border-2 bg-white border-slate-100 text-slate-500 hover:border-slate-200"
+            >
+              Select all
+            </button>
+            <button
+              type="button"
+              onClick={() => onExport('selected', exportFormat)}
+              disabled={selectedCount === 0 || isExporting}
+              className="px-4 py-3 rounded-2xl text-xs font-black uppercase tracking-widest border-2 bg-indigo-600 border-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {isExporting ? 'Zipping...' : `Download (${selectedCount})`}
+            </button>
+            <button
+              type="button"
+              onClick={onStickerSheet}
+              disabled={selectedCount === 0}
+              className="px-4 py-3 rounded-2xl text-xs font-black uppercase tracking-widest border-2 bg-white border-slate-100 text-slate-500 hover:border-slate-200 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Sticker sheet
+            </button>
+            <button
+              type="button"
+              onClick={onSpriteSheet}
+              disabled={selectedCount === 0 || isExporting}
+              title="Packed PNG sheet with a JSON atlas and CSS classes"
+              className="px-4 py-3 rounded-2xl text-xs font-black uppercase tracking-widest border-2 bg-white border-slate-100 text-slate-500 hover:border-slate-200 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Sprite sheet
+            </button>
+            <button
+              type="button"
+              onClick={onDeleteSelected}
+              disabled={selectedCount === 0}
+              className="px-4 py-3 rounded-2xl text-xs font-black uppercase tracking-widest border-2 bg-red-50 border-red-200 text-red-600 hover:bg-red-100 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Delete ({selectedCount})
+            </button>
+          </>
+        )}
+        <select
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as RasterFormat)}
+          title="Format for ZIP downloads"
+          className="px-4 py-3 bg-white border-2 border-slate-100 rounded-2xl text-xs font-black uppercase tracking-widest text-slate-600 outline-none focus:border-indigo-500"
+        >
+          {EXPORT_FORMATS.map((format) => (
+            <option key={format.value} value={format.value}>{format.label}</option>
+          ))}
+        </select>
+        {!selecting && (
+          <button
+            type="button"
+            onClick={() => onExport('all', exportFormat)}
+            disabled={totalCount === 0 || isExporting}
+            className="px-4 py-3 rounded-2xl text-xs font-black uppercase tracking-widest border-2 bg-white border-slate-100 text-slate-500 hover:border-slate-200 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isExporting ? 'Zipping...' : 'Download all'}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onOpenBoard}
+          className="px-4 py-3 rounded-2xl text-xs font-black uppercase tracking-widest border-2 bg-white border-slate-100 text-slate-500 hover:border-slate-200"
+        >
+          Board
+        </button>
+      </div>
+    </div>
+  );
+};
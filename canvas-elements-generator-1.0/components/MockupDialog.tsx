@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { GeneratedAsset } from '../types';
+import { altTextOf } from '../services/assetLibrary';
+import { downloadBlob } from '../services/exportService';
+import { exportMockup, loadMockupTemplates, MockupTemplate, renderMockup } from '../services/mockups';
+
+interface MockupDialogProps {
+  // Candidates for the artwork picker; motion assets are filtered out by the caller.
+  assets: GeneratedAsset[];
+  initialAsset: GeneratedAsset;
+  onClose: () => void;
+}
+
+export const MockupDialog: React.FC<MockupDialogProps> = ({ assets, initialAsset, onClose }) => {
+  const [templates, setTemplates] = useState<MockupTemplate[]>([]);
+  const [template, setTemplate] = useState<MockupTemplate | null>(null);
+  const [asset, setAsset] = useState(initialAsset);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadMockupTemplates()
+      .then((loaded) => {
+        setTemplates(loaded);
+        setTemplate(loaded[0] || null);
+      })
+      .catch((err) => setError(err.message || 'Could not load mockup templates.'));
+  }, []);
+
+  useEffect(() => {
+    if (!template) return;
+    let cancelled = false;
+    let url: string | null = null;
+    setPreview(null);
+
+    renderMockup(template, asset)
+      .then((canvas) => new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png')))
+      .then((blob) => {
+        if (cancelled || !blob) return;
+        url = URL.createObjectURL(blob);
+        setPreview(url);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message || 'Could not render the mockup.');
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [template, asset]);
+
+  const handleExport = async () => {
+    if (!template) return;
+    setIsExporting(true);
+    try {
+      const { blob, filename } = await exportMockup(template, asset);
+      downloadBlob(blob, filename);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Mockup export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const pickable = assets.some((candidate) => candidate.id === initialAsset.id) ? assets : [initialAsset, ...assets];
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-xl"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-[2.5rem] overflow-hidden shadow-2xl max-w-5xl w-full flex flex-col md:flex-row max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="md:w-3/5 bg-slate-200 flex items-center justify-center p-6">
+          {preview ? (
+            <img src={preview} alt={`${template?.name} mockup`} className="max-h-[70vh] w-auto shadow-xl rounded-xl" />
+          ) : (
+            <p className="text-xs text-slate-400 font-bold uppercase tracking-widest">
+              {error ? 'No preview' : 'Compositing...'}
+            </p>
+          )}
+        </div>
+
+        <div className="md:w-2/5 p-8 flex flex-col gap-5 overflow-y-auto">
+          <div>
+            <h2 className="text-2xl font-extrabold text-slate-900">Mockup</h2>
+            <p className="text-sm text-slate-500 font-medium">Place an asset onto a product template.</p>
+          </div>
+
+          <div>
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Template</p>
+            <div className="grid grid-cols-3 gap-2">
+              {templates.map((candidate) => (
+                <button
+                  key={candidate.id}
+                  type="button"
+                  onClick={() => setTemplate(candidate)}
+                  className={`rounded-xl overflow-hidden border-2 text-left ${
+                    template?.id === candidate.id ? 'border-indigo-600' : 'border-slate-100 hover:border-slate-200'
+                  }`}
+                >
+                  <img src={candidate.base} alt="" className="w-full aspect-square object-cover bg-slate-100" />
+                  <span className="block px-2 py-1 text-[10px] font-black uppercase tracking-widest text-slate-600 truncate">
+                    {candidate.name}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-2">Artwork</p>
+            <div className="grid grid-cols-5 gap-2 max-h-40 overflow-y-auto">
+              {pickable.map((candidate) => (
+                <button
+                  key={candidate.id}
+                  type="button"
+                  onClick={() => setAsset(candidate)}
+                  title={candidate.prompt}
+                  className={`rounded-lg overflow-hidden border-2 aspect-square ${
+                    asset.id === candidate.id ? 'border-indigo-600' : 'border-transparent hover:border-slate-300'
+                  } ${candidate.hasAlpha ? 'alpha-grid' : 'bg-slate-100'}`}
+                >
+                  <img src={candidate.url} alt={altTextOf(candidate)} className="w-full h-full object-contain" />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-sm font-bold text-red-500">{error}</p>}
+
+          <div className="mt-auto flex gap-3">
+            <button
+              onClick={handleExport}
+              disabled={isExporting || !preview}
+              className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-40"
+            >
+              {isExporting ? 'Exporting...' : 'Download PNG'}
+            </button>
+            <button
+              onClick={onClose}
+              className="px-6 py-4 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { GeneratedAsset } from '../types';
+import { getActiveBrandKitId, listBrandKits, measurePaletteDrift, PaletteDrift } from '../services/brandKits';
+
+interface PalettePanelProps {
+  asset: GeneratedAsset;
+}
+
+// deltaE below which a color is indistinguishable from the brand color at a
+// glance, and above which it clearly reads as a different color.
+const ON_BRAND = 10;
+const OFF_BRAND = 25;
+
+const driftTone = (deltaE: number) =>
+  deltaE < ON_BRAND ? 'text-emerald-600' : deltaE < OFF_BRAND ? 'text-amber-600' : 'text-red-500';
+
+export const PalettePanel: React.FC<PalettePanelProps> = ({ asset }) => {
+  const [kits] = useState(listBrandKits);
+  const [kitId, setKitId] = useState(() => {
+    const preferred = asset.brandKitId || getActiveBrandKitId();
+    return kits.some((kit) => kit.id === preferred) ? preferred! : '';
+  });
+  const [result, setResult] = useState<PaletteDrift | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setResult(null);
+    measurePaletteDrift(asset.url, kits.find((kit) => kit.id === kitId))
+      .then((drift) => !cancelled && setResult(drift))
+      .catch((err) => {
+        console.error(err);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [asset.url, kitId, kits]);
+
+  if (failed) return null;
+
+  return (
+    <div className="bg-slate-50 border border-slate-100 rounded-2xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Palette</p>
+        {kits.length > 0 && (
+          <select
+            value={kitId}
+            onChange={(e) => setKitId(e.target.value)}
+            title="Brand kit to compare against"
+            className="px-2 py-1 bg-white border border-slate-200 rounded-lg text-[10px] font-black uppercase tracking-widest text-slate-600 outline-none"
+          >
+            <option value="">No comparison</option>
+            {kits.map((kit) => (
+              <option key={kit.id} value={kit.id}>{kit.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {!result ? (
+        <p className="text-xs text-slate-400 font-bold">Extracting colors...</p>
+      ) : (
+        <>
+          <div className="space-y-1">
+            {result.swatches.map((swatch) => (
+              <div key={swatch.color} className="flex items-center gap-2 text-xs">
+                <span className="w-5 h-5 rounded-md border border-slate-200" style={{ backgroundColor: swatch.color }} />
+                <span className="font-mono text-slate-500 w-16">{swatch.color}</span>
+                <span className="text-slate-400 w-10 text-right">{Math.round(swatch.share * 100)}%</span>
+                {swatch.nearest && (
+                  <>
+                    <span className="text-slate-300">→</span>
+                    <span className="w-5 h-5 rounded-md border border-slate-200" style={{ backgroundColor: swatch.nearest }} />
+                    <span className={`font-bold ${driftTone(swatch.deltaE!)}`}>ΔE {swatch.deltaE!.toFixed(1)}</span>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+          {result.drift !== null && (
+            <p className={`text-xs font-black ${driftTone(result.drift)}`}>
+              Brand drift ΔE {result.drift.toFixed(1)} ·{' '}
+              {result.drift < ON_BRAND ? 'on brand' : result.drift < OFF_BRAND ? 'close' : 'off brand'}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+import { GeneratedAsset } from '../types';
+import { downloadBlob } from '../services/exportService';
+import {
+  DEFAULT_STICKER_OPTIONS,
+  exportStickers,
+  layoutStickers,
+  renderSheetSvg,
+  StickerLayout,
+  StickerOptions,
+} from '../services/dieCut';
+
+interface StickerExportDialogProps {
+  assets: GeneratedAsset[];
+  onClose: () => void;
+}
+
+const RANGES: { key: 'sizeMm' | 'borderMm' | 'bleedMm'; label: string; min: number; max: number; step: number }[] = [
+  { key: 'sizeMm', label: 'Sticker size', min: 20, max: 150, step: 5 },
+  { key: 'borderMm', label: 'White border', min: 0, max: 10, step: 0.5 },
+  { key: 'bleedMm', label: 'Bleed', min: 0, max: 5, step: 0.5 },
+];
+
+const LAYOUTS: { value: StickerLayout; label: string }[] = [
+  { value: 'single', label: 'One per page' },
+  { value: 'a4', label: 'A4 sheet' },
+  { value: 'letter', label: 'Letter sheet' },
+];
+
+const DPI_OPTIONS = [150, 300, 600];
+
+// The preview only needs to be legible on screen.
+const PREVIEW_DPI = 72;
+
+export const StickerExportDialog: React.FC<StickerExportDialogProps> = ({ assets, onClose }) => {
+  const [options, setOptions] = useState<StickerOptions>(DEFAULT_STICKER_OPTIONS);
+  const [preview, setPreview] = useState<{ url: string; pages: number } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (patch: Partial<StickerOptions>) => setOptions({ ...options, ...patch });
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    const timer = setTimeout(async () => {
+      try {
+        const sheet = await layoutStickers(assets, { ...options, dpi: PREVIEW_DPI });
+        if (cancelled) return;
+        url = URL.createObjectURL(new Blob([renderSheetSvg(sheet, 0)], { type: 'image/svg+xml' }));
+        setPreview({ url, pages: sheet.pages.length });
+        setError(null);
+      } catch (err: any) {
+        if (!cancelled) setError(err.message || 'Could not lay out the stickers.');
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [assets, options]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const sheet = await layoutStickers(assets, options);
+      const { blob, filename } = exportStickers(sheet, options, assets);
+      downloadBlob(blob, filename);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Sticker export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/90 backdrop-blur-xl"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-[2.5rem] overflow-hidden shadow-2xl max-w-4xl w-full flex flex-col md:flex-row max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="md:w-3/5 bg-slate-200 flex items-center justify-center p-6">
+          {preview ? (
+            <img src={preview.url} alt="Sticker print preview" className="max-h-[70vh] w-auto bg-white shadow-xl" />
+          ) : (
+            <p className="text-xs text-slate-400 font-bold uppercase tracking-widest">Computing outline...</p>
+          )}
+        </div>
+
+        <div className="md:w-2/5 p-8 flex flex-col gap-4 overflow-y-auto">
+          <div>
+            <h2 className="text-2xl font-extrabold text-slate-900">Die-cut stickers</h2>
+            <p className="text-sm text-slate-500 font-medium">
+              {assets.length} {assets.length === 1 ? 'design' : 'designs'}
+              {preview && ` · ${preview.pages} ${preview.pages === 1 ? 'page' : 'pages'}`} · cut path on the magenta CutContour layer
+            </p>
+          </div>
+
+          {RANGES.map((range) => (
+            <label key={range.key} className="block">
+              <span className="flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-500">
+                {range.label}
+                <span className="text-slate-400">{options[range.key]} mm</span>
+              </span>
+              <input
+                type="range"
+                min={range.min}
+                max={range.max}
+                step={range.step}
+                value={options[range.key]}
+                onChange={(e) => update({ [range.key]: Number(e.target.value) })}
+                className="w-full accent-indigo-600"
+              />
+            </label>
+          ))}
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Layout</span>
+              <select
+                value={options.layout}
+                onChange={(e) => update({ layout: e.target.value as StickerLayout })}
+                className="w-full mt-1 px-3 py-2 bg-white border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-600 outline-none focus:border-indigo-500"
+              >
+                {LAYOUTS.map((layout) => (
+                  <option key={layout.value} value={layout.value}>{layout.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Resolution</span>
+              <select
+                value={options.dpi}
+                onChange={(e) => update({ dpi: Number(e.target.value) })}
+                className="w-full mt-1 px-3 py-2 bg-white border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-600 outline-none focus:border-indigo-500"
+              >
+                {DPI_OPTIONS.map((dpi) => (
+                  <option key={dpi} value={dpi}>{dpi} DPI</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Copies each</span>
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={options.copies}
+                onChange={(e) => update({ copies: Math.min(50, Math.max(1, Number(e.target.value) || 1)) })}
+                className="w-full mt-1 px-3 py-2 bg-white border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-600 outline-none focus:border-indigo-500"
+              />
+            </label>
+            <div>
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Format</span>
+              <div className="flex mt-1 gap-1">
+                {(['pdf', 'svg'] as const).map((format) => (
+                  <button
+                    key={format}
+                    type="button"
+                    onClick={() => update({ format })}
+                    className={`flex-1 py-2 rounded-xl text-xs font-black uppercase tracking-widest border-2 ${
+                      options.format === format
+                        ? 'bg-indigo-50 border-indigo-600 text-indigo-700'
+                        : 'bg-white border-slate-100 text-slate-500 hover:border-slate-200'
+                    }`}
+                  >
+                    {format}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {error && <p className="text-sm font-bold text-red-500">{error}</p>}
+
+          <div className="mt-auto flex gap-3">
+            <button
+              onClick={handleExport}
+              disabled={isExporting || !!error}
+              className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-40"
+            >
+              {isExporting ? 'Preparing print file...' : `Download ${options.format.toUpperCase()}`}
+            </button>
+            <button
+              onClick={onClose}
+              className="px-6 py-4 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
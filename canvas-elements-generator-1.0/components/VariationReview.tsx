@@ -0,0 +1,243 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AssetType, BrandKit, SetOptions, VariationDiversity } from '../types';
+import { generatePromptVariations } from '../services/geminiService';
+
+interface VariationReviewProps {
+  prompt: string;
+  type: AssetType;
+  hasReference: boolean;
+  set?: SetOptions;
+  brandKit?: BrandKit;
+  defaultCount: number;
+  maxCount: number;
+  onApprove: (prompts: string[]) => void;
+  onCancel: () => void;
+}
+
+interface Draft {
+  key: number;
+  text: string;
+  busy?: boolean;
+}
+
+const DIVERSITY_OPTIONS: { value: VariationDiversity; label: string; hint: string }[] = [
+  { value: 'subtle', label: 'Near-duplicates', hint: 'Small tweaks to one idea' },
+  { value: 'balanced', label: 'Balanced', hint: 'Same subject, varied style' },
+  { value: 'wild', label: 'Wildly different', hint: 'Reinterpret the subject' },
+];
+
+let nextKey = 0;
+const toDrafts = (texts: string[]): Draft[] => texts.map((text) => ({ key: nextKey++, text }));
+
+export const VariationReview: React.FC<VariationReviewProps> = ({
+  prompt,
+  type,
+  hasReference,
+  set,
+  brandKit,
+  defaultCount,
+  maxCount,
+  onApprove,
+  onCancel,
+}) => {
+  const [count, setCount] = useState(defaultCount);
+  const [diversity, setDiversity] = useState<VariationDiversity>('balanced');
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [isWriting, setIsWriting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [blocked, setBlocked] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const write = async () => {
+    setIsWriting(true);
+    setError(null);
+    try {
+      const result = await generatePromptVariations(prompt, type, count, { diversity, brandKit });
+      setDrafts(toDrafts(result.variations));
+      setBlocked(result.blocked);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Could not write variations.');
+    } finally {
+      setIsWriting(false);
+    }
+  };
+
+  // The first batch is written once when the review opens; later batches
+  // only when asked for.
+  const initialWriteRef = useRef<(() => Promise<void>) | null>(write);
+  useEffect(() => {
+    containerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    const initialWrite = initialWriteRef.current;
+    initialWriteRef.current = null;
+    initialWrite?.();
+  }, []);
+
+  const update = (key: number, patch: Partial<Draft>) =>
+    setDrafts((prev) => prev.map((draft) => (draft.key === key ? { ...draft, ...patch } : draft)));
+
+  const move = (index: number, offset: number) =>
+    setDrafts((prev) => {
+      const next = [...prev];
+      const [draft] = next.splice(index, 1);
+      next.splice(Math.max(0, Math.min(next.length, index + offset)), 0, draft);
+      return next;
+    });
+
+  const regenerate = async (draft: Draft) => {
+    update(draft.key, { busy: true });
+    setError(null);
+    try {
+      const exclude = drafts.map((other) => other.text.trim()).filter(Boolean);
+      const {
+        variations: [replacement],
+      } = await generatePromptVariations(prompt, type, 1, { diversity, exclude, brandKit });
+      if (!replacement) throw new Error('No new variation came back. Try a different diversity level.');
+      update(draft.key, { text: replacement, busy: false });
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Could not rewrite that variation.');
+      update(draft.key, { busy: false });
+    }
+  };
+
+  const approved = drafts.map((draft) => draft.text.trim()).filter(Boolean);
+
+  return (
+    <div ref={containerRef} className="mb-8 max-w-3xl mx-auto bg-white rounded-[2rem] shadow-xl border border-slate-100 p-6 md:p-8 space-y-5">
+      <div>
+        <h2 className="text-2xl font-extrabold text-slate-900">Review variations</h2>
+        <p className="text-sm text-slate-500 font-medium">
+          {type} · "{prompt}"{hasReference && ' · with reference image'}{brandKit && ` · ${brandKit.name} brand kit`}{set && ` · ${set.size}px icon set`}. Nothing is rendered until you approve.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="block">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Count</span>
+          <input
+            type="number"
+            min={1}
+            max={maxCount}
+            value={count}
+            onChange={(e) => setCount(Math.min(maxCount, Math.max(1, Number(e.target.value) || 1)))}
+            className="block w-20 mt-1 px-3 py-2 bg-white border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-600 outline-none focus:border-indigo-500"
+          />
+        </label>
+        <div>
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Diversity</span>
+          <div className="flex mt-1 gap-1">
+            {DIVERSITY_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setDiversity(option.value)}
+                title={option.hint}
+                className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border-2 ${
+                  diversity === option.value
+                    ? 'bg-indigo-50 border-indigo-600 text-indigo-700'
+                    : 'bg-white border-slate-100 text-slate-500 hover:border-slate-200'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={write}
+          disabled={isWriting}
+          className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-slate-900 text-white hover:bg-indigo-700 disabled:opacity-40"
+        >
+          {isWriting ? 'Writing...' : drafts.length ? 'Rewrite all' : 'Write variations'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm font-bold text-red-500">{error}</p>}
+      {blocked > 0 && (
+        <p className="text-xs font-bold text-amber-600">
+          {blocked} {blocked === 1 ? 'suggestion was' : 'suggestions were'} removed by moderation.
+        </p>
+      )}
+
+      <ol className="space-y-2">
+        {drafts.map((draft, index) => (
+          <li key={draft.key} className="flex items-center gap-2">
+            <span className="w-6 text-right text-xs font-black text-slate-300">{index + 1}</span>
+            <input
+              type="text"
+              value={draft.text}
+              onChange={(e) => update(draft.key, { text: e.target.value })}
+              disabled={draft.busy}
+              placeholder="Describe this variation"
+              className="flex-1 px-3 py-2 bg-slate-50 border-2 border-slate-100 rounded-xl text-sm font-medium text-slate-700 outline-none focus:border-indigo-500 disabled:opacity-50"
+            />
+            <button
+              type="button"
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              title="Move up"
+              className="w-8 h-8 rounded-lg bg-slate-100 text-slate-500 font-bold hover:bg-slate-200 disabled:opacity-30"
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => move(index, 1)}
+              disabled={index === drafts.length - 1}
+              title="Move down"
+              className="w-8 h-8 rounded-lg bg-slate-100 text-slate-500 font-bold hover:bg-slate-200 disabled:opacity-30"
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              onClick={() => regenerate(draft)}
+              disabled={draft.busy || isWriting}
+              title="Rewrite this variation"
+              className="w-8 h-8 rounded-lg bg-slate-100 text-slate-500 font-bold hover:bg-slate-200 disabled:opacity-30"
+            >
+              ↻
+            </button>
+            <button
+              type="button"
+              onClick={() => setDrafts((prev) => prev.filter((other) => other.key !== draft.key))}
+              title="Remove"
+              className="w-8 h-8 rounded-lg bg-red-50 text-red-500 font-bold hover:bg-red-100"
+            >
+              ×
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={() => setDrafts((prev) => [...prev, ...toDrafts([''])])}
+          disabled={drafts.length >= maxCount}
+          className="px-4 py-3 rounded-2xl text-xs font-black uppercase tracking-widest border-2 bg-white border-slate-100 text-slate-500 hover:border-slate-200 disabled:opacity-40"
+        >
+          + Add variation
+        </button>
+        <div className="flex-1" />
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-6 py-3 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onApprove(approved)}
+          disabled={approved.length === 0 || approved.length > maxCount || isWriting}
+          className="px-6 py-3 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-40"
+        >
+          Generate {approved.length} {approved.length === 1 ? 'image' : 'images'}
+        </button>
+      </div>
+    </div>
+  );
+};
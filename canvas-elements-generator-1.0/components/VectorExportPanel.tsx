@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { GeneratedAsset } from '../types';
+import { altTextOf } from '../services/assetLibrary';
+import { assetFileBase, downloadBlob } from '../services/exportService';
+import {
+  DEFAULT_TRACE_OPTIONS,
+  loadTraceSource,
+  traceImage,
+  TraceOptions,
+  TraceSource,
+  VectorResult,
+} from '../services/vectorizer';
+
+interface VectorExportPanelProps {
+  asset: GeneratedAsset;
+  onError: (message: string) => void;
+}
+
+const CONTROLS: { key: keyof TraceOptions; label: string; min: number; max: number }[] = [
+  { key: 'colors', label: 'Colors', min: 2, max: 16 },
+  { key: 'smoothing', label: 'Smoothing', min: 0, max: 100 },
+  { key: 'detail', label: 'Detail', min: 0, max: 100 },
+];
+
+export const VectorExportPanel: React.FC<VectorExportPanelProps> = ({ asset, onError }) => {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<TraceOptions>(DEFAULT_TRACE_OPTIONS);
+  const [source, setSource] = useState<TraceSource | null>(null);
+  const [result, setResult] = useState<VectorResult | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || source) return;
+    loadTraceSource(asset.url)
+      .then(setSource)
+      .catch((err) => {
+        console.error(err);
+        onError(err.message || 'Could not read the image for tracing.');
+      });
+  }, [open, source, asset.url, onError]);
+
+  // Tracing blocks the main thread for a moment, so wait for the sliders to settle.
+  useEffect(() => {
+    if (!source) return;
+    const timer = setTimeout(() => setResult(traceImage(source, options)), 200);
+    return () => clearTimeout(timer);
+  }, [source, options]);
+
+  useEffect(() => {
+    if (!result) return;
+    const url = URL.createObjectURL(new Blob([result.svg], { type: 'image/svg+xml' }));
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [result]);
+
+  const handleDownload = () => {
+    if (!result) return;
+    downloadBlob(new Blob([result.svg], { type: 'image/svg+xml' }), `${assetFileBase(asset)}.svg`);
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="w-full py-4 bg-slate-100 text-slate-700 rounded-2xl font-bold flex items-center justify-center gap-3 hover:bg-slate-200 transition-all active:scale-95"
+      >
+        <span className="flex-1 text-left px-4">Vector SVG</span>
+        <span className="bg-slate-200 px-2 py-1 rounded text-[10px]">Scalable</span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-slate-50 border border-slate-100 rounded-2xl p-4 space-y-3">
+      <div className={`aspect-square rounded-xl overflow-hidden flex items-center justify-center ${asset.hasAlpha ? 'alpha-grid' : 'bg-white'}`}>
+        {previewUrl ? (
+          <img src={previewUrl} alt={`Vector trace of ${altTextOf(asset)}`} className="w-full h-full object-contain" />
+        ) : (
+          <p className="text-xs text-slate-400 font-bold uppercase tracking-widest">Tracing...</p>
+        )}
+      </div>
+
+      {CONTROLS.map((control) => (
+        <label key={control.key} className="block">
+          <span className="flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-500">
+            {control.label}
+            <span className="text-slate-400">{options[control.key]}</span>
+          </span>
+          <input
+            type="range"
+            min={control.min}
+            max={control.max}
+            value={options[control.key]}
+            onChange={(e) => setOptions({ ...options, [control.key]: Number(e.target.value) })}
+            className="w-full accent-indigo-600"
+          />
+        </label>
+      ))}
+
+      {result && (
+        <div className="flex items-center gap-1">
+          {result.palette.map((color) => (
+            <span key={color} title={color} className="w-4 h-4 rounded border border-slate-200" style={{ backgroundColor: color }} />
+          ))}
+          <span className="ml-auto text-[10px] font-bold text-slate-400">
+            {(result.svg.length / 1024).toFixed(1)} KB
+          </span>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleDownload}
+          disabled={!result}
+          className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-40"
+        >
+          Download SVG
+        </button>
+        <button
+          onClick={() => setOpen(false)}
+          className="px-4 py-3 bg-white border border-slate-200 text-slate-500 rounded-xl font-bold hover:bg-slate-100"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
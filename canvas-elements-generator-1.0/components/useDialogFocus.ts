@@ -0,0 +1,60 @@
+import { RefObject, useEffect, useRef } from 'react';
+
+const FOCUSABLE = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(', ');
+
+const focusableIn = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter((element) => element.getClientRects().length > 0);
+
+// Modal focus handling: while `open`, Tab and Shift+Tab cycle inside `ref` and
+// Escape calls `onClose`; on close, focus returns to whatever opened it.
+// `paused` hands the keyboard to a dialog stacked on top.
+export function useDialogFocus(ref: RefObject<HTMLElement | null>, open: boolean, onClose: () => void, paused = false) {
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    if (!open) return;
+    const opener = document.activeElement as HTMLElement | null;
+    ref.current?.focus();
+    return () => {
+      if (opener?.isConnected) opener.focus();
+    };
+  }, [ref, open]);
+
+  useEffect(() => {
+    if (!open || paused) return;
+
+    const handleKey = (e: KeyboardEvent) => {
+      const container = ref.current;
+      if (!container) return;
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCloseRef.current();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+
+      const focusable = focusableIn(container);
+      const current = document.activeElement;
+      const outside = !container.contains(current) || current === container;
+      if (focusable.length === 0) {
+        e.preventDefault();
+      } else if (e.shiftKey && (outside || current === focusable[0])) {
+        e.preventDefault();
+        focusable[focusable.length - 1].focus();
+      } else if (!e.shiftKey && (outside || current === focusable[focusable.length - 1])) {
+        e.preventDefault();
+        focusable[0].focus();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [ref, open, paused]);
+}
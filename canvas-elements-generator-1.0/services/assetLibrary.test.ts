@@ -0,0 +1,79 @@
+import "fake-indexeddb/auto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AssetType, GeneratedAsset, LibraryQuery } from "../types";
+import { addAssetVersion, deleteAssets, matchesQuery, queryAssets, saveAsset, withLibraryAssets } from "./assetLibrary";
+
+const ALL: LibraryQuery = { search: "", type: "all", since: "all", favoritesOnly: false };
+const PIXEL = "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+const asset = (id: string, overrides: Partial<GeneratedAsset> = {}): GeneratedAsset => ({
+  id,
+  url: PIXEL,
+  type: AssetType.STICKER,
+  prompt: "a cute cat",
+  timestamp: Date.now(),
+  mimeType: "image/png",
+  ...overrides,
+});
+
+afterEach(async () => {
+  const { assets } = await queryAssets(ALL, null, Infinity);
+  await deleteAssets(assets.map((stored) => stored.id));
+  vi.restoreAllMocks();
+});
+
+describe("matchesQuery", () => {
+  it("searches the prompt, alt text and tags", () => {
+    const tagged = asset("a", { altText: "Sticker showing a cat", tags: ["pastel"] });
+    expect(matchesQuery(tagged, { ...ALL, search: "cute pastel" })).toBe(true);
+    expect(matchesQuery(tagged, { ...ALL, search: "dog" })).toBe(false);
+    expect(matchesQuery(tagged, { ...ALL, type: AssetType.PHOTO })).toBe(false);
+    expect(matchesQuery(tagged, { ...ALL, since: "day" }, tagged.timestamp + 2 * 24 * 60 * 60 * 1000)).toBe(false);
+  });
+});
+
+describe("object URLs", () => {
+  it("reuses the URLs of assets the UI already holds", async () => {
+    const saved = await saveAsset(asset("held"));
+    const revoke = vi.spyOn(URL, "revokeObjectURL");
+
+    const { assets } = await queryAssets(ALL, null, Infinity);
+    expect(assets.find((stored) => stored.id === "held")?.url).toBe(saved.url);
+    expect(revoke).not.toHaveBeenCalled();
+  });
+
+  it("exports the library without revoking the UI's URLs", async () => {
+    const saved = await saveAsset(asset("shown"));
+    await saveAsset(asset("hidden", { prompt: "a dog" }));
+    const revoke = vi.spyOn(URL, "revokeObjectURL");
+
+    const exported = await withLibraryAssets(
+      (stored) => matchesQuery(stored, { ...ALL, search: "cat" }),
+      async (assets) => assets
+    );
+    expect(exported.map((stored) => stored.id)).toEqual(["shown"]);
+    expect(exported[0].url).not.toBe(saved.url);
+    expect(revoke.mock.calls.map(([url]) => url)).toEqual([exported[0].url]);
+  });
+
+  it("revokes an asset's URLs once it is deleted", async () => {
+    const saved = await saveAsset(asset("gone"));
+    const revoke = vi.spyOn(URL, "revokeObjectURL");
+
+    await deleteAssets(["gone"]);
+    expect(revoke).toHaveBeenCalledWith(saved.url);
+    expect((await queryAssets(ALL, null, Infinity)).assets).toEqual([]);
+  });
+});
+
+describe("addAssetVersion", () => {
+  it("keeps both of two edits that land at the same time", async () => {
+    await saveAsset(asset("edited"));
+    const edit = (instruction: string) => addAssetVersion("edited", { url: PIXEL, mimeType: "image/png" }, instruction);
+    await Promise.all([edit("make it blue"), edit("add a hat")]);
+
+    const [stored] = (await queryAssets(ALL, null, Infinity)).assets;
+    expect(stored.versions?.map((version) => version.instruction)).toEqual([undefined, "make it blue", "add a hat"]);
+    expect(stored.activeVersion).toBe(2);
+  });
+});
@@ -0,0 +1,372 @@
+import { AssetFile, AssetVersion, GeneratedAsset, LibraryQuery } from "../types";
+
+const DB_NAME = "canvas-elements-library";
+const DB_VERSION = 1;
+const ASSETS = "assets";
+const FILES = "files";
+
+const DAY = 24 * 60 * 60 * 1000;
+const DATE_RANGES: Record<LibraryQuery["since"], number> = {
+  all: Infinity,
+  day: DAY,
+  week: 7 * DAY,
+  month: 30 * DAY,
+};
+
+// Records keep only metadata; image bytes live in the files store as blobs
+// and are handed to the UI as object URLs.
+interface StoredAsset extends Omit<GeneratedAsset, "url" | "alternates"> {
+  favorite: boolean;
+  files: string[];
+}
+
+interface StoredFile {
+  key: string;
+  assetId: string;
+  mimeType: string;
+  blob: Blob;
+}
+
+export interface LibraryPage {
+  assets: GeneratedAsset[];
+  cursor: [number, string] | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Object URLs handed to the UI, per asset and file key. Hydrating an asset
+// again reuses them, so URLs the gallery or an open dialog still holds stay
+// valid until the asset is deleted.
+const objectUrls = new Map<string, Map<string, string>>();
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        const assets = db.createObjectStore(ASSETS, { keyPath: "id" });
+        assets.createIndex("recent", ["timestamp", "id"]);
+        const files = db.createObjectStore(FILES, { keyPath: "key" });
+        files.createIndex("assetId", "assetId");
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+const fileKey = (assetId: string, mimeType: string) => `${assetId}/${mimeType}`;
+
+// Edited versions sit next to the original files, so deleting by the
+// `${assetId}/` prefix still removes everything.
+const versionKey = (assetId: string, index: number, mimeType: string) => `${assetId}/v${index}/${mimeType}`;
+
+async function toBlob(file: AssetFile): Promise<Blob> {
+  const response = await fetch(file.url);
+  const blob = await response.blob();
+  return blob.type ? blob : new Blob([blob], { type: file.mimeType });
+}
+
+function urlFor(file: StoredFile): string {
+  let urls = objectUrls.get(file.assetId);
+  if (!urls) {
+    urls = new Map();
+    objectUrls.set(file.assetId, urls);
+  }
+  let url = urls.get(file.key);
+  if (!url) {
+    url = URL.createObjectURL(file.blob);
+    urls.set(file.key, url);
+  }
+  return url;
+}
+
+function releaseUrls(assetId: string) {
+  objectUrls.get(assetId)?.forEach((url) => URL.revokeObjectURL(url));
+  objectUrls.delete(assetId);
+}
+
+async function hydrate(db: IDBDatabase, record: StoredAsset): Promise<GeneratedAsset> {
+  const { files: mimeTypes, ...asset } = record;
+  const store = db.transaction(FILES, "readonly").objectStore(FILES);
+  // Both lookups are issued before awaiting so the read transaction stays active.
+  const [files, versionFiles] = await Promise.all([
+    Promise.all(mimeTypes.map((mimeType) => promisify<StoredFile | undefined>(store.get(fileKey(record.id, mimeType))))),
+    Promise.all(
+      (record.versions || [])
+        .slice(1)
+        .map((version, i) => promisify<StoredFile | undefined>(store.get(versionKey(record.id, i + 1, version.mimeType))))
+    ),
+  ]);
+
+  const [primary, ...alternates] = files
+    .filter((file): file is StoredFile => !!file)
+    .map((file) => ({ mimeType: file.mimeType, url: urlFor(file) }));
+  const original = { ...asset, url: primary?.url || "", alternates };
+  if (!record.versions?.length) return original;
+
+  const urls = [original.url, ...versionFiles.map((file) => (file ? urlFor(file) : ""))];
+  const versions = record.versions.map((version, i) => ({ ...version, url: urls[i] }));
+  const active = versions[record.activeVersion || 0];
+  if (!record.activeVersion) return { ...original, versions };
+
+  return { ...original, versions, url: active.url, mimeType: active.mimeType, hasAlpha: active.hasAlpha, alternates: [] };
+}
+
+// Assets from before generation described its results fall back to the prompt.
+export const altTextOf = (asset: GeneratedAsset) => asset.altText || asset.prompt;
+
+export function matchesQuery(asset: GeneratedAsset, query: LibraryQuery, now = Date.now()): boolean {
+  if (query.type !== "all" && asset.type !== query.type) return false;
+  if (query.favoritesOnly && !asset.favorite) return false;
+  if (now - asset.timestamp > DATE_RANGES[query.since]) return false;
+
+  const terms = query.search.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = [asset.prompt, asset.altText || "", ...(asset.tags || [])].join(" ").toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+}
+
+export async function saveAsset(asset: GeneratedAsset): Promise<GeneratedAsset> {
+  const db = await openDb();
+  const sources: AssetFile[] = [
+    { url: asset.url, mimeType: asset.mimeType || "image/png" },
+    ...(asset.alternates || []),
+  ];
+  const blobs = await Promise.all(sources.map(toBlob));
+
+  const { url, alternates, ...meta } = asset;
+  const record: StoredAsset = {
+    ...meta,
+    favorite: !!asset.favorite,
+    files: sources.map((source) => source.mimeType),
+  };
+
+  const tx = db.transaction([ASSETS, FILES], "readwrite");
+  tx.objectStore(ASSETS).put(record);
+  sources.forEach((source, i) => {
+    const file: StoredFile = {
+      key: fileKey(asset.id, source.mimeType),
+      assetId: asset.id,
+      mimeType: source.mimeType,
+      blob: blobs[i],
+    };
+    tx.objectStore(FILES).put(file);
+  });
+  await completion(tx);
+
+  return hydrate(db, record);
+}
+
+// Walks records newest first from `cursor`, collecting those `match` accepts
+// until there are `limit` of them or `stop` ends the scan.
+function scanRecords(
+  db: IDBDatabase,
+  cursor: [number, string] | null,
+  limit: number,
+  match: (record: StoredAsset) => boolean,
+  stop: (record: StoredAsset) => boolean = () => false
+): Promise<{ records: StoredAsset[]; last: [number, string] | null }> {
+  const index = db.transaction(ASSETS, "readonly").objectStore(ASSETS).index("recent");
+  const range = cursor ? IDBKeyRange.upperBound(cursor, true) : undefined;
+  const records: StoredAsset[] = [];
+  let last: [number, string] | null = null;
+
+  return new Promise((resolve, reject) => {
+    const req = index.openCursor(range, "prev");
+    req.onerror = () => reject(req.error);
+    req.onsuccess = () => {
+      const current = req.result;
+      if (!current) return resolve({ records, last });
+
+      const record = current.value as StoredAsset;
+      if (stop(record)) return resolve({ records, last });
+
+      if (match(record)) {
+        records.push(record);
+      }
+      last = [record.timestamp, record.id];
+
+      if (records.length >= limit) return resolve({ records, last });
+      current.continue();
+    };
+  });
+}
+
+export async function queryAssets(
+  query: LibraryQuery,
+  cursor: [number, string] | null,
+  limit = 40
+): Promise<LibraryPage> {
+  const db = await openDb();
+  const now = Date.now();
+  const { records, last } = await scanRecords(
+    db,
+    cursor,
+    limit,
+    (record) => matchesQuery({ ...record, url: "" }, query, now),
+    // Records are walked newest first, so anything past the date window ends the scan.
+    (record) => now - record.timestamp > DATE_RANGES[query.since]
+  );
+
+  const assets = await Promise.all(records.map((record) => hydrate(db, record)));
+  return { assets, cursor: records.length >= limit ? last : null };
+}
+
+export async function setFavorite(id: string, favorite: boolean): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(ASSETS, "readwrite");
+  const store = tx.objectStore(ASSETS);
+  const record = await promisify<StoredAsset | undefined>(store.get(id));
+  if (record) {
+    store.put({ ...record, favorite });
+  }
+  await completion(tx);
+}
+
+// Reads, mutates and writes the record in one transaction so concurrent
+// updates never overwrite each other. `file`, when given, is built from the
+// updated record and stored in the same transaction.
+async function updateRecord(
+  id: string,
+  mutate: (record: StoredAsset) => StoredAsset,
+  file?: (updated: StoredAsset) => StoredFile
+) {
+  const db = await openDb();
+  const tx = db.transaction([ASSETS, FILES], "readwrite");
+  const store = tx.objectStore(ASSETS);
+  const record = await promisify<StoredAsset | undefined>(store.get(id));
+  if (!record) throw new Error("Asset not found in the library");
+
+  const updated = mutate(record);
+  store.put(updated);
+  if (file) tx.objectStore(FILES).put(file(updated));
+  await completion(tx);
+  return hydrate(db, updated);
+}
+
+// Stores an edit as a new version and makes it the active one; earlier
+// versions stay available for undo.
+export async function addAssetVersion(
+  id: string,
+  file: AssetFile & { hasAlpha?: boolean },
+  instruction: string
+): Promise<GeneratedAsset> {
+  // Converted before the transaction opens; awaiting anything else inside it
+  // would let it commit early.
+  const blob = await toBlob(file);
+  return updateRecord(
+    id,
+    (current) => {
+      const versions: AssetVersion[] = current.versions?.length
+        ? current.versions
+        : [{ mimeType: current.mimeType || "image/png", hasAlpha: current.hasAlpha, createdAt: current.timestamp }];
+      return {
+        ...current,
+        versions: [...versions, { mimeType: file.mimeType, hasAlpha: file.hasAlpha, instruction, createdAt: Date.now() }],
+        activeVersion: versions.length,
+      };
+    },
+    (updated) => ({ key: versionKey(id, updated.activeVersion!, file.mimeType), assetId: id, mimeType: file.mimeType, blob })
+  );
+}
+
+export async function setActiveVersion(id: string, index: number): Promise<GeneratedAsset> {
+  return updateRecord(id, (record) => ({
+    ...record,
+    activeVersion: Math.max(0, Math.min(index, (record.versions?.length || 1) - 1)),
+  }));
+}
+
+export async function setAssetDescription(
+  id: string,
+  description: { altText: string; tags: string[] }
+): Promise<GeneratedAsset> {
+  return updateRecord(id, (record) => ({ ...record, altText: description.altText, tags: description.tags }));
+}
+
+// Raw blobs of each asset's active version. Callers own any object URLs they
+// make from them, so the library's URLs are never revoked underneath them.
+export async function getAssetBlobs(ids: string[]): Promise<Map<string, Blob>> {
+  const db = await openDb();
+  const assets = db.transaction(ASSETS, "readonly").objectStore(ASSETS);
+  const records = await Promise.all(ids.map((id) => promisify<StoredAsset | undefined>(assets.get(id))));
+  const store = db.transaction(FILES, "readonly").objectStore(FILES);
+  const files = await Promise.all(
+    records.map((record) => {
+      if (!record) return undefined;
+      const active = record.activeVersion ? record.versions?.[record.activeVersion] : undefined;
+      const key = active
+        ? versionKey(record.id, record.activeVersion!, active.mimeType)
+        : fileKey(record.id, record.files[0]);
+      return promisify<StoredFile | undefined>(store.get(key));
+    })
+  );
+
+  const blobs = new Map<string, Blob>();
+  files.forEach((file, i) => file && blobs.set(ids[i], file.blob));
+  return blobs;
+}
+
+// Calls `run` with every library asset `match` accepts, newest first, each with
+// an object URL of its own for the active version. Those are revoked once `run`
+// settles; the URLs the UI holds are left alone. Meant for exports, which
+// would otherwise hydrate the whole library.
+export async function withLibraryAssets<T>(
+  match: (asset: GeneratedAsset) => boolean,
+  run: (assets: GeneratedAsset[]) => Promise<T>
+): Promise<T> {
+  const db = await openDb();
+  const { records } = await scanRecords(db, null, Infinity, (record) => match({ ...record, url: "" }));
+  const blobs = await getAssetBlobs(records.map((record) => record.id));
+
+  const urls: string[] = [];
+  const assets = records.flatMap((record): GeneratedAsset[] => {
+    const blob = blobs.get(record.id);
+    if (!blob) return [];
+    const url = URL.createObjectURL(blob);
+    urls.push(url);
+    const { files, ...asset } = record;
+    const active = record.activeVersion ? record.versions?.[record.activeVersion] : undefined;
+    return [{
+      ...asset,
+      url,
+      mimeType: active?.mimeType || record.mimeType || files[0],
+      hasAlpha: active ? active.hasAlpha : record.hasAlpha,
+      alternates: [],
+    }];
+  });
+
+  try {
+    return await run(assets);
+  } finally {
+    urls.forEach((url) => URL.revokeObjectURL(url));
+  }
+}
+
+export async function deleteAssets(ids: string[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([ASSETS, FILES], "readwrite");
+  const files = tx.objectStore(FILES);
+  for (const id of ids) {
+    tx.objectStore(ASSETS).delete(id);
+    files.delete(IDBKeyRange.bound(`${id}/`, `${id}/\uffff`));
+  }
+  await completion(tx);
+  ids.forEach(releaseUrls);
+}
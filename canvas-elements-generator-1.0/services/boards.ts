@@ -0,0 +1,219 @@
+import { BoardItem, BoardPreset, BoardScene, BoardTextItem } from "../types";
+import { canvasToBlob, ExportedFile, loadImage } from "./exportService";
+import { createPdfDocument, MM_TO_PT } from "./pdfWriter";
+
+export interface BoardPresetInfo {
+  label: string;
+  width: number;
+  height: number;
+  // Physical page size for PDF export, in points.
+  pageWidthPt: number;
+  pageHeightPt: number;
+}
+
+export const BOARD_PRESETS: Record<BoardPreset, BoardPresetInfo> = {
+  slide: { label: "16:9 slide", width: 1920, height: 1080, pageWidthPt: 960, pageHeightPt: 540 },
+  a4: { label: "A4 poster", width: 2480, height: 3508, pageWidthPt: 210 * MM_TO_PT, pageHeightPt: 297 * MM_TO_PT },
+  instagram: { label: "Instagram post", width: 1080, height: 1080, pageWidthPt: 810, pageHeightPt: 810 },
+};
+
+export type BoardAlignment = "left" | "center" | "right" | "top" | "middle" | "bottom";
+
+export const BOARD_FONT = "Inter, sans-serif";
+export const TEXT_LINE_HEIGHT = 1.2;
+
+const BOARDS_KEY = "board_scenes";
+
+export function createBoard(preset: BoardPreset, name = "Untitled board"): BoardScene {
+  const { width, height } = BOARD_PRESETS[preset];
+  const now = Date.now();
+  return {
+    version: 1,
+    id: crypto.randomUUID(),
+    name,
+    preset,
+    width,
+    height,
+    background: "#FFFFFF",
+    items: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function parseBoardScene(json: any): BoardScene {
+  if (!json || json.version !== 1 || !Array.isArray(json.items) || !BOARD_PRESETS[json.preset as BoardPreset]) {
+    throw new Error("Not a board scene file");
+  }
+  const items = json.items.filter(
+    (item: any) =>
+      item &&
+      ["x", "y", "width", "height", "rotation"].every((key) => Number.isFinite(item[key])) &&
+      ((item.kind === "asset" && typeof item.assetId === "string") || (item.kind === "text" && typeof item.text === "string"))
+  );
+  return {
+    ...json,
+    id: typeof json.id === "string" ? json.id : crypto.randomUUID(),
+    name: typeof json.name === "string" ? json.name : "Imported board",
+    width: Number(json.width) || BOARD_PRESETS[json.preset as BoardPreset].width,
+    height: Number(json.height) || BOARD_PRESETS[json.preset as BoardPreset].height,
+    items,
+  };
+}
+
+export function listBoards(): BoardScene[] {
+  try {
+    const boards = JSON.parse(localStorage.getItem(BOARDS_KEY) || "[]");
+    return Array.isArray(boards) ? boards : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveBoard(scene: BoardScene): BoardScene[] {
+  const boards = [scene, ...listBoards().filter((board) => board.id !== scene.id)];
+  localStorage.setItem(BOARDS_KEY, JSON.stringify(boards));
+  return boards;
+}
+
+export function deleteBoard(id: string): BoardScene[] {
+  const boards = listBoards().filter((board) => board.id !== id);
+  localStorage.setItem(BOARDS_KEY, JSON.stringify(boards));
+  return boards;
+}
+
+export const textFont = (item: Pick<BoardTextItem, "fontSize" | "fontWeight">) =>
+  `${item.fontWeight} ${item.fontSize}px ${BOARD_FONT}`;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Greedy word wrap that matches how the editor's text boxes break lines
+// closely enough for layout.
+export function wrapText(item: Pick<BoardTextItem, "text" | "fontSize" | "fontWeight" | "width">): string[] {
+  measureContext = measureContext || document.createElement("canvas").getContext("2d");
+  if (!measureContext) return item.text.split("\n");
+  measureContext.font = textFont(item);
+
+  const lines: string[] = [];
+  for (const paragraph of item.text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(" ")) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measureContext.measureText(candidate).width > item.width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+export const textHeight = (item: Pick<BoardTextItem, "text" | "fontSize" | "fontWeight" | "width">) =>
+  Math.ceil(wrapText(item).length * item.fontSize * TEXT_LINE_HEIGHT);
+
+// Axis-aligned bounds of a rotated item.
+export function itemBounds(item: BoardItem) {
+  const angle = (item.rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  const halfWidth = (item.width * cos + item.height * sin) / 2;
+  const halfHeight = (item.width * sin + item.height * cos) / 2;
+  return { left: item.x - halfWidth, right: item.x + halfWidth, top: item.y - halfHeight, bottom: item.y + halfHeight };
+}
+
+export function alignItem(item: BoardItem, alignment: BoardAlignment, scene: BoardScene): BoardItem {
+  const bounds = itemBounds(item);
+  switch (alignment) {
+    case "left":
+      return { ...item, x: item.x - bounds.left };
+    case "center":
+      return { ...item, x: scene.width / 2 };
+    case "right":
+      return { ...item, x: item.x + scene.width - bounds.right };
+    case "top":
+      return { ...item, y: item.y - bounds.top };
+    case "middle":
+      return { ...item, y: scene.height / 2 };
+    case "bottom":
+      return { ...item, y: item.y + scene.height - bounds.bottom };
+  }
+}
+
+// Items whose asset is missing from `images` (e.g. deleted from the library)
+// are left out.
+export async function renderBoard(scene: BoardScene, images: Map<string, string>): Promise<HTMLCanvasElement> {
+  await document.fonts?.ready;
+  const assetIds = [...new Set(scene.items.flatMap((item) => (item.kind === "asset" ? [item.assetId] : [])))];
+  const loaded = new Map(
+    await Promise.all(
+      assetIds
+        .filter((id) => images.has(id))
+        .map(async (id) => [id, await loadImage(images.get(id)!)] as const)
+    )
+  );
+
+  const canvas = document.createElement("canvas");
+  canvas.width = scene.width;
+  canvas.height = scene.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+  ctx.fillStyle = scene.background;
+  ctx.fillRect(0, 0, scene.width, scene.height);
+
+  for (const item of scene.items) {
+    ctx.save();
+    ctx.translate(item.x, item.y);
+    ctx.rotate((item.rotation * Math.PI) / 180);
+    if (item.kind === "asset") {
+      const img = loaded.get(item.assetId);
+      if (img) ctx.drawImage(img, -item.width / 2, -item.height / 2, item.width, item.height);
+    } else {
+      ctx.font = textFont(item);
+      ctx.fillStyle = item.color;
+      ctx.textBaseline = "middle";
+      ctx.textAlign = item.align;
+      const x = item.align === "left" ? -item.width / 2 : item.align === "right" ? item.width / 2 : 0;
+      const lineHeight = item.fontSize * TEXT_LINE_HEIGHT;
+      wrapText(item).forEach((line, i) => ctx.fillText(line, x, -item.height / 2 + lineHeight * (i + 0.5)));
+    }
+    ctx.restore();
+  }
+  return canvas;
+}
+
+const boardFileBase = (scene: BoardScene) =>
+  `board-${scene.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || scene.id}`;
+
+export async function exportBoardPng(scene: BoardScene, images: Map<string, string>): Promise<ExportedFile> {
+  const canvas = await renderBoard(scene, images);
+  return {
+    blob: await canvasToBlob(canvas, "image/png", 1),
+    filename: `${boardFileBase(scene)}.png`,
+    width: canvas.width,
+    height: canvas.height,
+  };
+}
+
+export async function exportBoardPdf(scene: BoardScene, images: Map<string, string>): Promise<ExportedFile> {
+  const canvas = await renderBoard(scene, images);
+  const pixels = canvas.getContext("2d")!.getImageData(0, 0, canvas.width, canvas.height).data;
+  const { pageWidthPt, pageHeightPt } = BOARD_PRESETS[scene.preset];
+
+  const pdf = createPdfDocument();
+  const image = pdf.addImage(pixels, canvas.width, canvas.height);
+  pdf.addPage(pageWidthPt, pageHeightPt, `q ${pageWidthPt.toFixed(2)} 0 0 ${pageHeightPt.toFixed(2)} 0 0 cm /${image} Do Q`);
+
+  return { blob: pdf.toBlob(), filename: `${boardFileBase(scene)}.pdf`, width: canvas.width, height: canvas.height };
+}
+
+export function exportBoardJson(scene: BoardScene): ExportedFile {
+  return {
+    blob: new Blob([JSON.stringify(scene, null, 2)], { type: "application/json" }),
+    filename: `${boardFileBase(scene)}.json`,
+    width: scene.width,
+    height: scene.height,
+  };
+}
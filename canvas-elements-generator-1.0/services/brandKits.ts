@@ -0,0 +1,111 @@
+import { BrandKit } from "../types";
+import { extractPalette, loadTraceSource } from "./vectorizer";
+
+const BRAND_KITS_KEY = "brand_kits";
+const ACTIVE_BRAND_KIT_KEY = "active_brand_kit";
+const DRIFT_COLORS = 6;
+
+export interface PaletteSwatch {
+  color: string;
+  share: number;
+  // Closest brand color and its CIE76 distance; absent without a kit.
+  nearest?: string;
+  deltaE?: number;
+}
+
+export interface PaletteDrift {
+  swatches: PaletteSwatch[];
+  // Share-weighted average deltaE; under ~10 reads as on-brand.
+  drift: number | null;
+}
+
+export function createBrandKit(name = "New brand kit"): BrandKit {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    palette: ["#1e293b", "#6366f1", "#f59e0b"],
+    keywords: [],
+    forbidden: [],
+    recolor: "off",
+    updatedAt: Date.now(),
+  };
+}
+
+export function listBrandKits(): BrandKit[] {
+  try {
+    const kits = JSON.parse(localStorage.getItem(BRAND_KITS_KEY) || "[]");
+    return Array.isArray(kits) ? kits : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveBrandKit(kit: BrandKit): BrandKit[] {
+  const kits = [kit, ...listBrandKits().filter((other) => other.id !== kit.id)];
+  localStorage.setItem(BRAND_KITS_KEY, JSON.stringify(kits));
+  return kits;
+}
+
+export function deleteBrandKit(id: string): BrandKit[] {
+  const kits = listBrandKits().filter((kit) => kit.id !== id);
+  localStorage.setItem(BRAND_KITS_KEY, JSON.stringify(kits));
+  if (getActiveBrandKitId() === id) setActiveBrandKitId(null);
+  return kits;
+}
+
+export function getActiveBrandKitId(): string | null {
+  return localStorage.getItem(ACTIVE_BRAND_KIT_KEY);
+}
+
+export function setActiveBrandKitId(id: string | null) {
+  if (id) localStorage.setItem(ACTIVE_BRAND_KIT_KEY, id);
+  else localStorage.removeItem(ACTIVE_BRAND_KIT_KEY);
+}
+
+// Comma- or newline-separated input from the kit editor.
+export const splitTerms = (text: string) =>
+  text
+    .split(/[,\n]/)
+    .map((term) => term.trim())
+    .filter(Boolean);
+
+export function brandKitPayload(kit?: BrandKit | null) {
+  if (!kit) return {};
+  const { id, name, palette, keywords, forbidden, recolor } = kit;
+  return { brandKit: { id, name, palette, keywords, forbidden, recolor } };
+}
+
+function toLab(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  const [r, g, b] = [(value >> 16) & 255, (value >> 8) & 255, value & 255].map((ch) => {
+    const c = ch / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const x = f((r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047);
+  const y = f(r * 0.2126 + g * 0.7152 + b * 0.0722);
+  const z = f((r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883);
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+}
+
+export function deltaE(a: string, b: string) {
+  const [l1, a1, b1] = toLab(a);
+  const [l2, a2, b2] = toLab(b);
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2);
+}
+
+// Extracts the image's dominant colors and measures how far each one sits
+// from the closest color in the kit.
+export async function measurePaletteDrift(url: string, kit?: BrandKit | null): Promise<PaletteDrift> {
+  const palette = extractPalette(await loadTraceSource(url), DRIFT_COLORS);
+  if (!kit?.palette.length) return { swatches: palette, drift: null };
+
+  const swatches = palette.map((swatch) => {
+    let nearest = kit.palette[0];
+    for (const color of kit.palette) {
+      if (deltaE(swatch.color, color) < deltaE(swatch.color, nearest)) nearest = color;
+    }
+    return { ...swatch, nearest, deltaE: deltaE(swatch.color, nearest) };
+  });
+  return { swatches, drift: swatches.reduce((sum, swatch) => sum + swatch.deltaE * swatch.share, 0) };
+}
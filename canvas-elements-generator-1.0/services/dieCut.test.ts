@@ -0,0 +1,88 @@
+import { unzipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import { AssetType, GeneratedAsset } from "../types";
+import { CUT_CONTOUR, DEFAULT_STICKER_OPTIONS, exportStickers, renderSheetPdf, renderSheetSvg, StickerArt, StickerSheet } from "./dieCut";
+import { PathCommand } from "./vectorizer";
+
+const asset: GeneratedAsset = { id: "s1", url: "", type: AssetType.STICKER, prompt: "a cat", timestamp: 0 };
+
+// The rendering functions only read pixels and data URLs from the canvas.
+const canvas = {
+  width: 1,
+  height: 1,
+  toDataURL: () => "data:image/png;base64,AAAA",
+  getContext: () => ({ getImageData: () => ({ data: new Uint8ClampedArray([255, 255, 255, 0]) }) }),
+} as unknown as HTMLCanvasElement;
+
+const square = (size: number): PathCommand[][] => [
+  [
+    ["M", [0, 0]],
+    ["L", [size, 0]],
+    ["L", [size, size]],
+    ["L", [0, size]],
+  ],
+];
+
+const sticker = (whiteBorder: boolean): StickerArt => ({
+  asset,
+  canvas,
+  widthMm: 20,
+  heightMm: 20,
+  cut: square(19),
+  bleed: square(20),
+  whiteBorder,
+});
+
+// Every page repeats the same two stickers.
+function sheet(pages: number, whiteBorder = true): StickerSheet {
+  const [first, second] = [sticker(whiteBorder), sticker(whiteBorder)];
+  return {
+    widthMm: 210,
+    heightMm: 297,
+    pages: Array.from({ length: pages }, () => [
+      { sticker: first, x: 10, y: 10 },
+      { sticker: second, x: 34, y: 10 },
+    ]),
+  };
+}
+
+describe("renderSheetSvg", () => {
+  it("offsets each cut path to its placement in a CutContour layer", () => {
+    const svg = renderSheetSvg(sheet(1), 0);
+    expect(svg).toContain('width="210mm" height="297mm" viewBox="0 0 210 297"');
+    expect(svg).toContain(`<g id="${CUT_CONTOUR}" fill="none" stroke="#FF00FF"`);
+    expect(svg).toContain(`<path id="${CUT_CONTOUR}-2" d="M34 10L53 10L53 29L34 29Z"/>`);
+    expect(svg).toContain('<path fill="#FFFFFF" d="M10 10L30 10L30 30L10 30Z"/>');
+  });
+
+  it("leaves out the white backing for borderless stickers", () => {
+    expect(renderSheetSvg(sheet(1, false), 0)).not.toContain("#FFFFFF");
+  });
+});
+
+describe("renderSheetPdf", () => {
+  it("embeds each sticker image once and strokes the cuts in the spot color", async () => {
+    const text = new TextDecoder("latin1").decode(new Uint8Array(await renderSheetPdf(sheet(2)).arrayBuffer()));
+    expect(text).toContain("/Count 2");
+    expect(text).toContain(`/Separation /${CUT_CONTOUR}`);
+    // Two stickers across both pages, each an RGB image with an alpha SMask.
+    expect(text.match(/\/Subtype \/Image/g)).toHaveLength(4);
+  });
+});
+
+describe("exportStickers", () => {
+  it("names single stickers after the asset and sheets after the layout", () => {
+    const options = { ...DEFAULT_STICKER_OPTIONS, layout: "a4" as const };
+    expect(exportStickers(sheet(1), DEFAULT_STICKER_OPTIONS, [asset]).filename).toBe("forge-sticker-s1-diecut.pdf");
+    expect(exportStickers(sheet(1), { ...options, format: "svg" }, [asset, asset])).toMatchObject({ filename: "forge-stickers-a4.svg" });
+  });
+
+  it("zips one SVG per page for multi-page sheets", async () => {
+    const { blob, filename } = exportStickers(sheet(2), { ...DEFAULT_STICKER_OPTIONS, layout: "a4", format: "svg" }, [asset, asset]);
+    expect(filename).toBe("forge-stickers-a4.zip");
+    expect(Object.keys(unzipSync(new Uint8Array(await blob.arrayBuffer())))).toEqual([
+      "forge-stickers-a4-page-1.svg",
+      "forge-stickers-a4-page-2.svg",
+    ]);
+  });
+});
@@ -0,0 +1,392 @@
+import { zipSync, strToU8 } from "fflate";
+import { GeneratedAsset } from "../types";
+import { assetFileBase, loadImage } from "./exportService";
+import { createPdfDocument, MM_TO_PT } from "./pdfWriter";
+import { PathCommand, Point, simplifyLoop, smoothLoop, svgPathData, traceMask } from "./vectorizer";
+
+export type StickerLayout = "single" | "a4" | "letter";
+export type StickerFormat = "pdf" | "svg";
+
+export interface StickerOptions {
+  // Longest side of the finished (cut) sticker.
+  sizeMm: number;
+  borderMm: number;
+  bleedMm: number;
+  dpi: number;
+  layout: StickerLayout;
+  copies: number;
+  format: StickerFormat;
+}
+
+export interface StickerArt {
+  asset: GeneratedAsset;
+  canvas: HTMLCanvasElement;
+  widthMm: number;
+  heightMm: number;
+  // Loops in millimetres relative to the sticker's top-left corner.
+  cut: PathCommand[][];
+  bleed: PathCommand[][];
+  whiteBorder: boolean;
+}
+
+export interface StickerPlacement {
+  sticker: StickerArt;
+  x: number;
+  y: number;
+}
+
+export interface StickerSheet {
+  widthMm: number;
+  heightMm: number;
+  pages: StickerPlacement[][];
+}
+
+export const DEFAULT_STICKER_OPTIONS: StickerOptions = {
+  sizeMm: 60,
+  borderMm: 3,
+  bleedMm: 1.5,
+  dpi: 300,
+  layout: "single",
+  copies: 1,
+  format: "pdf",
+};
+
+export const SHEET_SIZES: Record<Exclude<StickerLayout, "single">, [number, number]> = {
+  a4: [210, 297],
+  letter: [215.9, 279.4],
+};
+
+// Name understood by most cutting plotters and print RIPs.
+export const CUT_CONTOUR = "CutContour";
+
+const SHEET_MARGIN_MM = 10;
+const GAP_MM = 4;
+const CUT_STROKE_PT = 0.25;
+const MIN_ALPHA = 128;
+
+// Felzenszwalb-Huttenlocher squared distance transform along one row/column.
+function distance1d(f: Float32Array, n: number, d: Float32Array, v: Int32Array, z: Float32Array) {
+  let k = 0;
+  v[0] = 0;
+  z[0] = -Infinity;
+  z[1] = Infinity;
+  for (let q = 1; q < n; q++) {
+    let s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = (f[q] + q * q - (f[v[k]] + v[k] * v[k])) / (2 * q - 2 * v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = Infinity;
+  }
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (z[k + 1] < q) k++;
+    d[q] = (q - v[k]) * (q - v[k]) + f[v[k]];
+  }
+}
+
+// Euclidean distance (in pixels) from every pixel to the nearest mask pixel.
+function distanceToMask(mask: Uint8Array, width: number, height: number) {
+  const size = Math.max(width, height);
+  const f = new Float32Array(size);
+  const d = new Float32Array(size);
+  const v = new Int32Array(size);
+  const z = new Float32Array(size + 1);
+  const grid = new Float32Array(width * height);
+  const far = (width + height) ** 2;
+
+  for (let i = 0; i < grid.length; i++) grid[i] = mask[i] ? 0 : far;
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) f[y] = grid[y * width + x];
+    distance1d(f, height, d, v, z);
+    for (let y = 0; y < height; y++) grid[y * width + x] = d[y];
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) f[x] = grid[y * width + x];
+    distance1d(f, width, d, v, z);
+    for (let x = 0; x < width; x++) grid[y * width + x] = Math.sqrt(d[x]);
+  }
+  return grid;
+}
+
+// Transparent pockets inside the subject still get backing, so only the
+// outline reachable from the edge counts as outside.
+function fillHoles(mask: Uint8Array, width: number, height: number) {
+  const outside = new Uint8Array(width * height);
+  const stack: number[] = [];
+  for (let x = 0; x < width; x++) stack.push(x, (height - 1) * width + x);
+  for (let y = 0; y < height; y++) stack.push(y * width, y * width + width - 1);
+
+  while (stack.length) {
+    const p = stack.pop()!;
+    if (outside[p] || mask[p]) continue;
+    outside[p] = 1;
+    const x = p % width;
+    if (x > 0) stack.push(p - 1);
+    if (x < width - 1) stack.push(p + 1);
+    if (p >= width) stack.push(p - width);
+    if (p < width * (height - 1)) stack.push(p + width);
+  }
+  for (let i = 0; i < mask.length; i++) mask[i] = outside[i] ? 0 : 1;
+}
+
+// Without a white border the artwork itself has to run into the bleed, so edge
+// colors are smeared outwards one pixel per pass.
+function extendEdges(pixels: Uint8ClampedArray, mask: Uint8Array, target: Uint8Array, width: number) {
+  const filled = mask.slice();
+  let pending = true;
+  while (pending) {
+    pending = false;
+    const next = filled.slice();
+    for (let p = 0; p < filled.length; p++) {
+      if (filled[p] || !target[p]) continue;
+      const x = p % width;
+      const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, p - width, p + width];
+      const source = neighbours.find((n) => n >= 0 && n < filled.length && filled[n]);
+      if (source === undefined) continue;
+      pixels.set(pixels.subarray(source * 4, source * 4 + 3), p * 4);
+      pixels[p * 4 + 3] = 255;
+      next[p] = 1;
+      pending = true;
+    }
+    filled.set(next);
+  }
+}
+
+function signedArea(loop: Point[]) {
+  return loop.reduce((sum, [x, y], i) => {
+    const [nx, ny] = loop[(i + 1) % loop.length];
+    return sum + x * ny - nx * y;
+  }, 0);
+}
+
+function outline(mask: Uint8Array, width: number, height: number, pxToMm: number) {
+  return traceMask(mask, width, height)
+    .filter((loop) => signedArea(loop) > 0)
+    .map((loop) => simplifyLoop(loop, Math.max(0.75, 0.05 / pxToMm)))
+    .filter((loop) => loop.length >= 3)
+    .map((loop) => smoothLoop(loop.map(([x, y]) => [x * pxToMm, y * pxToMm] as Point), 60));
+}
+
+export async function prepareSticker(asset: GeneratedAsset, options: StickerOptions): Promise<StickerArt> {
+  const img = await loadImage(asset.url);
+  const source = document.createElement("canvas");
+  source.width = img.naturalWidth;
+  source.height = img.naturalHeight;
+  const sourceCtx = source.getContext("2d");
+  if (!sourceCtx) throw new Error("Canvas is not supported");
+  sourceCtx.drawImage(img, 0, 0);
+
+  // Crop to the subject so the size setting refers to the sticker, not the
+  // padding the model left around it.
+  let [left, top, right, bottom] = [0, 0, source.width - 1, source.height - 1];
+  if (asset.hasAlpha) {
+    const alpha = sourceCtx.getImageData(0, 0, source.width, source.height).data;
+    [left, top, right, bottom] = [source.width, source.height, -1, -1];
+    for (let y = 0; y < source.height; y++) {
+      for (let x = 0; x < source.width; x++) {
+        if (alpha[(y * source.width + x) * 4 + 3] < MIN_ALPHA) continue;
+        left = Math.min(left, x);
+        right = Math.max(right, x);
+        top = Math.min(top, y);
+        bottom = Math.max(bottom, y);
+      }
+    }
+    if (right < 0) throw new Error("This sticker has no visible subject to cut around.");
+  }
+
+  const pxPerMm = options.dpi / 25.4;
+  const cropWidth = right - left + 1;
+  const cropHeight = bottom - top + 1;
+  const artMm = Math.max(1, options.sizeMm - 2 * options.borderMm);
+  const scale = (artMm * pxPerMm) / Math.max(cropWidth, cropHeight);
+  const artWidth = Math.max(1, Math.round(cropWidth * scale));
+  const artHeight = Math.max(1, Math.round(cropHeight * scale));
+  const borderPx = options.borderMm * pxPerMm;
+  const bleedPx = options.bleedMm * pxPerMm;
+  const pad = Math.ceil(borderPx + bleedPx) + 2;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = artWidth + pad * 2;
+  canvas.height = artHeight + pad * 2;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+  ctx.drawImage(source, left, top, cropWidth, cropHeight, pad, pad, artWidth, artHeight);
+
+  const { width, height } = canvas;
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) mask[i] = imageData.data[i * 4 + 3] >= MIN_ALPHA ? 1 : 0;
+  fillHoles(mask, width, height);
+
+  const distance = distanceToMask(mask, width, height);
+  const cutMask = new Uint8Array(width * height);
+  const bleedMask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    cutMask[i] = distance[i] <= borderPx ? 1 : 0;
+    bleedMask[i] = distance[i] <= borderPx + bleedPx ? 1 : 0;
+  }
+
+  const whiteBorder = options.borderMm > 0;
+  if (!whiteBorder && options.bleedMm > 0) {
+    extendEdges(imageData.data, mask, bleedMask, width);
+    ctx.putImageData(imageData, 0, 0);
+  }
+
+  const pxToMm = 1 / pxPerMm;
+  return {
+    asset,
+    canvas,
+    widthMm: width * pxToMm,
+    heightMm: height * pxToMm,
+    cut: outline(cutMask, width, height, pxToMm),
+    bleed: outline(bleedMask, width, height, pxToMm),
+    whiteBorder,
+  };
+}
+
+export async function layoutStickers(assets: GeneratedAsset[], options: StickerOptions): Promise<StickerSheet> {
+  const stickers: StickerArt[] = [];
+  for (const asset of assets) stickers.push(await prepareSticker(asset, options));
+  const copies = stickers.flatMap((sticker) => Array.from({ length: Math.max(1, options.copies) }, () => sticker));
+
+  if (options.layout === "single") {
+    const widthMm = Math.max(...stickers.map((sticker) => sticker.widthMm));
+    const heightMm = Math.max(...stickers.map((sticker) => sticker.heightMm));
+    return {
+      widthMm,
+      heightMm,
+      pages: copies.map((sticker) => [
+        { sticker, x: (widthMm - sticker.widthMm) / 2, y: (heightMm - sticker.heightMm) / 2 },
+      ]),
+    };
+  }
+
+  // Shelf packing: fill rows left to right, start a new page when a row no
+  // longer fits.
+  const [widthMm, heightMm] = SHEET_SIZES[options.layout];
+  const pages: StickerPlacement[][] = [[]];
+  let x = SHEET_MARGIN_MM;
+  let y = SHEET_MARGIN_MM;
+  let rowHeight = 0;
+  for (const sticker of copies) {
+    if (sticker.widthMm > widthMm - 2 * SHEET_MARGIN_MM || sticker.heightMm > heightMm - 2 * SHEET_MARGIN_MM) {
+      throw new Error("Stickers are larger than the sheet. Reduce the sticker size.");
+    }
+    if (x + sticker.widthMm > widthMm - SHEET_MARGIN_MM) {
+      x = SHEET_MARGIN_MM;
+      y += rowHeight + GAP_MM;
+      rowHeight = 0;
+    }
+    if (y + sticker.heightMm > heightMm - SHEET_MARGIN_MM) {
+      pages.push([]);
+      x = SHEET_MARGIN_MM;
+      y = SHEET_MARGIN_MM;
+      rowHeight = 0;
+    }
+    pages[pages.length - 1].push({ sticker, x, y });
+    x += sticker.widthMm + GAP_MM;
+    rowHeight = Math.max(rowHeight, sticker.heightMm);
+  }
+  return { widthMm, heightMm, pages };
+}
+
+const offsetLoops = (loops: PathCommand[][], dx: number, dy: number) =>
+  loops.map((commands) =>
+    commands.map(([op, ...points]) => [op, ...points.map(([px, py]) => [px + dx, py + dy])] as PathCommand)
+  );
+
+export function renderSheetSvg(sheet: StickerSheet, pageIndex: number): string {
+  const placements = sheet.pages[pageIndex];
+  const artwork = placements.map(({ sticker, x, y }) => {
+    const backing = sticker.whiteBorder ? `<path fill="#FFFFFF" d="${svgPathData(offsetLoops(sticker.bleed, x, y), 3)}"/>` : "";
+    return `${backing}<image x="${x.toFixed(3)}" y="${y.toFixed(3)}" width="${sticker.widthMm.toFixed(3)}" height="${sticker.heightMm.toFixed(3)}" href="${sticker.canvas.toDataURL("image/png")}"/>`;
+  });
+  const cuts = placements.map(
+    ({ sticker, x, y }, i) => `<path id="${CUT_CONTOUR}-${i + 1}" d="${svgPathData(offsetLoops(sticker.cut, x, y), 3)}"/>`
+  );
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${sheet.widthMm}mm" height="${sheet.heightMm}mm" viewBox="0 0 ${sheet.widthMm} ${sheet.heightMm}">`,
+    `<g id="Artwork">${artwork.join("")}</g>`,
+    `<g id="${CUT_CONTOUR}" fill="none" stroke="#FF00FF" stroke-width="${(CUT_STROKE_PT / MM_TO_PT).toFixed(3)}">${cuts.join("")}</g>`,
+    "</svg>",
+  ].join("\n");
+}
+
+function pdfPath(loops: PathCommand[][], dx: number, dy: number) {
+  const n = (value: number) => value.toFixed(3);
+  return loops
+    .map((commands) => {
+      let current: Point = [0, 0];
+      const ops = commands.map(([op, ...points]) => {
+        const [end, control] = op === "Q" ? [points[1], points[0]] : [points[0], null];
+        const [ex, ey] = [end[0] + dx, end[1] + dy];
+        let out: string;
+        if (op === "M") out = `${n(ex)} ${n(ey)} m`;
+        else if (op === "L") out = `${n(ex)} ${n(ey)} l`;
+        else {
+          // PDF has no quadratic curves; raise to the equivalent cubic.
+          const [cx, cy] = [control![0] + dx, control![1] + dy];
+          const c1 = [current[0] + (2 / 3) * (cx - current[0]), current[1] + (2 / 3) * (cy - current[1])];
+          const c2 = [ex + (2 / 3) * (cx - ex), ey + (2 / 3) * (cy - ey)];
+          out = `${n(c1[0])} ${n(c1[1])} ${n(c2[0])} ${n(c2[1])} ${n(ex)} ${n(ey)} c`;
+        }
+        current = [ex, ey];
+        return out;
+      });
+      return `${ops.join("\n")}\nh`;
+    })
+    .join("\n");
+}
+
+export function renderSheetPdf(sheet: StickerSheet): Blob {
+  const pdf = createPdfDocument();
+  const cutColor = pdf.addSpotColor(CUT_CONTOUR, [0, 1, 0, 0]);
+  const images = new Map<StickerArt, string>();
+
+  sheet.pages.forEach((placements) => {
+    const content = [
+      // Flip to a top-left origin measured in millimetres.
+      `1 0 0 -1 0 ${(sheet.heightMm * MM_TO_PT).toFixed(2)} cm`,
+      `${MM_TO_PT.toFixed(5)} 0 0 ${MM_TO_PT.toFixed(5)} 0 0 cm`,
+    ];
+
+    placements.forEach(({ sticker, x, y }) => {
+      if (!images.has(sticker)) {
+        const { width, height } = sticker.canvas;
+        const pixels = sticker.canvas.getContext("2d")!.getImageData(0, 0, width, height).data;
+        images.set(sticker, pdf.addImage(pixels, width, height));
+      }
+      if (sticker.whiteBorder) content.push("1 g", pdfPath(sticker.bleed, x, y), "f");
+      content.push(
+        `q ${sticker.widthMm.toFixed(3)} 0 0 ${(-sticker.heightMm).toFixed(3)} ${x.toFixed(3)} ${(y + sticker.heightMm).toFixed(3)} cm /${images.get(sticker)} Do Q`
+      );
+    });
+
+    content.push(`/${cutColor} CS 1 SCN ${(CUT_STROKE_PT / MM_TO_PT).toFixed(3)} w`);
+    placements.forEach(({ sticker, x, y }) => content.push(pdfPath(sticker.cut, x, y), "S"));
+    pdf.addPage(sheet.widthMm * MM_TO_PT, sheet.heightMm * MM_TO_PT, content.join("\n"));
+  });
+
+  return pdf.toBlob();
+}
+
+export function exportStickers(sheet: StickerSheet, options: StickerOptions, assets: GeneratedAsset[]) {
+  const base = assets.length === 1 ? `${assetFileBase(assets[0])}-diecut` : `forge-stickers-${options.layout}`;
+  if (options.format === "pdf") {
+    return { blob: renderSheetPdf(sheet), filename: `${base}.pdf` };
+  }
+  if (sheet.pages.length === 1) {
+    return { blob: new Blob([renderSheetSvg(sheet, 0)], { type: "image/svg+xml" }), filename: `${base}.svg` };
+  }
+
+  // SVG has no pages, so multi-page layouts ship as one file per page.
+  const files = Object.fromEntries(
+    sheet.pages.map((_, i) => [`${base}-page-${i + 1}.svg`, strToU8(renderSheetSvg(sheet, i))])
+  );
+  return { blob: new Blob([zipSync(files)], { type: "application/zip" }), filename: `${base}.zip` };
+}
@@ -0,0 +1,83 @@
+import { strFromU8, unzipSync } from "fflate";
+import sharp from "sharp";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AssetType, GeneratedAsset } from "../types";
+import { assetFileBase, exportCollection, isMotionAsset } from "./exportService";
+import { readProvenance } from "./provenance";
+
+// Stands in for the browser image decoder; every image reports 4x3.
+class FakeImage {
+  naturalWidth = 4;
+  naturalHeight = 3;
+  crossOrigin = "";
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  set src(_url: string) {
+    setTimeout(() => this.onload?.());
+  }
+}
+
+const urls: string[] = [];
+const objectUrl = (bytes: Uint8Array, type: string) => {
+  const url = URL.createObjectURL(new Blob([bytes], { type }));
+  urls.push(url);
+  return url;
+};
+
+const asset = (id: string, overrides: Partial<GeneratedAsset>): GeneratedAsset => ({
+  id,
+  url: "",
+  type: AssetType.GIF,
+  prompt: "a waving cat",
+  timestamp: Date.UTC(2026, 0, 2),
+  ...overrides,
+});
+
+beforeEach(() => {
+  vi.stubGlobal("Image", FakeImage);
+});
+
+afterEach(() => {
+  urls.splice(0).forEach((url) => URL.revokeObjectURL(url));
+  vi.unstubAllGlobals();
+});
+
+describe("isMotionAsset", () => {
+  it("treats videos, GIFs and assets with alternate encodings as motion", () => {
+    expect(isMotionAsset(asset("a", { mimeType: "image/gif" }))).toBe(true);
+    expect(isMotionAsset(asset("a", { mimeType: "video/mp4", isVideo: true }))).toBe(true);
+    expect(isMotionAsset(asset("a", { mimeType: "image/webp", alternates: [{ mimeType: "image/gif", url: "" }] }))).toBe(true);
+    expect(isMotionAsset(asset("a", { mimeType: "image/png" }))).toBe(false);
+  });
+});
+
+describe("exportCollection", () => {
+  it("zips each file with a provenance sidecar where needed and a manifest", async () => {
+    const webp = new Uint8Array(await sharp({ create: { width: 4, height: 3, channels: 3, background: "#336699" } }).webp().toBuffer());
+    const animated = asset("anim", {
+      url: objectUrl(webp, "image/webp"),
+      mimeType: "image/webp",
+      alternates: [{ mimeType: "image/gif", url: "" }],
+      altText: 'Cat says "hi", waving',
+      tags: ["cat", "wave"],
+    });
+    const gif = asset("loop", { url: objectUrl(new Uint8Array([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]), "image/gif"), mimeType: "image/gif" });
+
+    const zip = unzipSync(new Uint8Array(await (await exportCollection([animated, gif], "png")).arrayBuffer()));
+    const webpName = `${assetFileBase(animated)}.webp`;
+    const gifName = `${assetFileBase(gif)}.gif`;
+    expect(Object.keys(zip).sort()).toEqual([webpName, `${gifName}.json`, gifName, "manifest.csv", "manifest.json"].sort());
+
+    expect(await readProvenance(new Blob([zip[webpName]]))).toMatchObject({ id: "anim", altText: animated.altText });
+    expect(JSON.parse(strFromU8(zip[`${gifName}.json`]))).toMatchObject({ id: "loop", prompt: gif.prompt });
+
+    const manifest = JSON.parse(strFromU8(zip["manifest.json"]));
+    expect(manifest).toMatchObject({ format: "png", count: 2 });
+    expect(manifest.assets[1]).toMatchObject({ file: gifName, altText: gif.prompt, width: 4, height: 3 });
+
+    const [header, first] = strFromU8(zip["manifest.csv"]).split("\r\n");
+    expect(header).toBe("file,id,type,prompt,basePrompt,altText,tags,timestamp,width,height");
+    expect(first).toBe(`${webpName},anim,GIF (Motion),a waving cat,,"Cat says ""hi"", waving","cat, wave",2026-01-02T00:00:00.000Z,4,3`);
+  });
+});
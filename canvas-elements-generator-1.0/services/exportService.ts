@@ -0,0 +1,149 @@
+import { zipSync, strToU8, Zippable } from "fflate";
+import { AssetFile, GeneratedAsset } from "../types";
+import { altTextOf } from "./assetLibrary";
+import { canEmbedProvenance, embedProvenance, provenanceSidecar } from "./provenance";
+
+export type RasterFormat = "png" | "jpeg" | "webp";
+
+export interface ExportedFile {
+  blob: Blob;
+  filename: string;
+  width: number;
+  height: number;
+  // Provenance JSON for formats that cannot embed it, saved as `${filename}.json`.
+  sidecar?: Blob;
+}
+
+export const FILE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "video/mp4": "mp4",
+};
+
+export const assetFileBase = (asset: GeneratedAsset) =>
+  `forge-${asset.type.toLowerCase().replace(/\s+/g, "-")}-${asset.id}`;
+
+export const isMotionAsset = (asset: GeneratedAsset) =>
+  !!asset.mimeType && (asset.isVideo || asset.mimeType === "image/gif" || (asset.alternates?.length ?? 0) > 0);
+
+export function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = url;
+  });
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))), mimeType, quality);
+  });
+}
+
+export async function renderAsset(asset: GeneratedAsset, format: RasterFormat): Promise<ExportedFile> {
+  const img = await loadImage(asset.url);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+
+  // JPEG has no alpha channel; PNG and WebP keep the transparent background.
+  if (format === "jpeg") {
+    ctx.fillStyle = "#FFFFFF";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  ctx.drawImage(img, 0, 0);
+  const blob = await embedProvenance(
+    await canvasToBlob(canvas, `image/${format}`, format === "webp" && asset.hasAlpha ? 1 : 0.9),
+    asset
+  );
+
+  return {
+    blob,
+    filename: `${assetFileBase(asset)}.${format}`,
+    width: canvas.width,
+    height: canvas.height,
+  };
+}
+
+// Animated assets keep their original encoding; rasterizing would keep only
+// the first frame.
+export async function originalFile(asset: GeneratedAsset, file?: AssetFile): Promise<ExportedFile> {
+  const source = file || { url: asset.url, mimeType: asset.mimeType || "image/png" };
+  const [blob, img] = await Promise.all([
+    fetch(source.url).then((response) => response.blob()),
+    loadImage(source.url),
+  ]);
+  const embeddable = canEmbedProvenance(source.mimeType);
+
+  return {
+    blob: embeddable ? await embedProvenance(blob, asset) : blob,
+    filename: `${assetFileBase(asset)}.${FILE_EXTENSIONS[source.mimeType] || "bin"}`,
+    width: img.naturalWidth,
+    height: img.naturalHeight,
+    sidecar: embeddable ? undefined : provenanceSidecar(asset),
+  };
+}
+
+export function exportAsset(asset: GeneratedAsset, format: RasterFormat): Promise<ExportedFile> {
+  return isMotionAsset(asset) ? originalFile(asset) : renderAsset(asset, format);
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+const MANIFEST_COLUMNS = ["file", "id", "type", "prompt", "basePrompt", "altText", "tags", "timestamp", "width", "height"] as const;
+
+function csvCell(value: string | number) {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export async function exportCollection(assets: GeneratedAsset[], format: RasterFormat): Promise<Blob> {
+  const files: Zippable = {};
+  const entries: Record<(typeof MANIFEST_COLUMNS)[number], string | number>[] = [];
+
+  for (const asset of assets) {
+    const exported = await exportAsset(asset, format);
+    // Image formats are already compressed; storing them avoids wasted work.
+    files[exported.filename] = [new Uint8Array(await exported.blob.arrayBuffer()), { level: 0 }];
+    if (exported.sidecar) files[`${exported.filename}.json`] = new Uint8Array(await exported.sidecar.arrayBuffer());
+    entries.push({
+      file: exported.filename,
+      id: asset.id,
+      type: asset.type,
+      prompt: asset.prompt,
+      basePrompt: asset.basePrompt || "",
+      altText: altTextOf(asset),
+      tags: (asset.tags || []).join(", "),
+      timestamp: new Date(asset.timestamp).toISOString(),
+      width: exported.width,
+      height: exported.height,
+    });
+  }
+
+  const manifest = { exportedAt: new Date().toISOString(), format, count: entries.length, assets: entries };
+  const csv = [
+    MANIFEST_COLUMNS.join(","),
+    ...entries.map((entry) => MANIFEST_COLUMNS.map((column) => csvCell(entry[column])).join(",")),
+  ].join("\r\n");
+
+  files["manifest.json"] = strToU8(JSON.stringify(manifest, null, 2));
+  files["manifest.csv"] = strToU8(csv);
+
+  return new Blob([zipSync(files)], { type: "application/zip" });
+}
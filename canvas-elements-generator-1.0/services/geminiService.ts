@@ -1,42 +1,192 @@
-import { AssetType } from "../types";
+import {
+  ApiErrorCode,
+  AssetType,
+  BrandKit,
+  GeneratedAsset,
+  GeneratedImage,
+  QuotaStatus,
+  ReferenceImage,
+  StylePreset,
+  VariationDiversity,
+} from "../types";
+import { brandKitPayload } from "./brandKits";
 
-export async function generateSingleAsset(
-  prompt: string,
-  type: AssetType
-): Promise<string> {
-  const response = await fetch("/api/generate", {
+const CLIENT_TOKEN_KEY = "client_token";
+const SKIP_CACHE_KEY = "skip_generation_cache";
+const REFERENCE_SIZE = 1024;
+
+// Typed failure from an API route. `retryAfter` is in seconds.
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public code: ApiErrorCode,
+    public status: number,
+    public retryAfter: number | null = null
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// Platform errors (function timeouts, gateway pages) arrive without a body.
+const STATUS_CODES: Record<number, ApiErrorCode> = {
+  400: "BAD_INPUT",
+  429: "RATE_LIMITED",
+  502: "UPSTREAM_ERROR",
+  503: "UPSTREAM_ERROR",
+  504: "UPSTREAM_TIMEOUT",
+};
+
+export async function readApiError(response: Response, fallback: string): Promise<ApiError> {
+  const data = await response.json().catch(() => ({}));
+  const header = Number(response.headers.get("Retry-After"));
+  return new ApiError(
+    data.error || fallback,
+    data.code || STATUS_CODES[response.status] || "GENERATION_FAILED",
+    response.status,
+    data.retryAfter ?? (header > 0 ? header : null)
+  );
+}
+
+// The server answers repeated requests from its generation cache unless the
+// user asked for fresh renders.
+export const isGenerationCacheEnabled = () => localStorage.getItem(SKIP_CACHE_KEY) !== "1";
+
+export function setGenerationCacheEnabled(enabled: boolean) {
+  if (enabled) {
+    localStorage.removeItem(SKIP_CACHE_KEY);
+  } else {
+    localStorage.setItem(SKIP_CACHE_KEY, "1");
+  }
+}
+
+// Identifies this browser to the quota layer when the server issues tokens.
+export function clientHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  const token = localStorage.getItem(CLIENT_TOKEN_KEY);
+  if (token) headers["X-Client-Token"] = token;
+  if (!isGenerationCacheEnabled()) headers["Cache-Control"] = "no-cache";
+  return headers;
+}
+
+// Downscales before upload; the server would shrink larger images anyway.
+export async function referenceFromBlob(blob: Blob): Promise<ReferenceImage> {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, REFERENCE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const [header, data] = canvas.toDataURL("image/webp", 0.92).split(",");
+  return { mimeType: header.slice(5, header.indexOf(";")), data };
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Sends the asset's current version; `mask` is white where changes are allowed.
+export async function editAssetImage(
+  asset: GeneratedAsset,
+  instruction: string,
+  mask?: Blob | null
+): Promise<GeneratedImage> {
+  const image = await blobToDataUrl(await fetch(asset.url).then((response) => response.blob()));
+  const response = await fetch("/api/edit", {
+    method: "POST",
+    headers: clientHeaders(),
+    body: JSON.stringify({
+      image: { data: image },
+      mask: mask ? { data: await blobToDataUrl(mask) } : undefined,
+      instruction,
+      type: asset.type,
+    }),
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response, "Failed to edit asset");
+  }
+
+  const data = await response.json();
+  return { url: data.image, mimeType: data.mimeType || "image/png", alternates: [], hasAlpha: !!data.hasAlpha };
+}
+
+// Alt text and tags suggested by the text model from the asset's image. The
+// server falls back to a description derived from the prompt when no model
+// can look at it. Counts against the quota only when the model answers.
+export async function describeAsset(asset: GeneratedAsset): Promise<{ altText: string; tags: string[] }> {
+  const image = asset.isVideo ? undefined : await referenceFromBlob(await fetch(asset.url).then((response) => response.blob()));
+  const response = await fetch("/api/describe", {
     method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ prompt, type }),
+    headers: clientHeaders(),
+    body: JSON.stringify({ prompt: asset.prompt, type: asset.type, image }),
   });
 
   if (!response.ok) {
-    throw new Error("Failed to generate asset");
+    throw await readApiError(response, "Failed to describe asset");
   }
 
   const data = await response.json();
-  return data.image;
+  return { altText: data.altText, tags: data.tags || [] };
 }
 
+// `exclude` lists prompts the user already has, so a single regenerated
+// variation comes back different from its siblings. `blocked` counts the
+// suggestions the server's moderation dropped.
 export async function generatePromptVariations(
   prompt: string,
   type: AssetType,
-  count = 10
-): Promise<string[]> {
+  count = 10,
+  {
+    diversity = "balanced",
+    exclude = [],
+    brandKit,
+  }: { diversity?: VariationDiversity; exclude?: string[]; brandKit?: BrandKit } = {}
+): Promise<{ variations: string[]; blocked: number }> {
   const response = await fetch("/api/variations", {
     method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({ prompt, count }),
+    headers: clientHeaders(),
+    body: JSON.stringify({ prompt, type, count, diversity, exclude, ...brandKitPayload(brandKit) }),
   });
 
   if (!response.ok) {
-    throw new Error("Failed to generate variations");
+    throw await readApiError(response, "Failed to generate variations");
+  }
+
+  const data = await response.json();
+  return { variations: data.variations, blocked: data.blocked || 0 };
+}
+
+export async function fetchStylePresets(): Promise<StylePreset[]> {
+  const response = await fetch("/api/presets");
+
+  if (!response.ok) {
+    throw new Error("Failed to load style presets");
   }
 
   const data = await response.json();
-  return data.variations;
+  return data.presets;
+}
+
+export async function fetchQuota(): Promise<QuotaStatus> {
+  const response = await fetch("/api/quota", { headers: clientHeaders() });
+
+  if (!response.ok) {
+    throw new Error("Failed to load generation quota");
+  }
+
+  const data = await response.json();
+  if (data.token) {
+    localStorage.setItem(CLIENT_TOKEN_KEY, data.token);
+  }
+  return data.quota;
 }
@@ -0,0 +1,208 @@
+import {
+  AssetType,
+  BrandKit,
+  GeneratedAsset,
+  GeneratedImage,
+  GenerationJob,
+  GenerationReference,
+  JobItem,
+  Motion,
+  SetOptions,
+} from "../types";
+import { brandKitPayload } from "./brandKits";
+import { ApiError, clientHeaders, readApiError } from "./geminiService";
+
+const POLL_INTERVAL_MS = 2000;
+
+export interface JobWatchHandlers {
+  onJob: (job: GenerationJob) => void;
+  onItem: (item: JobItem) => void;
+  onEnd: (job: GenerationJob) => void;
+  onError: (error: Error) => void;
+}
+
+function normalizeResult(result: any): GeneratedImage | null {
+  if (!result) return null;
+  return {
+    url: result.image,
+    mimeType: result.mimeType || "image/png",
+    alternates: result.alternates || [],
+    hasAlpha: !!result.hasAlpha,
+    provider: result.provider,
+    model: result.model,
+    altText: result.altText,
+    tags: result.tags,
+  };
+}
+
+function normalizeItem(item: any): JobItem {
+  return { ...item, result: normalizeResult(item.result) };
+}
+
+function normalizeJob(job: any): GenerationJob {
+  return { ...job, items: (job.items || []).map(normalizeItem) };
+}
+
+async function readJob(response: Response, fallback: string): Promise<GenerationJob> {
+  if (!response.ok) {
+    throw await readApiError(response, fallback);
+  }
+
+  const data = await response.json();
+  return normalizeJob(data.job);
+}
+
+// Renders exactly the reviewed `prompts`; `prompt` is kept as the base prompt.
+function referencePayload(reference?: GenerationReference) {
+  if (!reference?.images.length) return {};
+  return { references: reference.images, strength: reference.strength, parentId: reference.parentId };
+}
+
+export async function createGenerationJob(
+  prompt: string,
+  type: AssetType,
+  prompts: string[],
+  reference?: GenerationReference,
+  brandKit?: BrandKit,
+  set?: SetOptions,
+  motion?: Motion
+): Promise<GenerationJob> {
+  const response = await fetch("/api/jobs", {
+    method: "POST",
+    headers: clientHeaders(),
+    body: JSON.stringify({ prompt, type, prompts, set, motion, ...referencePayload(reference), ...brandKitPayload(brandKit) }),
+  });
+
+  return readJob(response, "Failed to start generation job");
+}
+
+export async function fetchGenerationJob(id: string): Promise<GenerationJob> {
+  const response = await fetch(`/api/jobs?id=${encodeURIComponent(id)}`, { headers: clientHeaders() });
+  return readJob(response, "Failed to load generation job");
+}
+
+export async function retryGenerationJob(id: string, items?: number[]): Promise<GenerationJob> {
+  const response = await fetch("/api/jobs/retry", {
+    method: "POST",
+    headers: clientHeaders(),
+    body: JSON.stringify({ id, items }),
+  });
+
+  return readJob(response, "Failed to retry generation job");
+}
+
+export function assetFromJobItem(
+  job: Pick<GenerationJob, "id" | "prompt" | "type" | "motion" | "parentId" | "brandKit" | "set">,
+  item: JobItem
+): GeneratedAsset | null {
+  if (item.status !== "done" || !item.result) return null;
+
+  return {
+    id: `${job.id.slice(0, 8)}-${item.index}`,
+    url: item.result.url,
+    type: job.type,
+    prompt: item.prompt,
+    basePrompt: job.prompt,
+    timestamp: item.updatedAt,
+    mimeType: item.result.mimeType,
+    alternates: item.result.alternates,
+    hasAlpha: item.result.hasAlpha,
+    isVideo: item.result.mimeType.startsWith("video/"),
+    motion: job.motion || undefined,
+    parentId: job.parentId || undefined,
+    brandKitId: job.brandKit?.id || undefined,
+    setId: job.set ? job.id : undefined,
+    setIndex: job.set ? item.index : undefined,
+    provider: item.result.provider,
+    model: item.result.model,
+    altText: item.result.altText,
+    tags: item.result.tags,
+  };
+}
+
+// Reason a job failed as a whole, in the same shape as a failed request.
+export function jobError(job: GenerationJob): ApiError {
+  return new ApiError(
+    job.error || "Failed to forge elements. Please try again.",
+    job.errorCode || "GENERATION_FAILED",
+    0
+  );
+}
+
+function isFinished(job: GenerationJob) {
+  return job.status === "completed" || job.status === "failed";
+}
+
+function pollJob(id: string, handlers: JobWatchHandlers): () => void {
+  let stopped = false;
+  const seen = new Map<number, number>();
+
+  const tick = async () => {
+    if (stopped) return;
+    try {
+      const job = await fetchGenerationJob(id);
+      for (const item of job.items) {
+        if (seen.get(item.index) !== item.seq) {
+          seen.set(item.index, item.seq);
+          handlers.onItem(item);
+        }
+      }
+      handlers.onJob(job);
+      if (isFinished(job)) {
+        stopped = true;
+        handlers.onEnd(job);
+        return;
+      }
+    } catch (err: any) {
+      handlers.onError(err);
+    }
+    setTimeout(tick, POLL_INTERVAL_MS);
+  };
+
+  tick();
+  return () => {
+    stopped = true;
+  };
+}
+
+// Streams job progress over Server-Sent Events and falls back to polling
+// when the stream cannot be established.
+export function watchGenerationJob(id: string, handlers: JobWatchHandlers): () => void {
+  if (typeof EventSource === "undefined") {
+    return pollJob(id, handlers);
+  }
+
+  let stopPolling: (() => void) | null = null;
+  let latest: GenerationJob | null = null;
+  const source = new EventSource(`/api/jobs/events?id=${encodeURIComponent(id)}`);
+
+  source.addEventListener("item", (event) => {
+    handlers.onItem(normalizeItem(JSON.parse((event as MessageEvent).data)));
+  });
+  source.addEventListener("job", (event) => {
+    latest = normalizeJob(JSON.parse((event as MessageEvent).data));
+    handlers.onJob(latest);
+  });
+  source.addEventListener("end", () => {
+    source.close();
+    if (latest) {
+      handlers.onEnd(latest);
+    } else {
+      fetchGenerationJob(id).then(handlers.onEnd, handlers.onError);
+    }
+  });
+  source.addEventListener("failure", () => {
+    source.close();
+    stopPolling = pollJob(id, handlers);
+  });
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED && !stopPolling) {
+      stopPolling = pollJob(id, handlers);
+    }
+  };
+
+  return () => {
+    source.close();
+    stopPolling?.();
+  };
+}
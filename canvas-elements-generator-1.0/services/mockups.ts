@@ -0,0 +1,359 @@
+import { GeneratedAsset } from "../types";
+import { assetFileBase, canvasToBlob, ExportedFile, loadImage } from "./exportService";
+import { Point } from "./vectorizer";
+
+export type MockupBlendMode =
+  | "normal"
+  | "multiply"
+  | "screen"
+  | "overlay"
+  | "soft-light"
+  | "hard-light"
+  | "darken"
+  | "lighten";
+
+export type MockupWarp =
+  | { type: "perspective" }
+  // `arc` is the angle in degrees of the cylinder surface the quad spans,
+  // e.g. a mug print wrapping a little over a third of the way around.
+  | { type: "cylinder"; arc: number };
+
+// Template JSON as described in README.md. Map paths are relative to the
+// template file and are resolved to absolute URLs when loaded.
+export interface MockupTemplate {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  base: string;
+  // Printable area in template pixels: top-left, top-right, bottom-right, bottom-left.
+  quad: [Point, Point, Point, Point];
+  fit: "contain" | "cover";
+  // Fraction of the quad kept clear around contained artwork.
+  padding: number;
+  warp: MockupWarp;
+  // Red shifts the artwork horizontally and green vertically, by up to
+  // `scale` pixels either way; 50% grey leaves it in place.
+  displacement?: { map: string; scale: number };
+  // Lighting applied to the artwork only, before it is blended onto the base.
+  shading?: { map: string; blendMode: MockupBlendMode; opacity: number };
+  blendMode: MockupBlendMode;
+  opacity: number;
+  // Drawn over everything, e.g. glass reflections.
+  overlay?: string;
+}
+
+export const MOCKUP_CATALOG_URL = "/mockups/index.json";
+
+const BLEND_MODES: MockupBlendMode[] = [
+  "normal",
+  "multiply",
+  "screen",
+  "overlay",
+  "soft-light",
+  "hard-light",
+  "darken",
+  "lighten",
+];
+
+const compositeOperation = (mode: MockupBlendMode): GlobalCompositeOperation =>
+  mode === "normal" ? "source-over" : mode;
+
+async function fetchJson(url: string) {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load ${url} (${response.status})`);
+  return response.json();
+}
+
+export function parseMockupTemplate(json: any, url: string): MockupTemplate {
+  const fail = (message: string): never => {
+    throw new Error(`Mockup template ${url}: ${message}`);
+  };
+  const resolve = (path: unknown, field: string) => {
+    if (typeof path !== "string" || !path) fail(`"${field}" must be a file path`);
+    return new URL(path as string, url).href;
+  };
+  const number = (value: unknown, field: string, fallback?: number) => {
+    if (value === undefined && fallback !== undefined) return fallback;
+    if (typeof value !== "number" || !Number.isFinite(value)) fail(`"${field}" must be a number`);
+    return value as number;
+  };
+  const blendMode = (value: unknown, field: string) => {
+    if (value === undefined) return "normal";
+    if (!BLEND_MODES.includes(value as MockupBlendMode)) fail(`"${field}" must be one of ${BLEND_MODES.join(", ")}`);
+    return value as MockupBlendMode;
+  };
+
+  if (!json || typeof json !== "object") fail("expected a JSON object");
+  if (typeof json.id !== "string" || !json.id) fail('"id" is required');
+
+  const quad = json.quad;
+  if (
+    !Array.isArray(quad) ||
+    quad.length !== 4 ||
+    !quad.every((point: unknown) => Array.isArray(point) && point.length === 2 && point.every(Number.isFinite))
+  ) {
+    fail('"quad" must list four [x, y] corners');
+  }
+
+  const warpType = json.warp?.type ?? "perspective";
+  let warp: MockupWarp = { type: "perspective" };
+  if (warpType === "cylinder") {
+    const arc = number(json.warp.arc, "warp.arc");
+    if (arc <= 0 || arc >= 180) fail('"warp.arc" must be between 0 and 180 degrees');
+    warp = { type: "cylinder", arc };
+  } else if (warpType !== "perspective") {
+    fail('"warp.type" must be "perspective" or "cylinder"');
+  }
+
+  return {
+    id: json.id,
+    name: typeof json.name === "string" ? json.name : json.id,
+    width: number(json.width, "width"),
+    height: number(json.height, "height"),
+    base: resolve(json.base, "base"),
+    quad,
+    fit: json.fit === "cover" ? "cover" : "contain",
+    padding: Math.min(0.45, Math.max(0, number(json.padding, "padding", 0))),
+    warp,
+    displacement: json.displacement && {
+      map: resolve(json.displacement.map, "displacement.map"),
+      scale: number(json.displacement.scale, "displacement.scale", 10),
+    },
+    shading: json.shading && {
+      map: resolve(json.shading.map, "shading.map"),
+      blendMode: blendMode(json.shading.blendMode ?? "multiply", "shading.blendMode"),
+      opacity: number(json.shading.opacity, "shading.opacity", 1),
+    },
+    blendMode: blendMode(json.blendMode, "blendMode"),
+    opacity: number(json.opacity, "opacity", 1),
+    overlay: json.overlay === undefined ? undefined : resolve(json.overlay, "overlay"),
+  };
+}
+
+export async function loadMockupTemplates(catalogUrl = MOCKUP_CATALOG_URL): Promise<MockupTemplate[]> {
+  const catalogHref = new URL(catalogUrl, window.location.href).href;
+  const catalog = await fetchJson(catalogHref);
+  if (!Array.isArray(catalog?.templates)) throw new Error(`${catalogUrl} must list "templates"`);
+
+  return Promise.all(
+    catalog.templates.map(async (path: string) => {
+      const url = new URL(path, catalogHref).href;
+      return parseMockupTemplate(await fetchJson(url), url);
+    })
+  );
+}
+
+// Maps the unit square onto the quad (Heckbert's square-to-quad projection).
+// Returns the inverse, so destination pixels can be traced back to (u, v).
+function inverseHomography(quad: MockupTemplate["quad"]): number[] {
+  const [[x0, y0], [x1, y1], [x2, y2], [x3, y3]] = quad;
+  const dx1 = x1 - x2;
+  const dx2 = x3 - x2;
+  const dx3 = x0 - x1 + x2 - x3;
+  const dy1 = y1 - y2;
+  const dy2 = y3 - y2;
+  const dy3 = y0 - y1 + y2 - y3;
+  const den = dx1 * dy2 - dx2 * dy1;
+  const g = den ? (dx3 * dy2 - dx2 * dy3) / den : 0;
+  const h = den ? (dx1 * dy3 - dx3 * dy1) / den : 0;
+
+  const a = x1 - x0 + g * x1;
+  const b = x3 - x0 + h * x3;
+  const c = x0;
+  const d = y1 - y0 + g * y1;
+  const e = y3 - y0 + h * y3;
+  const f = y0;
+
+  const det = a * (e - f * h) - b * (d - f * g) + c * (d * h - e * g);
+  if (!det) throw new Error("Mockup quad is degenerate");
+  return [
+    (e - f * h) / det,
+    (c * h - b) / det,
+    (b * f - c * e) / det,
+    (f * g - d) / det,
+    (a - c * g) / det,
+    (c * d - a * f) / det,
+    (d * h - e * g) / det,
+    (b * g - a * h) / det,
+    (a * e - b * d) / det,
+  ];
+}
+
+const distance = ([ax, ay]: Point, [bx, by]: Point) => Math.hypot(bx - ax, by - ay);
+
+function imagePixels(img: CanvasImageSource, width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+}
+
+// Bilinear sample with premultiplied alpha, so transparent edges do not
+// bleed dark fringes into the print.
+function sample(data: Uint8ClampedArray, width: number, height: number, x: number, y: number, out: number[]) {
+  const fx = Math.max(0, Math.min(width - 1, x - 0.5));
+  const fy = Math.max(0, Math.min(height - 1, y - 0.5));
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(width - 1, x0 + 1);
+  const y1 = Math.min(height - 1, y0 + 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  out[0] = out[1] = out[2] = out[3] = 0;
+  const corners: [number, number, number][] = [
+    [x0, y0, (1 - tx) * (1 - ty)],
+    [x1, y0, tx * (1 - ty)],
+    [x0, y1, (1 - tx) * ty],
+    [x1, y1, tx * ty],
+  ];
+  for (const [cx, cy, weight] of corners) {
+    const i = (cy * width + cx) * 4;
+    const alpha = (data[i + 3] / 255) * weight;
+    out[0] += data[i] * alpha;
+    out[1] += data[i + 1] * alpha;
+    out[2] += data[i + 2] * alpha;
+    out[3] += alpha;
+  }
+  if (out[3] > 0) {
+    out[0] /= out[3];
+    out[1] /= out[3];
+    out[2] /= out[3];
+  }
+}
+
+// Projects the artwork into the quad and returns it as a template-sized
+// layer, transparent outside the printable area.
+function warpArtwork(template: MockupTemplate, art: HTMLImageElement, displacement: Uint8ClampedArray | null) {
+  const { width, height, quad } = template;
+  const artWidth = art.naturalWidth;
+  const artHeight = art.naturalHeight;
+  const source = imagePixels(art, artWidth, artHeight);
+  const inverse = inverseHomography(quad);
+
+  const theta = template.warp.type === "cylinder" ? (template.warp.arc * Math.PI) / 360 : 0;
+  const sinTheta = Math.sin(theta);
+
+  // Fit in surface units: a cylinder unrolls wider than its projected chord.
+  const surfaceWidth = ((distance(quad[0], quad[1]) + distance(quad[3], quad[2])) / 2) * (theta ? theta / sinTheta : 1);
+  const surfaceHeight = (distance(quad[0], quad[3]) + distance(quad[1], quad[2])) / 2;
+  const inner = 1 - template.padding * 2;
+  const fitScale = (template.fit === "cover" ? Math.max : Math.min)(
+    (surfaceWidth * inner) / artWidth,
+    (surfaceHeight * inner) / artHeight
+  );
+  const spanU = (artWidth * fitScale) / surfaceWidth;
+  const spanV = (artHeight * fitScale) / surfaceHeight;
+  const startU = (1 - spanU) / 2;
+  const startV = (1 - spanV) / 2;
+
+  const xs = quad.map(([x]) => x);
+  const ys = quad.map(([, y]) => y);
+  const left = Math.max(0, Math.floor(Math.min(...xs)));
+  const right = Math.min(width, Math.ceil(Math.max(...xs)));
+  const top = Math.max(0, Math.floor(Math.min(...ys)));
+  const bottom = Math.min(height, Math.ceil(Math.max(...ys)));
+
+  const layer = new ImageData(width, height);
+  const out = layer.data;
+  const pixel = [0, 0, 0, 0];
+  const scale = template.displacement?.scale || 0;
+
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      let px = x + 0.5;
+      let py = y + 0.5;
+      if (displacement) {
+        const i = (y * width + x) * 4;
+        px += (displacement[i] / 255 - 0.5) * 2 * scale;
+        py += (displacement[i + 1] / 255 - 0.5) * 2 * scale;
+      }
+
+      const w = inverse[6] * px + inverse[7] * py + inverse[8];
+      let u = (inverse[0] * px + inverse[1] * py + inverse[2]) / w;
+      const v = (inverse[3] * px + inverse[4] * py + inverse[5]) / w;
+      if (u < 0 || u > 1 || v < 0 || v > 1) continue;
+      if (theta) {
+        u = (Math.asin((u * 2 - 1) * sinTheta) / theta + 1) / 2;
+      }
+
+      const artU = (u - startU) / spanU;
+      const artV = (v - startV) / spanV;
+      if (artU < 0 || artU > 1 || artV < 0 || artV > 1) continue;
+
+      sample(source, artWidth, artHeight, artU * artWidth, artV * artHeight, pixel);
+      const o = (y * width + x) * 4;
+      out[o] = pixel[0];
+      out[o + 1] = pixel[1];
+      out[o + 2] = pixel[2];
+      out[o + 3] = pixel[3] * 255;
+    }
+  }
+  return layer;
+}
+
+export async function renderMockup(template: MockupTemplate, asset: GeneratedAsset): Promise<HTMLCanvasElement> {
+  const [base, art, displacementMap, shadingMap, overlay] = await Promise.all([
+    loadImage(template.base),
+    loadImage(asset.url),
+    template.displacement ? loadImage(template.displacement.map) : null,
+    template.shading ? loadImage(template.shading.map) : null,
+    template.overlay ? loadImage(template.overlay) : null,
+  ]);
+  const { width, height } = template;
+
+  const displacement = displacementMap && imagePixels(displacementMap, width, height);
+  const artLayer = document.createElement("canvas");
+  artLayer.width = width;
+  artLayer.height = height;
+  const artCtx = artLayer.getContext("2d");
+  if (!artCtx) throw new Error("Canvas is not supported");
+  artCtx.putImageData(warpArtwork(template, art, displacement), 0, 0);
+
+  if (shadingMap && template.shading) {
+    // Blend modes paint over transparent pixels too, so the artwork's own
+    // alpha is restored afterwards.
+    const shaded = document.createElement("canvas");
+    shaded.width = width;
+    shaded.height = height;
+    const ctx = shaded.getContext("2d")!;
+    ctx.drawImage(artLayer, 0, 0);
+    ctx.globalCompositeOperation = compositeOperation(template.shading.blendMode);
+    ctx.globalAlpha = template.shading.opacity;
+    ctx.drawImage(shadingMap, 0, 0, width, height);
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = "destination-in";
+    ctx.drawImage(artLayer, 0, 0);
+    artCtx.clearRect(0, 0, width, height);
+    artCtx.drawImage(shaded, 0, 0);
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+  ctx.drawImage(base, 0, 0, width, height);
+  ctx.globalCompositeOperation = compositeOperation(template.blendMode);
+  ctx.globalAlpha = template.opacity;
+  ctx.drawImage(artLayer, 0, 0);
+  ctx.globalCompositeOperation = "source-over";
+  ctx.globalAlpha = 1;
+  if (overlay) ctx.drawImage(overlay, 0, 0, width, height);
+
+  return canvas;
+}
+
+export async function exportMockup(template: MockupTemplate, asset: GeneratedAsset): Promise<ExportedFile> {
+  const canvas = await renderMockup(template, asset);
+  return {
+    blob: await canvasToBlob(canvas, "image/png", 1),
+    filename: `${assetFileBase(asset)}-${template.id}.png`,
+    width: canvas.width,
+    height: canvas.height,
+  };
+}
@@ -0,0 +1,53 @@
+import { unzlibSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import { createPdfDocument, MM_TO_PT } from "./pdfWriter";
+
+const latin1 = (bytes: Uint8Array) => new TextDecoder("latin1").decode(bytes);
+
+async function build(pixels: number[]) {
+  const pdf = createPdfDocument();
+  const image = pdf.addImage(new Uint8ClampedArray(pixels), 1, 1);
+  const spot = pdf.addSpotColor("CutContour", [0, 1, 0, 0]);
+  pdf.addPage(210 * MM_TO_PT, 297 * MM_TO_PT, `/${image} Do /${spot} CS`);
+  pdf.addPage(100, 100, "");
+  const blob = pdf.toBlob();
+  return { blob, text: latin1(new Uint8Array(await blob.arrayBuffer())) };
+}
+
+describe("createPdfDocument", () => {
+  it("writes an xref table whose offsets point at each object", async () => {
+    const { blob, text } = await build([255, 0, 0, 255]);
+    expect(blob.type).toBe("application/pdf");
+    expect(text.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(text.endsWith("%%EOF")).toBe(true);
+
+    const startxref = Number(/startxref\n(\d+)/.exec(text)![1]);
+    expect(text.slice(startxref, startxref + 4)).toBe("xref");
+    const entries = text.slice(startxref).split("\n").slice(3).filter((line) => line.endsWith(" n "));
+    entries.forEach((entry, i) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(text.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`);
+    });
+    expect(text).toContain(`/Size ${entries.length + 1} /Root 1 0 R`);
+  });
+
+  it("shares one resource dictionary between pages", async () => {
+    const { text } = await build([255, 0, 0, 255]);
+    expect(text).toMatch(/\/Type \/Pages \/Kids \[\d+ 0 R \d+ 0 R\] \/Count 2/);
+    expect(text).toContain("/MediaBox [0 0 595.28 841.89] /Resources 3 0 R");
+    expect(text).toMatch(/3 0 obj\n<< \/XObject << \/Im1 \d+ 0 R >> \/ColorSpace << \/CS1 \d+ 0 R >> >>/);
+    expect(text).toContain("[/Separation /CutContour /DeviceCMYK << /FunctionType 2 /Domain [0 1] /C0 [0 0 0 0] /C1 [0 1 0 0] /N 1 >>]");
+  });
+
+  it("adds an SMask only for translucent images", async () => {
+    expect((await build([255, 0, 0, 255])).text).not.toContain("/SMask");
+
+    const { blob, text } = await build([255, 0, 0, 128]);
+    expect(text).toMatch(/\/ColorSpace \/DeviceRGB \/SMask \d+ 0 R/);
+    // The first stream after the header is the alpha channel.
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const start = text.indexOf("stream\n") + "stream\n".length;
+    const length = Number(/\/DeviceGray \/Length (\d+)/.exec(text)![1]);
+    expect(Array.from(unzlibSync(bytes.subarray(start, start + length)))).toEqual([128]);
+  });
+});
@@ -0,0 +1,119 @@
+import { zlibSync } from "fflate";
+
+// A deliberately small PDF 1.4 writer: pages with raw content streams, RGBA
+// images (alpha as an SMask) and Separation spot colors. All pages share one
+// resource dictionary.
+
+export interface PdfDocument {
+  addImage(pixels: Uint8ClampedArray, width: number, height: number): string;
+  addSpotColor(name: string, cmyk: [number, number, number, number]): string;
+  addPage(widthPt: number, heightPt: number, content: string): void;
+  toBlob(): Blob;
+}
+
+export const MM_TO_PT = 72 / 25.4;
+
+const CATALOG = 1;
+const PAGES = 2;
+const RESOURCES = 3;
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+export function createPdfDocument(): PdfDocument {
+  const objects: Uint8Array[][] = [[], [], []];
+  const pages: number[] = [];
+  const images: string[] = [];
+  const colorSpaces: string[] = [];
+
+  const addObject = (body: string, stream?: Uint8Array) => {
+    const number = objects.length + 1;
+    objects.push(
+      stream
+        ? [ascii(`${number} 0 obj\n${body.replace(/>>$/, `/Length ${stream.length} >>`)}\nstream\n`), stream, ascii("\nendstream\nendobj\n")]
+        : [ascii(`${number} 0 obj\n${body}\nendobj\n`)]
+    );
+    return number;
+  };
+
+  const setObject = (number: number, body: string) => {
+    objects[number - 1] = [ascii(`${number} 0 obj\n${body}\nendobj\n`)];
+  };
+
+  return {
+    addImage(pixels, width, height) {
+      const rgb = new Uint8Array(width * height * 3);
+      const alpha = new Uint8Array(width * height);
+      let translucent = false;
+      for (let i = 0; i < width * height; i++) {
+        rgb[i * 3] = pixels[i * 4];
+        rgb[i * 3 + 1] = pixels[i * 4 + 1];
+        rgb[i * 3 + 2] = pixels[i * 4 + 2];
+        alpha[i] = pixels[i * 4 + 3];
+        if (alpha[i] < 255) translucent = true;
+      }
+
+      const header = `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /BitsPerComponent 8 /Filter /FlateDecode`;
+      const mask = translucent ? addObject(`<< ${header} /ColorSpace /DeviceGray >>`, zlibSync(alpha)) : 0;
+      const image = addObject(
+        `<< ${header} /ColorSpace /DeviceRGB${mask ? ` /SMask ${mask} 0 R` : ""} >>`,
+        zlibSync(rgb)
+      );
+
+      const name = `Im${images.length + 1}`;
+      images.push(`/${name} ${image} 0 R`);
+      return name;
+    },
+
+    addSpotColor(name, cmyk) {
+      const space = addObject(
+        `[/Separation /${name} /DeviceCMYK << /FunctionType 2 /Domain [0 1] /C0 [0 0 0 0] /C1 [${cmyk.join(" ")}] /N 1 >>]`
+      );
+      const resource = `CS${colorSpaces.length + 1}`;
+      colorSpaces.push(`/${resource} ${space} 0 R`);
+      return resource;
+    },
+
+    addPage(widthPt, heightPt, content) {
+      const contents = addObject("<< /Filter /FlateDecode >>", zlibSync(ascii(content)));
+      pages.push(
+        addObject(
+          `<< /Type /Page /Parent ${PAGES} 0 R /MediaBox [0 0 ${widthPt.toFixed(2)} ${heightPt.toFixed(2)}] /Resources ${RESOURCES} 0 R /Contents ${contents} 0 R >>`
+        )
+      );
+    },
+
+    toBlob() {
+      setObject(CATALOG, `<< /Type /Catalog /Pages ${PAGES} 0 R >>`);
+      setObject(PAGES, `<< /Type /Pages /Kids [${pages.map((page) => `${page} 0 R`).join(" ")}] /Count ${pages.length} >>`);
+      setObject(RESOURCES, `<< /XObject << ${images.join(" ")} >> /ColorSpace << ${colorSpaces.join(" ")} >> >>`);
+
+      const chunks: Uint8Array[] = [ascii("%PDF-1.4\n%âã\n")];
+      let offset = chunks[0].length;
+      const offsets = objects.map((parts) => {
+        const start = offset;
+        parts.forEach((part) => {
+          chunks.push(part);
+          offset += part.length;
+        });
+        return start;
+      });
+
+      chunks.push(
+        ascii(
+          [
+            "xref",
+            `0 ${objects.length + 1}`,
+            "0000000000 65535 f ",
+            ...offsets.map((start) => `${String(start).padStart(10, "0")} 00000 n `),
+            "trailer",
+            `<< /Size ${objects.length + 1} /Root ${CATALOG} 0 R >>`,
+            "startxref",
+            String(offset),
+            "%%EOF",
+          ].join("\n")
+        )
+      );
+      return new Blob(chunks, { type: "application/pdf" });
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import sharp, { WebpOptions } from "sharp";
+import { describe, expect, it } from "vitest";
+import { AssetType, GeneratedAsset } from "../types";
+import { embedProvenance, importExportedFiles, provenanceOf, provenanceSidecar, readProvenance } from "./provenance";
+
+const asset: GeneratedAsset = {
+  id: "a1",
+  url: "",
+  type: AssetType.STICKER,
+  prompt: "A cat <in> a \"hat\" & scarf, ü",
+  timestamp: Date.UTC(2026, 0, 2),
+  mimeType: "image/png",
+  hasAlpha: true,
+  setId: "set-1",
+  setIndex: 2,
+  tags: ["cat", "winter"],
+  activeVersion: 1,
+  versions: [
+    { mimeType: "image/png", createdAt: 0 },
+    { mimeType: "image/png", createdAt: 1, instruction: "make it blue" },
+    { mimeType: "image/png", createdAt: 2, instruction: "undone later" },
+  ],
+};
+
+// WebP options pick the container: lossless is VP8L, lossy is plain VP8 when
+// opaque and extended VP8X when it has an alpha channel.
+async function image(format: "png" | "jpeg" | "webp", options: WebpOptions & { opaque?: boolean } = {}) {
+  const { opaque, ...webp } = options;
+  const source = sharp({ create: { width: 3, height: 2, channels: 4, background: { r: 10, g: 20, b: 30, alpha: 0.5 } } });
+  const base = opaque ? source.flatten() : source;
+  const buffer = await (format === "webp" ? base.webp(webp) : base.toFormat(format)).toBuffer();
+  return new Blob([new Uint8Array(buffer)], { type: `image/${format}` });
+}
+
+describe("provenanceOf", () => {
+  it("lists the edits up to the active version", () => {
+    const provenance = provenanceOf(asset);
+    expect(provenance).toMatchObject({ id: "a1", setIndex: 2, createdAt: "2026-01-02T00:00:00.000Z" });
+    expect(provenance.edits).toEqual(["make it blue"]);
+    expect(provenanceOf({ ...asset, activeVersion: 0 }).edits).toBeUndefined();
+  });
+});
+
+describe("embedProvenance", () => {
+  it.each([
+    ["png", {}],
+    ["jpeg", {}],
+    ["webp", { lossless: true }],
+    ["webp", { quality: 80, opaque: true }],
+    ["webp", { quality: 80 }],
+  ] as const)("round-trips through %s %j and keeps the image readable", async (format, options) => {
+    const embedded = await embedProvenance(await image(format, options), asset);
+    expect(embedded.type).toBe(`image/${format}`);
+    expect(await readProvenance(embedded)).toMatchObject({ prompt: asset.prompt, tags: asset.tags, setId: "set-1" });
+
+    const metadata = await sharp(new Uint8Array(await embedded.arrayBuffer())).metadata();
+    expect([metadata.width, metadata.height]).toEqual([3, 2]);
+  });
+
+  it("leaves formats without metadata untouched", async () => {
+    const gif = new Blob([new Uint8Array([0x47, 0x49, 0x46, 0x38, 0x39, 0x61])], { type: "image/gif" });
+    expect(await embedProvenance(gif, asset)).toBe(gif);
+    expect(await readProvenance(gif)).toBeNull();
+  });
+});
+
+describe("importExportedFiles", () => {
+  it("restores assets from embedded metadata or a sidecar and skips the rest", async () => {
+    const png = new File([await embedProvenance(await image("png"), asset)], "sticker.png", { type: "image/png" });
+    const gif = new File([new Uint8Array([0x47, 0x49, 0x46])], "motion.gif", { type: "image/gif" });
+    const sidecar = new File([provenanceSidecar({ ...asset, prompt: "from the sidecar" })], "motion.gif.json");
+    const stray = new File(["{}"], "notes.txt");
+
+    const { assets, skipped } = await importExportedFiles([png, gif, sidecar, stray]);
+    expect(skipped).toEqual(["notes.txt"]);
+    expect(assets.map((restored) => [restored.prompt, restored.mimeType, restored.setIndex])).toEqual([
+      [asset.prompt, "image/png", 2],
+      ["from the sidecar", "image/gif", 2],
+    ]);
+    expect(assets[0].id).not.toBe(asset.id);
+    assets.forEach((restored) => URL.revokeObjectURL(restored.url));
+  });
+});
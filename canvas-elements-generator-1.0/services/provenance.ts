@@ -0,0 +1,381 @@
+import { AssetType, GeneratedAsset, Motion } from "../types";
+
+// Generation provenance embedded in exported files: PNG iTXt/tEXt chunks,
+// XMP in JPEG (APP1) and WebP ("XMP " chunk), and a sidecar JSON for formats
+// that cannot carry it. readProvenance reads any of them back.
+
+export const GENERATOR_NAME = "Canvas Elements Generator";
+const PROVENANCE_KEYWORD = "CanvasElements";
+const XMP_NAMESPACE = "urn:canvas-elements-generator:provenance:1";
+const JPEG_XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+
+export interface Provenance {
+  generator: string;
+  version: 1;
+  id: string;
+  prompt: string;
+  basePrompt?: string;
+  type: AssetType;
+  hasAlpha?: boolean;
+  provider?: string;
+  model?: string;
+  // ISO timestamps.
+  createdAt: string;
+  exportedAt: string;
+  brandKitId?: string;
+  parentId?: string;
+  setId?: string;
+  setIndex?: number;
+  motion?: Motion;
+  altText?: string;
+  tags?: string[];
+  // Instructions of the edits applied to the exported version, oldest first.
+  edits?: string[];
+}
+
+const EMBEDDABLE_TYPES = ["image/png", "image/jpeg", "image/webp"];
+
+export const canEmbedProvenance = (mimeType: string) => EMBEDDABLE_TYPES.includes(mimeType);
+
+export function provenanceOf(asset: GeneratedAsset): Provenance {
+  const edits = (asset.versions || [])
+    .slice(1, (asset.activeVersion ?? 0) + 1)
+    .map((version) => version.instruction)
+    .filter((instruction): instruction is string => !!instruction);
+  return {
+    generator: GENERATOR_NAME,
+    version: 1,
+    id: asset.id,
+    prompt: asset.prompt,
+    basePrompt: asset.basePrompt,
+    type: asset.type,
+    hasAlpha: !!asset.hasAlpha,
+    provider: asset.provider,
+    model: asset.model,
+    createdAt: new Date(asset.timestamp).toISOString(),
+    exportedAt: new Date().toISOString(),
+    brandKitId: asset.brandKitId,
+    parentId: asset.parentId,
+    setId: asset.setId,
+    setIndex: asset.setIndex,
+    motion: asset.motion,
+    altText: asset.altText,
+    tags: asset.tags,
+    ...(edits.length ? { edits } : {}),
+  };
+}
+
+export function provenanceSidecar(asset: GeneratedAsset): Blob {
+  return new Blob([JSON.stringify(provenanceOf(asset), null, 2)], { type: "application/json" });
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+const latin1 = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0) & 0xff);
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) =>
+  [...text].every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+
+// --- PNG ---
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(latin1(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// tEXt is Latin-1 only, so anything user-written goes into iTXt as UTF-8.
+const textChunk = (keyword: string, text: string) => pngChunk("tEXt", concat([latin1(keyword), new Uint8Array([0]), latin1(text)]));
+
+const itxtChunk = (keyword: string, text: string) =>
+  pngChunk("iTXt", concat([latin1(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+
+function embedPng(bytes: Uint8Array, provenance: Provenance): Uint8Array {
+  // Right after IHDR, which is always the first chunk.
+  const afterHeader = 8 + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8);
+  return concat([
+    bytes.subarray(0, afterHeader),
+    textChunk("Software", GENERATOR_NAME),
+    textChunk("Creation Time", new Date(provenance.createdAt).toUTCString()),
+    itxtChunk("Description", provenance.altText || provenance.prompt),
+    itxtChunk(PROVENANCE_KEYWORD, JSON.stringify(provenance)),
+    bytes.subarray(afterHeader),
+  ]);
+}
+
+function readPng(bytes: Uint8Array): string | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  for (let offset = 8; offset + 12 <= bytes.length; ) {
+    const length = view.getUint32(offset);
+    if (startsWith(bytes, offset + 4, "iTXt") && startsWith(bytes, offset + 8, `${PROVENANCE_KEYWORD}\0`)) {
+      const data = bytes.subarray(offset + 8, offset + 8 + length);
+      // keyword\0, compression flag and method, language\0, translated keyword\0, text.
+      let cursor = PROVENANCE_KEYWORD.length + 3;
+      for (let nulls = 0; nulls < 2 && cursor < data.length; cursor++) if (data[cursor] === 0) nulls++;
+      return decoder.decode(data.subarray(cursor));
+    }
+    if (startsWith(bytes, offset + 4, "IEND")) break;
+    offset += 12 + length;
+  }
+  return null;
+}
+
+// --- XMP ---
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const unescapeXml = (text: string) =>
+  text.replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+
+function xmpPacket(provenance: Provenance): Uint8Array {
+  return encoder.encode(
+    [
+      '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+      '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+      ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+      `  <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:cegen="${XMP_NAMESPACE}">`,
+      `   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(provenance.altText || provenance.prompt)}</rdf:li></rdf:Alt></dc:description>`,
+      ...(provenance.tags?.length
+        ? [`   <dc:subject><rdf:Bag>${provenance.tags.map((tag) => `<rdf:li>${escapeXml(tag)}</rdf:li>`).join("")}</rdf:Bag></dc:subject>`]
+        : []),
+      `   <xmp:CreatorTool>${GENERATOR_NAME}</xmp:CreatorTool>`,
+      `   <xmp:CreateDate>${provenance.createdAt}</xmp:CreateDate>`,
+      `   <cegen:provenance>${escapeXml(JSON.stringify(provenance))}</cegen:provenance>`,
+      "  </rdf:Description>",
+      " </rdf:RDF>",
+      "</x:xmpmeta>",
+      '<?xpacket end="w"?>',
+    ].join("\n")
+  );
+}
+
+function readXmp(bytes: Uint8Array): string | null {
+  const match = /<cegen:provenance>([\s\S]*?)<\/cegen:provenance>/.exec(decoder.decode(bytes));
+  return match ? unescapeXml(match[1]) : null;
+}
+
+// --- JPEG ---
+
+function embedJpeg(bytes: Uint8Array, provenance: Provenance): Uint8Array {
+  const payload = concat([latin1(JPEG_XMP_HEADER), xmpPacket(provenance)]);
+  const segment = new Uint8Array(4 + payload.length);
+  segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  segment.set(payload, 4);
+
+  // After SOI and the JFIF APP0 segment, where readers expect XMP.
+  let offset = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) offset += 2 + ((bytes[4] << 8) | bytes[5]);
+  return concat([bytes.subarray(0, offset), segment, bytes.subarray(offset)]);
+}
+
+function readJpeg(bytes: Uint8Array): string | null {
+  for (let offset = 2; offset + 4 <= bytes.length && bytes[offset] === 0xff; ) {
+    const marker = bytes[offset + 1];
+    // Start of scan: no metadata segments follow.
+    if (marker === 0xda) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker === 0xe1 && startsWith(bytes, offset + 4, JPEG_XMP_HEADER)) {
+      return readXmp(bytes.subarray(offset + 4 + JPEG_XMP_HEADER.length, offset + 2 + length));
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+// --- WebP ---
+
+function riffChunk(fourcc: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(latin1(fourcc));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+const XMP_FLAG = 0x04;
+const ALPHA_FLAG = 0x10;
+
+// Simple (VP8/VP8L-only) files need an extended VP8X header before they can
+// carry metadata; its canvas size comes from the bitstream.
+function extendedHeader(fourcc: string, data: Uint8Array): Uint8Array {
+  let width: number;
+  let height: number;
+  let alpha = false;
+  if (fourcc === "VP8L") {
+    const bits = new DataView(data.buffer, data.byteOffset).getUint32(1, true);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >> 14) & 0x3fff) + 1;
+    alpha = ((bits >> 28) & 1) === 1;
+  } else {
+    const view = new DataView(data.buffer, data.byteOffset);
+    width = view.getUint16(6, true) & 0x3fff;
+    height = view.getUint16(8, true) & 0x3fff;
+  }
+  const header = new Uint8Array(10);
+  header[0] = alpha ? ALPHA_FLAG : 0;
+  header.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, ((width - 1) >> 16) & 0xff], 4);
+  header.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, ((height - 1) >> 16) & 0xff], 7);
+  return riffChunk("VP8X", header);
+}
+
+function webpChunks(bytes: Uint8Array): { fourcc: string; offset: number; size: number }[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const chunks: { fourcc: string; offset: number; size: number }[] = [];
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ fourcc: decoder.decode(bytes.subarray(offset, offset + 4)), offset, size });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+function embedWebp(bytes: Uint8Array, provenance: Provenance): Uint8Array {
+  const chunks = webpChunks(bytes);
+  const first = chunks[0];
+  const body =
+    first.fourcc === "VP8X"
+      ? bytes.slice(12)
+      : concat([extendedHeader(first.fourcc, bytes.subarray(first.offset + 8, first.offset + 8 + first.size)), bytes.subarray(12)]);
+  // Flags are the first byte of the VP8X payload.
+  body[8] |= XMP_FLAG;
+
+  const content = concat([latin1("WEBP"), body, riffChunk("XMP ", xmpPacket(provenance))]);
+  const out = concat([latin1("RIFF"), new Uint8Array(4), content]);
+  new DataView(out.buffer).setUint32(4, content.length, true);
+  return out;
+}
+
+function readWebp(bytes: Uint8Array): string | null {
+  const chunk = webpChunks(bytes).find((candidate) => candidate.fourcc === "XMP ");
+  return chunk ? readXmp(bytes.subarray(chunk.offset + 8, chunk.offset + 8 + chunk.size)) : null;
+}
+
+// --- Public API ---
+
+function formatOf(bytes: Uint8Array): "png" | "jpeg" | "webp" | null {
+  if (PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) return "png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return "jpeg";
+  if (startsWith(bytes, 0, "RIFF") && startsWith(bytes, 8, "WEBP")) return "webp";
+  return null;
+}
+
+// Returns `blob` with the provenance embedded, or unchanged when its format
+// cannot carry it.
+export async function embedProvenance(blob: Blob, asset: GeneratedAsset): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const provenance = provenanceOf(asset);
+  switch (formatOf(bytes)) {
+    case "png":
+      return new Blob([embedPng(bytes, provenance)], { type: "image/png" });
+    case "jpeg":
+      return new Blob([embedJpeg(bytes, provenance)], { type: "image/jpeg" });
+    case "webp":
+      return new Blob([embedWebp(bytes, provenance)], { type: "image/webp" });
+    default:
+      return blob;
+  }
+}
+
+function parseProvenance(json: string | null): Provenance | null {
+  if (!json) return null;
+  try {
+    const data = JSON.parse(json);
+    const valid =
+      data?.generator === GENERATOR_NAME &&
+      typeof data.prompt === "string" &&
+      Object.values(AssetType).includes(data.type) &&
+      !Number.isNaN(Date.parse(data.createdAt));
+    return valid ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Reads provenance from an exported image or from a sidecar JSON file.
+export async function readProvenance(file: Blob): Promise<Provenance | null> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  switch (formatOf(bytes)) {
+    case "png":
+      return parseProvenance(readPng(bytes));
+    case "jpeg":
+      return parseProvenance(readJpeg(bytes));
+    case "webp":
+      return parseProvenance(readWebp(bytes));
+    default:
+      return parseProvenance(decoder.decode(bytes));
+  }
+}
+
+const SIDECAR_SUFFIX = ".json";
+
+// Turns dropped files back into library assets. A sidecar `name.ext.json`
+// supplies the metadata for `name.ext`; sidecars on their own are ignored.
+// `url` on each asset is an object URL the caller should revoke once saved.
+export async function importExportedFiles(files: File[]): Promise<{ assets: GeneratedAsset[]; skipped: string[] }> {
+  const sidecars = new Map(
+    files.filter((file) => file.name.endsWith(SIDECAR_SUFFIX)).map((file) => [file.name.slice(0, -SIDECAR_SUFFIX.length), file])
+  );
+  const assets: GeneratedAsset[] = [];
+  const skipped: string[] = [];
+
+  for (const file of files) {
+    if (file.name.endsWith(SIDECAR_SUFFIX)) continue;
+    const sidecar = sidecars.get(file.name);
+    const provenance = (sidecar && (await readProvenance(sidecar))) || (await readProvenance(file));
+    if (!provenance) {
+      skipped.push(file.name);
+      continue;
+    }
+    assets.push({
+      id: crypto.randomUUID(),
+      url: URL.createObjectURL(file),
+      type: provenance.type,
+      prompt: provenance.prompt,
+      basePrompt: provenance.basePrompt,
+      timestamp: Date.parse(provenance.createdAt),
+      mimeType: file.type || "image/png",
+      hasAlpha: !!provenance.hasAlpha,
+      isVideo: file.type.startsWith("video/"),
+      parentId: provenance.parentId,
+      brandKitId: provenance.brandKitId,
+      setId: provenance.setId,
+      setIndex: Number.isInteger(provenance.setIndex) ? provenance.setIndex : undefined,
+      motion: provenance.motion,
+      altText: typeof provenance.altText === "string" ? provenance.altText : undefined,
+      tags: Array.isArray(provenance.tags) ? provenance.tags.filter((tag) => typeof tag === "string") : undefined,
+      provider: provenance.provider,
+      model: provenance.model,
+    });
+  }
+  return { assets, skipped };
+}
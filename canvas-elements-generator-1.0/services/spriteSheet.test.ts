@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { AssetType, GeneratedAsset } from "../types";
+import { packSprites, spriteNames } from "./spriteSheet";
+
+const sprite = (prompt: string, setIndex?: number): GeneratedAsset => ({
+  id: `${setIndex ?? prompt}`,
+  url: "",
+  type: AssetType.STICKER,
+  prompt,
+  timestamp: 0,
+  setIndex,
+});
+
+describe("spriteNames", () => {
+  it("names set members by what sets them apart", () => {
+    const names = spriteNames([
+      sprite("A cute cat in a top hat", 0),
+      sprite("A cute cat in a raincoat", 1),
+      sprite("A cute cat in a spacesuit", 2),
+    ]);
+    expect(names).toEqual(["top-hat", "raincoat", "spacesuit"]);
+  });
+
+  it("falls back to the place in the set", () => {
+    expect(spriteNames([sprite("A cute cat", 0), sprite("A cute cat", 1)])).toEqual(["icon-1", "icon-2"]);
+  });
+
+  it("uses the first prompt words for a single sprite and numbers repeats", () => {
+    expect(spriteNames([sprite("Cat with umbrella and boots")])).toEqual(["cat-with-umbrella-and"]);
+    expect(spriteNames([sprite("Red fox"), sprite("Blue fox"), sprite("Red, fox!")])).toEqual(["red", "blue", "red-2"]);
+  });
+});
+
+describe("packSprites", () => {
+  it("packs equal sprites into a grid without overlaps", () => {
+    const packed = packSprites(Array.from({ length: 4 }, () => ({ width: 64, height: 64 })));
+    expect(packed.positions).toEqual([[0, 0], [66, 0], [0, 66], [66, 66]]);
+    expect(packed).toMatchObject({ width: 130, height: 130 });
+  });
+});
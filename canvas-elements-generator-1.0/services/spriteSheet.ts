@@ -0,0 +1,151 @@
+import { zipSync, strToU8, Zippable } from "fflate";
+import { GeneratedAsset } from "../types";
+import { canvasToBlob, loadImage, renderAsset } from "./exportService";
+
+export interface SpriteFrame {
+  name: string;
+  asset: GeneratedAsset;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SpriteSheetLayout {
+  width: number;
+  height: number;
+  frames: SpriteFrame[];
+}
+
+// Transparent pixels between sprites so filtering at the edges never samples
+// a neighbour.
+const SPRITE_GAP = 2;
+const MAX_NAME_WORDS = 4;
+
+// Class and file name from the words that set a sprite apart from the rest
+// of the sheet: in a set of "Cute cat with umbrella" and "Cute cat with
+// balloon" they are "umbrella" and "balloon". Words every prompt shares are
+// dropped, sprites with nothing of their own fall back to their place in the
+// set, and repeats get a numeric suffix.
+export function spriteNames(assets: GeneratedAsset[]): string[] {
+  const words = assets.map((asset) => asset.prompt.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean));
+  const shared = new Set(assets.length > 1 ? words[0].filter((word) => words.every((other) => other.includes(word))) : []);
+  const used = new Set<string>();
+  return assets.map((asset, i) => {
+    const fallback = asset.setIndex === undefined ? "sprite" : `icon-${asset.setIndex + 1}`;
+    const base =
+      words[i]
+        .filter((word) => !shared.has(word))
+        .slice(0, MAX_NAME_WORDS)
+        .join("-") || fallback;
+    let name = base;
+    for (let n = 2; used.has(name); n++) name = `${base}-${n}`;
+    used.add(name);
+    return name;
+  });
+}
+
+// Shelf packing: tallest sprites first, rows filled up to a width that keeps
+// the sheet roughly square. A set normalized to one canvas size packs into a
+// plain grid.
+export function packSprites(sizes: { width: number; height: number }[]): { width: number; height: number; positions: [number, number][] } {
+  const area = sizes.reduce((sum, size) => sum + (size.width + SPRITE_GAP) * (size.height + SPRITE_GAP), 0);
+  const rowWidth = Math.max(...sizes.map((size) => size.width), Math.ceil(Math.sqrt(area)));
+  const order = sizes.map((_, index) => index).sort((a, b) => sizes[b].height - sizes[a].height);
+  const positions: [number, number][] = new Array(sizes.length);
+
+  let x = 0;
+  let y = 0;
+  let shelf = 0;
+  let width = 0;
+  for (const index of order) {
+    const size = sizes[index];
+    if (x > 0 && x + size.width > rowWidth) {
+      x = 0;
+      y += shelf + SPRITE_GAP;
+      shelf = 0;
+    }
+    positions[index] = [x, y];
+    width = Math.max(width, x + size.width);
+    x += size.width + SPRITE_GAP;
+    shelf = Math.max(shelf, size.height);
+  }
+  return { width, height: y + shelf, positions };
+}
+
+export async function layoutSpriteSheet(assets: GeneratedAsset[]): Promise<SpriteSheetLayout & { images: HTMLImageElement[] }> {
+  const images = await Promise.all(assets.map((asset) => loadImage(asset.url)));
+  const names = spriteNames(assets);
+  const sizes = images.map((img) => ({ width: img.naturalWidth, height: img.naturalHeight }));
+  const packed = packSprites(sizes);
+  return {
+    width: packed.width,
+    height: packed.height,
+    images,
+    frames: assets.map((asset, i) => ({
+      name: names[i],
+      asset,
+      x: packed.positions[i][0],
+      y: packed.positions[i][1],
+      ...sizes[i],
+    })),
+  };
+}
+
+// Frames keyed by name in the layout most sprite tools read ({ frame, sourceSize }).
+export function spriteAtlas(layout: SpriteSheetLayout, imageName: string) {
+  return {
+    meta: {
+      image: imageName,
+      size: { w: layout.width, h: layout.height },
+      format: "RGBA8888",
+      scale: 1,
+    },
+    frames: Object.fromEntries(
+      layout.frames.map((frame) => [
+        frame.name,
+        {
+          frame: { x: frame.x, y: frame.y, w: frame.width, h: frame.height },
+          sourceSize: { w: frame.width, h: frame.height },
+          id: frame.asset.id,
+          prompt: frame.asset.prompt,
+        },
+      ])
+    ),
+  };
+}
+
+export function spriteCss(layout: SpriteSheetLayout, imageName: string, prefix = "sprite") {
+  return [
+    `.${prefix} {\n  display: inline-block;\n  background-image: url("${imageName}");\n  background-repeat: no-repeat;\n}`,
+    ...layout.frames.map(
+      (frame) =>
+        `.${prefix}-${frame.name} {\n  width: ${frame.width}px;\n  height: ${frame.height}px;\n  background-position: ${-frame.x}px ${-frame.y}px;\n}`
+    ),
+  ].join("\n\n") + "\n";
+}
+
+// ZIP with the packed sheet, its JSON atlas and CSS, and every sprite as its
+// own PNG named like its atlas frame.
+export async function exportSpriteSheet(assets: GeneratedAsset[], name = "sprites"): Promise<Blob> {
+  const layout = await layoutSpriteSheet(assets);
+  const canvas = document.createElement("canvas");
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+  layout.frames.forEach((frame, i) => ctx.drawImage(layout.images[i], frame.x, frame.y, frame.width, frame.height));
+
+  const imageName = `${name}.png`;
+  const files: Zippable = {
+    [imageName]: [new Uint8Array(await (await canvasToBlob(canvas, "image/png", 1)).arrayBuffer()), { level: 0 }],
+    [`${name}.json`]: strToU8(JSON.stringify(spriteAtlas(layout, imageName), null, 2)),
+    [`${name}.css`]: strToU8(spriteCss(layout, imageName)),
+  };
+  for (const frame of layout.frames) {
+    const exported = await renderAsset(frame.asset, "png");
+    files[`icons/${frame.name}.png`] = [new Uint8Array(await exported.blob.arrayBuffer()), { level: 0 }];
+  }
+
+  return new Blob([zipSync(files)], { type: "application/zip" });
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { AssetType, GeneratedAsset } from "../types";
+import { canVectorize, extractPalette, Point, simplifyLoop, smoothLoop, svgPathData, traceImage, traceMask, TraceSource } from "./vectorizer";
+
+// Builds a trace source from rows of characters, one pixel each; "." is
+// transparent and other characters map to colors.
+function source(rows: string[], colors: Record<string, [number, number, number]>): TraceSource {
+  const width = rows[0].length;
+  const height = rows.length;
+  const data = new Uint8ClampedArray(width * height * 4);
+  rows.forEach((row, y) =>
+    [...row].forEach((char, x) => {
+      if (char === ".") return;
+      data.set([...colors[char], 255], (y * width + x) * 4);
+    })
+  );
+  return { data, width, height, sourceWidth: width * 4, sourceHeight: height * 4 };
+}
+
+const maskOf = (rows: string[]) => Uint8Array.from(rows.join(""), (char) => (char === "#" ? 1 : 0));
+
+describe("traceMask", () => {
+  it("traces a filled square clockwise from its top-left corner", () => {
+    expect(traceMask(maskOf(["....", ".##.", ".##.", "...."]), 4, 4)).toEqual([
+      [
+        [1, 1],
+        [3, 1],
+        [3, 3],
+        [1, 3],
+      ],
+    ]);
+  });
+
+  it("traces holes as separate loops and keeps diagonal neighbours apart", () => {
+    const ring = traceMask(maskOf(["###", "#.#", "###"]), 3, 3);
+    expect(ring).toHaveLength(2);
+    expect(ring[1]).toEqual([
+      [1, 1],
+      [1, 2],
+      [2, 2],
+      [2, 1],
+    ]);
+    expect(traceMask(maskOf(["#.", ".#"]), 2, 2)).toHaveLength(2);
+  });
+});
+
+describe("simplifyLoop", () => {
+  it("drops points that sit within epsilon of a straight edge", () => {
+    const loop: Point[] = [
+      [0, 0],
+      [5, 0.2],
+      [10, 0],
+      [10, 10],
+      [0, 10],
+    ];
+    expect(simplifyLoop(loop, 0.5)).toEqual([
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [0, 10],
+    ]);
+    expect(simplifyLoop(loop, 0.1)).toHaveLength(5);
+  });
+});
+
+describe("smoothLoop", () => {
+  const square: Point[] = [
+    [0, 0],
+    [10, 0],
+    [10, 10],
+    [0, 10],
+  ];
+
+  it("keeps straight edges without smoothing", () => {
+    expect(svgPathData([smoothLoop(square, 0)])).toBe("M0 0L10 0L10 10L0 10Z");
+  });
+
+  it("keeps right angles as corners and curves gentle bends", () => {
+    expect(smoothLoop(square, 100).some(([op]) => op === "Q")).toBe(false);
+    const octagon: Point[] = Array.from({ length: 8 }, (_, i) => [
+      Math.round(10 * Math.cos((i * Math.PI) / 4)),
+      Math.round(10 * Math.sin((i * Math.PI) / 4)),
+    ]);
+    expect(smoothLoop(octagon, 100).filter(([op]) => op === "Q")).toHaveLength(8);
+  });
+});
+
+describe("svgPathData", () => {
+  it("rounds to the requested precision", () => {
+    expect(svgPathData([[["M", [0.123, 1.987]], ["Q", [2.5, 2.5], [3.0004, 4]]]], 2)).toBe("M0.12 1.99Q2.5 2.5 3 4Z");
+  });
+});
+
+describe("palette and tracing", () => {
+  const flag = source(["rrrb", "rrrb", "rrrb", "...."], { r: [255, 0, 0], b: [0, 0, 255] });
+
+  it("orders the palette by coverage", () => {
+    expect(extractPalette(flag, 4)).toEqual([
+      { color: "#ff0000", share: 0.75 },
+      { color: "#0000ff", share: 0.25 },
+    ]);
+  });
+
+  it("stacks layers from most to least common and scales through the viewBox", () => {
+    const result = traceImage(flag, { colors: 4, smoothing: 0, detail: 100 });
+    expect(result.palette).toEqual(["#ff0000", "#0000ff"]);
+    expect(result.pathCount).toBe(2);
+    expect(result.svg).toContain('viewBox="0 0 4 4" width="16" height="16"');
+    // The first layer also covers the blue column, so the shapes never show seams.
+    expect(result.svg).toContain('<path fill="#ff0000" d="M0 0L4 0L4 3L0 3Z"/>');
+    expect(result.svg).toContain('<path fill="#0000ff" d="M3 0L4 0L4 3L3 3Z"/>');
+  });
+
+  it("merges specks below the detail threshold into their surroundings", () => {
+    const rows = Array.from({ length: 40 }, (_, y) => (y === 20 ? `${"r".repeat(20)}b${"r".repeat(19)}` : "r".repeat(40)));
+    const speckled = source(rows, { r: [255, 0, 0], b: [0, 0, 255] });
+    expect(traceImage(speckled, { colors: 2, smoothing: 0, detail: 100 }).pathCount).toBe(2);
+    expect(traceImage(speckled, { colors: 2, smoothing: 0, detail: 0 }).palette).toEqual(["#ff0000"]);
+  });
+});
+
+describe("canVectorize", () => {
+  const asset = (type: AssetType, isVideo = false): GeneratedAsset => ({ id: "a", url: "", type, prompt: "", timestamp: 0, isVideo });
+
+  it("only offers flat still types", () => {
+    expect(canVectorize(asset(AssetType.GRAPHIC))).toBe(true);
+    expect(canVectorize(asset(AssetType.PHOTO))).toBe(false);
+    expect(canVectorize(asset(AssetType.GRAPHIC, true))).toBe(false);
+  });
+});
@@ -0,0 +1,406 @@
+import { AssetType, GeneratedAsset } from "../types";
+import { loadImage } from "./exportService";
+
+export interface TraceOptions {
+  colors: number;
+  // 0 keeps straight polygon edges; higher values simplify more and curve gentle bends.
+  smoothing: number;
+  // 0 drops the largest specks; 100 keeps every region down to a single pixel.
+  detail: number;
+}
+
+export interface TraceSource {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+export interface VectorResult {
+  svg: string;
+  palette: string[];
+  pathCount: number;
+}
+
+export type Point = [number, number];
+
+export const DEFAULT_TRACE_OPTIONS: TraceOptions = { colors: 6, smoothing: 40, detail: 60 };
+
+export const VECTOR_TYPES: AssetType[] = [AssetType.GRAPHIC, AssetType.STAMP, AssetType.SHAPE_3D];
+
+export const canVectorize = (asset: GeneratedAsset) => VECTOR_TYPES.includes(asset.type) && !asset.isVideo;
+
+// Tracing runs on the main thread, so large images are traced at a reduced
+// size and scaled back up through the SVG viewBox.
+const TRACE_SIZE = 512;
+const SAMPLE_LIMIT = 20000;
+const KMEANS_ITERATIONS = 10;
+const MIN_ALPHA = 128;
+
+export async function loadTraceSource(url: string): Promise<TraceSource> {
+  const img = await loadImage(url);
+  const scale = Math.min(1, TRACE_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+  ctx.drawImage(img, 0, 0, width, height);
+
+  return {
+    data: ctx.getImageData(0, 0, width, height).data,
+    width,
+    height,
+    sourceWidth: img.naturalWidth,
+    sourceHeight: img.naturalHeight,
+  };
+}
+
+function distance2(data: ArrayLike<number>, offset: number, center: number[]) {
+  const dr = data[offset] - center[0];
+  const dg = data[offset + 1] - center[1];
+  const db = data[offset + 2] - center[2];
+  return dr * dr + dg * dg + db * db;
+}
+
+function nearest(data: ArrayLike<number>, offset: number, centers: number[][]) {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let c = 0; c < centers.length; c++) {
+    const d = distance2(data, offset, centers[c]);
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = c;
+    }
+  }
+  return best;
+}
+
+// k-means over a pixel sample, seeded with farthest-point picks so the same
+// image and color count always produce the same palette.
+function quantize(source: TraceSource, colors: number) {
+  const { data, width, height } = source;
+  const total = width * height;
+  const labels = new Int16Array(total).fill(-1);
+
+  let opaque = 0;
+  for (let i = 0; i < total; i++) if (data[i * 4 + 3] >= MIN_ALPHA) opaque++;
+  if (opaque === 0) return { labels, palette: [] as number[][] };
+
+  const step = Math.max(1, Math.floor(opaque / SAMPLE_LIMIT));
+  const samples: number[] = [];
+  for (let i = 0, seen = 0; i < total; i++) {
+    if (data[i * 4 + 3] < MIN_ALPHA) continue;
+    if (seen++ % step === 0) samples.push(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+  }
+  const count = samples.length / 3;
+
+  const mean = [0, 0, 0];
+  for (let s = 0; s < count; s++) for (let ch = 0; ch < 3; ch++) mean[ch] += samples[s * 3 + ch] / count;
+
+  let seed = 0;
+  for (let s = 1; s < count; s++) {
+    if (distance2(samples, s * 3, mean) < distance2(samples, seed * 3, mean)) seed = s;
+  }
+  const centers: number[][] = [samples.slice(seed * 3, seed * 3 + 3)];
+  const closest = new Float64Array(count).fill(Infinity);
+  while (centers.length < Math.min(colors, count)) {
+    const last = centers[centers.length - 1];
+    let far = 0;
+    for (let s = 0; s < count; s++) {
+      closest[s] = Math.min(closest[s], distance2(samples, s * 3, last));
+      if (closest[s] > closest[far]) far = s;
+    }
+    if (closest[far] === 0) break;
+    centers.push(samples.slice(far * 3, far * 3 + 3));
+  }
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (let s = 0; s < count; s++) {
+      const sum = sums[nearest(samples, s * 3, centers)];
+      sum[0] += samples[s * 3];
+      sum[1] += samples[s * 3 + 1];
+      sum[2] += samples[s * 3 + 2];
+      sum[3]++;
+    }
+    sums.forEach((sum, c) => {
+      if (sum[3] > 0) centers[c] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+    });
+  }
+
+  for (let i = 0; i < total; i++) {
+    if (data[i * 4 + 3] >= MIN_ALPHA) labels[i] = nearest(data, i * 4, centers);
+  }
+  return { labels, palette: centers.map((center) => center.map(Math.round)) };
+}
+
+// Merges connected regions smaller than minArea into their most common
+// neighbouring label (including transparency).
+function despeckle(labels: Int16Array, width: number, height: number, minArea: number) {
+  if (minArea <= 1) return;
+  const total = width * height;
+  const visited = new Uint8Array(total);
+  const region = new Int32Array(total);
+
+  for (let start = 0; start < total; start++) {
+    if (visited[start]) continue;
+    const label = labels[start];
+    let size = 0;
+    region[size++] = start;
+    visited[start] = 1;
+
+    for (let head = 0; head < size; head++) {
+      const p = region[head];
+      const x = p % width;
+      const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, p - width, p + width];
+      for (const n of neighbours) {
+        if (n < 0 || n >= total || visited[n] || labels[n] !== label) continue;
+        visited[n] = 1;
+        region[size++] = n;
+      }
+    }
+    if (size >= minArea) continue;
+
+    const votes = new Map<number, number>();
+    for (let i = 0; i < size; i++) {
+      const p = region[i];
+      const x = p % width;
+      const neighbours = [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, p - width, p + width];
+      for (const n of neighbours) {
+        if (n < 0 || n >= total || labels[n] === label) continue;
+        votes.set(labels[n], (votes.get(labels[n]) || 0) + 1);
+      }
+    }
+    let replacement = label;
+    let bestVotes = 0;
+    votes.forEach((value, candidate) => {
+      if (value > bestVotes) {
+        bestVotes = value;
+        replacement = candidate;
+      }
+    });
+    for (let i = 0; i < size; i++) labels[region[i]] = replacement;
+  }
+}
+
+// Walks the pixel-edge boundary of a mask into closed loops. Outer edges run
+// clockwise and holes counter-clockwise, so a nonzero fill reproduces the mask.
+export function traceMask(mask: Uint8Array, width: number, height: number): Point[][] {
+  const stride = width + 1;
+  const first = new Int32Array(stride * (height + 1)).fill(-1);
+  const second = new Int32Array(stride * (height + 1)).fill(-1);
+  const addEdge = (from: number, to: number) => {
+    if (first[from] < 0) first[from] = to;
+    else second[from] = to;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (!mask[p]) continue;
+      const tl = y * stride + x;
+      const tr = tl + 1;
+      const bl = tl + stride;
+      const br = bl + 1;
+      if (y === 0 || !mask[p - width]) addEdge(tl, tr);
+      if (x === width - 1 || !mask[p + 1]) addEdge(tr, br);
+      if (y === height - 1 || !mask[p + width]) addEdge(br, bl);
+      if (x === 0 || !mask[p - 1]) addEdge(bl, tl);
+    }
+  }
+
+  // Where two regions touch diagonally, turning right keeps them apart.
+  const takeEdge = (prev: number, vertex: number) => {
+    let next = first[vertex];
+    if (second[vertex] >= 0 && prev >= 0) {
+      const inX = (vertex % stride) - (prev % stride);
+      const inY = Math.floor(vertex / stride) - Math.floor(prev / stride);
+      const outX = (next % stride) - (vertex % stride);
+      const outY = Math.floor(next / stride) - Math.floor(vertex / stride);
+      if (inX * outY - inY * outX <= 0) {
+        next = second[vertex];
+        second[vertex] = -1;
+        return next;
+      }
+    }
+    first[vertex] = second[vertex];
+    second[vertex] = -1;
+    return next;
+  };
+
+  const loops: Point[][] = [];
+  for (let start = 0; start < first.length; start++) {
+    while (first[start] >= 0) {
+      const vertices: number[] = [];
+      let prev = -1;
+      let vertex = start;
+      do {
+        const next = takeEdge(prev, vertex);
+        vertices.push(vertex);
+        prev = vertex;
+        vertex = next;
+      } while (vertex !== start);
+
+      const points: Point[] = [];
+      vertices.forEach((v, i) => {
+        const before = vertices[(i - 1 + vertices.length) % vertices.length];
+        const after = vertices[(i + 1) % vertices.length];
+        if (v - before !== after - v) points.push([v % stride, Math.floor(v / stride)]);
+      });
+      if (points.length >= 3) loops.push(points);
+    }
+  }
+  return loops;
+}
+
+function segmentDistance([px, py]: Point, [ax, ay]: Point, [bx, by]: Point) {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const length2 = dx * dx + dy * dy;
+  const t = length2 === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / length2));
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+}
+
+function simplifyOpen(points: Point[], epsilon: number): Point[] {
+  if (points.length < 3) return points;
+  const last = points.length - 1;
+  let index = 0;
+  let maxDistance = 0;
+  for (let i = 1; i < last; i++) {
+    const d = segmentDistance(points[i], points[0], points[last]);
+    if (d > maxDistance) {
+      maxDistance = d;
+      index = i;
+    }
+  }
+  if (maxDistance <= epsilon) return [points[0], points[last]];
+  return [...simplifyOpen(points.slice(0, index + 1), epsilon).slice(0, -1), ...simplifyOpen(points.slice(index), epsilon)];
+}
+
+// Ramer-Douglas-Peucker on a closed loop, split at the point farthest from
+// the first so both halves are well defined.
+export function simplifyLoop(points: Point[], epsilon: number): Point[] {
+  let far = 0;
+  let maxDistance = 0;
+  points.forEach(([x, y], i) => {
+    const d = Math.hypot(x - points[0][0], y - points[0][1]);
+    if (d > maxDistance) {
+      maxDistance = d;
+      far = i;
+    }
+  });
+  if (far === 0) return points;
+  const head = simplifyOpen(points.slice(0, far + 1), epsilon);
+  const tail = simplifyOpen([...points.slice(far), points[0]], epsilon);
+  return [...head.slice(0, -1), ...tail.slice(0, -1)];
+}
+
+export type PathCommand = ["M" | "L", Point] | ["Q", Point, Point];
+
+// Turns a simplified loop into commands. With smoothing, gentle bends become
+// quadratic curves through the segment midpoints.
+export function smoothLoop(points: Point[], smoothing: number): PathCommand[] {
+  if (smoothing === 0) {
+    return points.map((point, i) => [i === 0 ? "M" : "L", point]);
+  }
+
+  const n = points.length;
+  // Right angles and sharper always stay corners, even at full smoothing.
+  const cornerAngle = ((20 + smoothing / 2) * Math.PI) / 180;
+  const mid = (i: number): Point => {
+    const a = points[i % n];
+    const b = points[(i + 1) % n];
+    return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+  };
+  const sharp = points.map((p, i) => {
+    const before = points[(i - 1 + n) % n];
+    const after = points[(i + 1) % n];
+    const turn = Math.abs(
+      Math.atan2(
+        (p[0] - before[0]) * (after[1] - p[1]) - (p[1] - before[1]) * (after[0] - p[0]),
+        (p[0] - before[0]) * (after[0] - p[0]) + (p[1] - before[1]) * (after[1] - p[1])
+      )
+    );
+    return turn > cornerAngle;
+  });
+
+  const commands: PathCommand[] = [["M", mid(n - 1)]];
+  points.forEach((point, i) => {
+    if (!sharp[i]) {
+      commands.push(["Q", point, mid(i)]);
+      return;
+    }
+    commands.push(["L", point]);
+    if (!sharp[(i + 1) % n]) commands.push(["L", mid(i)]);
+  });
+  return commands;
+}
+
+export function svgPathData(loops: PathCommand[][], precision = 1) {
+  const factor = 10 ** precision;
+  const fmt = (n: number) => String(Math.round(n * factor) / factor);
+  return loops
+    .map((commands) => `${commands.map(([op, ...points]) => op + points.map(([x, y]) => `${fmt(x)} ${fmt(y)}`).join(" ")).join("")}Z`)
+    .join("");
+}
+
+const toHex = (color: number[]) => `#${color.map((ch) => ch.toString(16).padStart(2, "0")).join("")}`;
+
+// Dominant colors with the share of opaque pixels each one covers, most
+// common first.
+export function extractPalette(source: TraceSource, colors: number): { color: string; share: number }[] {
+  const { labels, palette } = quantize(source, colors);
+  const areas = palette.map(() => 0);
+  let opaque = 0;
+  labels.forEach((label) => {
+    if (label < 0) return;
+    areas[label]++;
+    opaque++;
+  });
+  return palette
+    .map((color, i) => ({ color: toHex(color), share: opaque ? areas[i] / opaque : 0 }))
+    .filter((entry) => entry.share > 0)
+    .sort((a, b) => b.share - a.share);
+}
+
+// Colors are stacked from most to least common, and every layer also covers
+// the regions of the layers above it, so adjacent shapes never show seams.
+export function traceImage(source: TraceSource, options: TraceOptions): VectorResult {
+  const { width, height } = source;
+  const { labels, palette } = quantize(source, options.colors);
+  const minArea = Math.round(((100 - options.detail) / 100) ** 2 * width * height * 0.001);
+  despeckle(labels, width, height, minArea);
+
+  const areas = palette.map(() => 0);
+  labels.forEach((label) => label >= 0 && areas[label]++);
+  const order = palette.map((_, i) => i).filter((i) => areas[i] > 0).sort((a, b) => areas[b] - areas[a]);
+  const rank = new Int16Array(palette.length);
+  order.forEach((label, i) => (rank[label] = i));
+
+  const epsilon = 0.6 + (options.smoothing / 100) * 1.4;
+  const mask = new Uint8Array(width * height);
+  const paths: string[] = [];
+  order.forEach((label, layer) => {
+    labels.forEach((l, p) => (mask[p] = l >= 0 && rank[l] >= layer ? 1 : 0));
+    const d = svgPathData(
+      traceMask(mask, width, height)
+        .map((loop) => simplifyLoop(loop, epsilon))
+        .filter((loop) => loop.length >= 3)
+        .map((loop) => smoothLoop(loop, options.smoothing))
+    );
+    if (d) paths.push(`<path fill="${toHex(palette[label])}" d="${d}"/>`);
+  });
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${source.sourceWidth}" height="${source.sourceHeight}">`,
+    ...paths,
+    "</svg>",
+  ].join("\n");
+
+  return { svg, palette: order.map((label) => toHex(palette[label])), pathCount: paths.length };
+}
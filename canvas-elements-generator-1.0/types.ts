@@ -15,11 +15,232 @@ export interface GeneratedAsset {
   url: string;
   type: AssetType;
   prompt: string;
+  basePrompt?: string;
   timestamp: number;
+  mimeType?: string;
+  alternates?: AssetFile[];
+  hasAlpha?: boolean;
   isVideo?: boolean;
+  favorite?: boolean;
+  // Asset this one was generated from with "More like this".
+  parentId?: string;
+  // Brand kit the asset was generated with.
+  brandKitId?: string;
+  // Loop the animation was rendered with.
+  motion?: Motion;
+  // Job of the icon set the asset belongs to, and the asset's place in it.
+  setId?: string;
+  setIndex?: number;
+  // Image service and model that rendered the original.
+  provider?: string;
+  model?: string;
+  // Screen reader description and search keywords; both are editable.
+  altText?: string;
+  tags?: string[];
+  // Edit history; versions[0] is the original generation and `url` always
+  // points at versions[activeVersion].
+  versions?: AssetVersion[];
+  activeVersion?: number;
+}
+
+export interface AssetVersion {
+  mimeType: string;
+  hasAlpha?: boolean;
+  // Instruction that produced this version; absent on the original.
+  instruction?: string;
+  createdAt: number;
+  url?: string;
+}
+
+export interface AssetFile {
+  mimeType: string;
+  url: string;
+}
+
+export interface GeneratedImage extends AssetFile {
+  alternates: AssetFile[];
+  hasAlpha: boolean;
+  provider?: string;
+  model?: string;
+  altText?: string;
+  tags?: string[];
+}
+
+// Matches ERROR_CODES in api/_lib/errors.js plus the quota layer's code.
+export type ApiErrorCode =
+  | 'BAD_INPUT'
+  | 'SAFETY_BLOCKED'
+  | 'MODERATION_BLOCKED'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  | 'NO_IMAGE'
+  | 'UPSTREAM_ERROR'
+  | 'UPSTREAM_TIMEOUT'
+  | 'PROVIDER_NOT_CONFIGURED'
+  | 'GENERATION_FAILED';
+
+export type JobStatus = 'queued' | 'expanding' | 'running' | 'completed' | 'failed';
+
+export type JobItemStatus = 'pending' | 'running' | 'done' | 'failed' | 'blocked';
+
+export interface JobItem {
+  index: number;
+  prompt: string;
+  status: JobItemStatus;
+  attempts: number;
+  error: string | null;
+  errorCode?: ApiErrorCode | null;
+  result?: GeneratedImage | null;
+  // Job change sequence number of the item's last update.
+  seq: number;
+  updatedAt: number;
+}
+
+export interface ReferenceImage {
+  mimeType: string;
+  // Base64 without the data URL prefix.
+  data: string;
+}
+
+export interface GenerationReference {
+  images: ReferenceImage[];
+  // 0 uses the references as loose inspiration, 1 follows them closely.
+  strength: number;
+  parentId?: string;
+}
+
+// How outputs are pulled onto the brand palette after generation.
+export type RecolorMode = 'off' | 'remap' | 'quantize';
+
+export interface BrandKit {
+  id: string;
+  name: string;
+  // Hex colors such as #1e293b.
+  palette: string[];
+  keywords: string[];
+  forbidden: string[];
+  recolor: RecolorMode;
+  updatedAt: number;
+}
+
+// Loop applied to GIF (Motion) keyframes; matches MOTIONS in api/_lib/motion.js.
+export type Motion = 'float' | 'pulse' | 'sway' | 'spin';
+
+// Set mode: a shared style anchor plus a common square canvas for every item.
+export interface SetOptions {
+  style: string;
+  // Canvas edge in pixels: 64, 128, 256 or 512.
+  size: number;
+  padding: number;
+}
+
+// How far prompt variations may stray from the base prompt.
+export type VariationDiversity = 'subtle' | 'balanced' | 'wild';
+
+export interface GenerationJob {
+  id: string;
+  prompt: string;
+  type: AssetType;
+  motion: Motion | null;
+  strength: number | null;
+  brandKit: Omit<BrandKit, 'updatedAt'> | null;
+  // Index of the item the rest of the set was styled after, once it exists.
+  set?: (SetOptions & { anchorIndex: number | null }) | null;
+  parentId: string | null;
+  count: number;
+  status: JobStatus;
+  error: string | null;
+  errorCode?: ApiErrorCode | null;
+  createdAt: number;
+  updatedAt: number;
+  counts: Record<JobItemStatus, number> & { total: number };
+  items: JobItem[];
+}
+
+export interface LibraryQuery {
+  search: string;
+  type: AssetType | 'all';
+  since: 'all' | 'day' | 'week' | 'month';
+  favoritesOnly: boolean;
+}
+
+export type BoardPreset = 'slide' | 'a4' | 'instagram';
+
+// Position is the item's centre in artboard pixels; rotation is in degrees.
+interface BoardItemFrame {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+export interface BoardAssetItem extends BoardItemFrame {
+  kind: 'asset';
+  assetId: string;
+}
+
+export interface BoardTextItem extends BoardItemFrame {
+  kind: 'text';
+  text: string;
+  fontSize: number;
+  fontWeight: number;
+  color: string;
+  align: 'left' | 'center' | 'right';
+}
+
+export type BoardItem = BoardAssetItem | BoardTextItem;
+
+// Scene document saved for each board. Items reference library assets by id
+// and are listed back to front.
+export interface BoardScene {
+  version: 1;
+  id: string;
+  name: string;
+  preset: BoardPreset;
+  width: number;
+  height: number;
+  background: string;
+  items: BoardItem[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface QuotaStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: number;
 }
 
 export interface GenerationParams {
   prompt: string;
   type: AssetType;
 }
+
+export interface StylePreset {
+  type: AssetType;
+  summary: string;
+  template: {
+    style: string;
+    background: string;
+    framing: string;
+    lighting: string;
+    border: string;
+    negative: string[];
+  };
+  aspectRatio: string;
+  output: {
+    mimeType: string;
+    singleSubject: boolean;
+    transparent?: boolean;
+    keyColor?: string;
+    motion?: {
+      frames: number;
+      frameDelay: number;
+      size: number;
+      formats: string[];
+    };
+  };
+}
@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+
+// Serves the Vercel-style handlers in api/ from the Vite dev server, so the
+// whole app runs with `npm run dev` (offline too, with IMAGE_PROVIDER=mock).
+
+type ApiRequest = IncomingMessage & { query: Record<string, string>; body: unknown };
+type ApiResponse = ServerResponse & {
+  status: (code: number) => ApiResponse;
+  json: (data: unknown) => ApiResponse;
+};
+
+function resolveRoute(root: string, pathname: string): string | null {
+  const segments = pathname.replace(/^\/api\/?/, '').split('/').filter(Boolean);
+  if (segments.some((segment) => segment.startsWith('_') || segment.startsWith('.'))) return null;
+
+  const base = path.join(root, 'api', ...segments);
+  const candidates = segments.length ? [`${base}.js`, path.join(base, 'index.js')] : [path.join(base, 'index.js')];
+  return candidates.find((candidate) => fs.existsSync(candidate)) || null;
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  if (chunks.length === 0) return undefined;
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if ((req.headers['content-type'] || '').includes('application/json')) {
+    return JSON.parse(raw);
+  }
+  return raw;
+}
+
+function decorate(res: ServerResponse): ApiResponse {
+  const api = res as ApiResponse;
+  api.status = (code) => {
+    api.statusCode = code;
+    return api;
+  };
+  api.json = (data) => {
+    api.setHeader('Content-Type', 'application/json');
+    api.end(JSON.stringify(data));
+    return api;
+  };
+  return api;
+}
+
+export function apiRoutes(env: Record<string, string>): Plugin {
+  return {
+    name: 'canvas-elements-api',
+    configureServer(server) {
+      for (const [key, value] of Object.entries(env)) {
+        process.env[key] ??= value;
+      }
+
+      server.middlewares.use(async (req, res, next) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        if (!url.pathname.startsWith('/api/')) return next();
+
+        const file = resolveRoute(server.config.root, url.pathname);
+        if (!file) return next();
+
+        const response = decorate(res);
+        try {
+          const request = req as ApiRequest;
+          request.query = Object.fromEntries(url.searchParams);
+          request.body = await readBody(req);
+
+          const { default: handler } = await server.ssrLoadModule(file);
+          await handler(request, response);
+        } catch (err) {
+          console.error(err);
+          if (!res.headersSent) {
+            response.status(500).json({ error: 'Internal server error' });
+          } else {
+            res.end();
+          }
+        }
+      });
+    },
+  };
+}
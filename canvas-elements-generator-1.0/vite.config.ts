@@ -1,16 +1,22 @@
+/// <reference types="vitest/config" />
 import path from 'path';
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiRoutes } from './vite-plugin-api';
 
-export default defineConfig({
+export default defineConfig(({ mode }) => ({
   server: {
     port: 3000,
     host: '0.0.0.0',
   },
-  plugins: [react()],
+  plugins: [react(), apiRoutes(loadEnv(mode, '.', ''))],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, '.'),
     }
-  }
-});
+  },
+  test: {
+    include: ['**/*.test.{js,ts}'],
+    exclude: ['node_modules', 'dist'],
+  },
+}));